@@ -5,6 +5,11 @@ import { AuthProvider, useAuth } from './context/AuthContext';
 import { Header } from './components/Header';
 import { HabitForm } from './components/HabitForm';
 import { ImportModal } from './components/ImportModal';
+import { ExportModal } from './components/ExportModal';
+import { LocalMigrationModal } from './components/LocalMigrationModal';
+import { ConflictLogModal } from './components/ConflictLogModal';
+import { ArchivedHabitsModal } from './components/ArchivedHabitsModal';
+import { SettingsModal } from './components/SettingsModal';
 import { MainDashboard } from './components/MainDashboard';
 import { TrackerView } from './components/TrackerView';
 import { FriendsPanel } from './components/FriendsPanel';
@@ -15,13 +20,17 @@ import type { Habit } from './types';
 type ViewType = 'tracker' | 'dashboard' | 'reports';
 
 function AppContent() {
-  const { habits, isLoading, isViewingFriend, setViewingUser, setCurrentUserId, viewingUserId } = useHabits();
+  const { habits, isLoading, isViewingFriend, setViewingUser, setCurrentUserId, viewingUserId, localDataToMigrate } = useHabits();
   const { user, isLoading: authLoading, isAuthenticated, isFirebaseEnabled, allUsers } = useAuth();
   
   const [activeView, setActiveView] = useState<ViewType>('tracker');
   const [showHabitForm, setShowHabitForm] = useState(false);
   const [editingHabit, setEditingHabit] = useState<Habit | null>(null);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showConflictLog, setShowConflictLog] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const [showFriendsPanel, setShowFriendsPanel] = useState(false);
 
   // Sync user ID with HabitContext
@@ -81,7 +90,13 @@ function AppContent() {
       </div>
 
       <div className="relative z-10">
-        <Header onImport={() => setShowImportModal(true)} />
+        <Header
+          onExport={() => setShowExportModal(true)}
+          onImport={() => setShowImportModal(true)}
+          onShowConflicts={() => setShowConflictLog(true)}
+          onShowArchived={() => setShowArchived(true)}
+          onShowSettings={() => setShowSettings(true)}
+        />
 
         <main className="max-w-7xl mx-auto px-3 py-4 sm:px-4 sm:py-6 md:px-6 md:py-8">
           {/* Friend Viewing Banner */}
@@ -231,6 +246,24 @@ function AppContent() {
         <ImportModal onClose={() => setShowImportModal(false)} />
       )}
 
+      {showExportModal && !isViewingFriend && (
+        <ExportModal onClose={() => setShowExportModal(false)} />
+      )}
+
+      {showConflictLog && !isViewingFriend && (
+        <ConflictLogModal onClose={() => setShowConflictLog(false)} />
+      )}
+
+      {showArchived && !isViewingFriend && (
+        <ArchivedHabitsModal onClose={() => setShowArchived(false)} />
+      )}
+
+      {showSettings && !isViewingFriend && (
+        <SettingsModal onClose={() => setShowSettings(false)} />
+      )}
+
+      {localDataToMigrate && !isViewingFriend && <LocalMigrationModal />}
+
       {showFriendsPanel && (
         <FriendsPanel onClose={() => setShowFriendsPanel(false)} />
       )}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO, differenceInCalendarDays } from 'date-fns';
+import { X, Archive, RotateCcw, Trash2, Trophy } from 'lucide-react';
+import { useHabits } from '../context/HabitContext';
+import { calculateHabitStreak, getTrashExpiry, TRASH_RETENTION_DAYS } from '../lib/utils';
+import { getHabitEntries } from '../lib/entryIndex';
+import type { Habit } from '../types';
+
+interface ArchivedHabitsModalProps {
+  onClose: () => void;
+}
+
+// Habits taken out of the tracker: archived ones still show in reports, deleted ones wait in the trash
+export function ArchivedHabitsModal({ onClose }: ArchivedHabitsModalProps) {
+  const { archivedHabits, trashedHabits, entryIndex, journal, restoreHabit, removeHabit, restoreDeletedHabit, purgeHabit, loadEntriesFrom } = useHabits();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Best streaks and entry counts span all history
+  useEffect(() => {
+    loadEntriesFrom(null);
+  }, [loadEntriesFrom]);
+
+  const run = async (habitId: string, action: () => Promise<void>) => {
+    setBusyId(habitId);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Failed to update archived habit:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = (habit: Habit) => {
+    if (confirm(`Delete "${habit.name}" permanently? This will also delete all tracking data for this habit. This cannot be undone!`)) {
+      run(habit.id, () => purgeHabit(habit.id));
+    }
+  };
+
+  const getDaysLeft = (habit: Habit) =>
+    Math.max(0, differenceInCalendarDays(getTrashExpiry(habit) ?? new Date(), new Date()));
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl w-full max-w-lg animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-700/50">
+          <h2 className="text-lg font-semibold">Archive & Trash</h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="text-sm text-slate-400">
+            Archived habits are hidden from tracking and stop counting toward streaks and perfect days,
+            but their history stays in your reports.
+          </div>
+
+          {archivedHabits.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-slate-400">
+              <Archive className="w-10 h-10" />
+              <span className="text-sm">No archived habits</span>
+            </div>
+          ) : (
+            <ul className="space-y-2 max-h-96 overflow-y-auto">
+              {archivedHabits.map(habit => {
+                const habitEntries = getHabitEntries(entryIndex, habit.id);
+                const entryCount = habitEntries.filter(e => e.value > 0).length;
+                const { maxStreak } = calculateHabitStreak(habit.id, habit, habitEntries, journal);
+                return (
+                  <li key={habit.id} className="bg-slate-800/50 rounded-xl p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="font-medium truncate" style={{ color: habit.color }}>
+                        {habit.icon} {habit.name}
+                      </div>
+                      {habit.archivedAt && (
+                        <div className="text-xs text-slate-400 shrink-0">
+                          Archived {format(parseISO(habit.archivedAt), 'MMM d, yyyy')}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between mt-2">
+                      <div className="flex items-center gap-3 text-xs text-slate-500">
+                        <span>{entryCount} day{entryCount !== 1 ? 's' : ''} logged</span>
+                        <span className="flex items-center gap-1">
+                          <Trophy className="w-3 h-3 text-amber-400" />
+                          Best streak {maxStreak}
+                        </span>
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => run(habit.id, () => restoreHabit(habit.id))}
+                          disabled={busyId === habit.id}
+                          className="flex items-center gap-1 px-2 py-1 text-xs bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Restore
+                        </button>
+                        <button
+                          onClick={() => run(habit.id, () => removeHabit(habit.id))}
+                          disabled={busyId === habit.id}
+                          className="flex items-center gap-1 px-2 py-1 text-xs bg-red-600/10 hover:bg-red-600/20 text-red-400 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {trashedHabits.length > 0 && (
+            <div>
+              <div className="text-sm font-medium text-slate-300 mb-1">Trash</div>
+              <div className="text-xs text-slate-500 mb-2">
+                Deleted habits and their entries are removed for good after {TRASH_RETENTION_DAYS} days.
+              </div>
+              <ul className="space-y-2 max-h-60 overflow-y-auto">
+                {trashedHabits.map(habit => {
+                  const daysLeft = getDaysLeft(habit);
+                  return (
+                    <li key={habit.id} className="bg-slate-800/50 rounded-xl p-3 flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="font-medium truncate opacity-60" style={{ color: habit.color }}>
+                          {habit.icon} {habit.name}
+                        </div>
+                        <div className="text-xs text-slate-500">
+                          {daysLeft > 0 ? `Deleted for good in ${daysLeft} day${daysLeft !== 1 ? 's' : ''}` : 'Deleting...'}
+                        </div>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <button
+                          onClick={() => run(habit.id, () => restoreDeletedHabit(habit.id))}
+                          disabled={busyId === habit.id}
+                          className="flex items-center gap-1 px-2 py-1 text-xs bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Restore
+                        </button>
+                        <button
+                          onClick={() => handlePurge(habit)}
+                          disabled={busyId === habit.id}
+                          className="flex items-center gap-1 px-2 py-1 text-xs bg-red-600/10 hover:bg-red-600/20 text-red-400 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                          Delete now
+                        </button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="flex-1 py-2.5 px-4 bg-gradient-to-r from-violet-600 to-cyan-600 hover:from-violet-500 hover:to-cyan-500 rounded-xl font-medium transition-all"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
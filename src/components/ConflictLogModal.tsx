@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { X, GitMerge, RotateCcw, Check } from 'lucide-react';
+import { useHabits } from '../context/HabitContext';
+import type { EntryConflict, ConflictSource } from '../types';
+
+interface ConflictLogModalProps {
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ConflictSource, string> = {
+  edit: 'Edit on this device',
+  sync: 'Sync',
+  import: 'Import',
+};
+
+function formatTimestamp(timestamp: string): string {
+  return timestamp ? format(parseISO(timestamp), 'MMM d, HH:mm') : 'unknown';
+}
+
+export function ConflictLogModal({ onClose }: ConflictLogModalProps) {
+  const { habits, conflicts, restoreConflict, dismissConflict, clearConflicts } = useHabits();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const getHabit = (habitId: string) => habits.find(h => h.id === habitId);
+
+  const handleRestore = async (conflict: EntryConflict) => {
+    setRestoringId(conflict.id);
+    try {
+      await restoreConflict(conflict);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div 
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl w-full max-w-lg animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-700/50">
+          <h2 className="text-lg font-semibold">Sync Conflicts</h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="text-sm text-slate-400">
+            When the same day was changed in two places, the most recent change was kept.
+            Review the values that were discarded and restore any you want back.
+          </div>
+
+          {conflicts.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-slate-400">
+              <GitMerge className="w-10 h-10" />
+              <span className="text-sm">No conflicts</span>
+            </div>
+          ) : (
+            <ul className="space-y-2 max-h-96 overflow-y-auto">
+              {conflicts.map(conflict => {
+                const habit = getHabit(conflict.habitId);
+                return (
+                  <li key={conflict.id} className="bg-slate-800/50 rounded-xl p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="font-medium truncate">
+                        {habit ? `${habit.icon} ${habit.name}` : 'Deleted habit'}
+                      </div>
+                      <div className="text-xs text-slate-400 shrink-0">
+                        {format(parseISO(conflict.date), 'EEE, MMM d yyyy')}
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 mt-2 text-sm">
+                      <div>
+                        <div className="text-xs text-emerald-400">Kept</div>
+                        <div>
+                          {conflict.keptValue} {habit?.unit}
+                          <span className="text-xs text-slate-500 ml-1">{formatTimestamp(conflict.keptUpdatedAt)}</span>
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-amber-400">Discarded</div>
+                        <div>
+                          {conflict.discardedValue} {habit?.unit}
+                          <span className="text-xs text-slate-500 ml-1">{formatTimestamp(conflict.discardedUpdatedAt)}</span>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between mt-2">
+                      <span className="text-xs text-slate-500">{SOURCE_LABELS[conflict.source]}</span>
+                      <div className="flex gap-2">
+                        {habit && (
+                          <button
+                            onClick={() => handleRestore(conflict)}
+                            disabled={restoringId === conflict.id}
+                            className="flex items-center gap-1 px-2 py-1 text-xs bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors disabled:opacity-50"
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                            Restore
+                          </button>
+                        )}
+                        <button
+                          onClick={() => dismissConflict(conflict.id)}
+                          className="flex items-center gap-1 px-2 py-1 text-xs bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+                        >
+                          <Check className="w-3 h-3" />
+                          Keep
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={clearConflicts}
+              disabled={conflicts.length === 0}
+              className="flex-1 py-2.5 px-4 bg-slate-700 hover:bg-slate-600 rounded-xl font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Clear All
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 py-2.5 px-4 bg-gradient-to-r from-violet-600 to-cyan-600 hover:from-violet-500 hover:to-cyan-500 rounded-xl font-medium transition-all"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
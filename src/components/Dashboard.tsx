@@ -25,9 +25,9 @@ import {
   Zap,
 } from 'lucide-react';
 import { useHabits } from '../context/HabitContext';
+import { getAllIndexedEntries } from '../lib/entryIndex';
 import {
   calculateWeeklyStats,
-  calculateOverallStats,
   calculateStreakData,
   getWeekDates,
   formatDate,
@@ -36,6 +36,7 @@ import {
   getRemainingDaysInWeek,
   getWeekStart,
 } from '../lib/utils';
+import { calculateOverallStats } from '../lib/stats';
 import { subWeeks } from 'date-fns';
 import type { Habit } from '../types';
 
@@ -45,7 +46,8 @@ interface DashboardProps {
 }
 
 export function Dashboard({ onSelectHabit }: DashboardProps) {
-  const { habits, entries, allEntries, weekStart } = useHabits();
+  const { habits, entries, entryIndex, weekStart, journal } = useHabits();
+  const allEntries = getAllIndexedEntries(entryIndex);
 
   if (habits.length === 0) {
     return null;
@@ -58,7 +60,7 @@ export function Dashboard({ onSelectHabit }: DashboardProps) {
     streak: calculateStreakData(habit.id, allEntries, habit.weeklyGoal),
   }));
 
-  const overallStats = calculateOverallStats(habits, entries, weekStart);
+  const overallStats = calculateOverallStats(habits, entries, weekStart, journal);
   const remainingDays = getRemainingDaysInWeek(weekStart);
 
   // Prepare chart data
@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { X, Palmtree, Snowflake } from 'lucide-react';
+import { useHabits } from '../context/HabitContext';
+import { MOOD_OPTIONS, parseTags, isDateEditable } from '../lib/utils';
+import { getFreezeBalance, canFreezeDay } from '../lib/stats';
+import { getIndexedEntry } from '../lib/entryIndex';
+
+interface DayJournalModalProps {
+  date: string;
+  focusHabitId?: string; // Habit whose note field gets focus
+  onClose: () => void;
+}
+
+// Mood, tags and a note for the day, plus a note on each habit's entry.
+// Days can also be taken off (vacation or a streak freeze) or skipped per habit.
+export function DayJournalModal({ date, focusHabitId, onClose }: DayJournalModalProps) {
+  const { habits, archivedHabits, entryIndex, journal, isViewingFriend, editWindow, saveJournal, updateEntryNote, skipDay, loadEntriesFrom } = useHabits();
+  const existing = journal.find(j => j.date === date);
+  const getNote = (habitId: string) => getIndexedEntry(entryIndex, habitId, date)?.note ?? '';
+  const getSkipReason = (habitId: string) => getIndexedEntry(entryIndex, habitId, date)?.skipReason ?? '';
+  // Skips and entry notes follow the same edit window as values; the journal itself doesn't
+  const entriesEditable = isDateEditable(date, editWindow);
+  const freezes = getFreezeBalance([...habits, ...archivedHabits], entryIndex, journal);
+
+  // The freeze balance counts every perfect day so far
+  useEffect(() => {
+    loadEntriesFrom(null);
+  }, [loadEntriesFrom]);
+
+  const [mood, setMood] = useState<number | null>(existing?.mood ?? null);
+  const [tags, setTags] = useState((existing?.tags ?? []).map(t => `#${t}`).join(' '));
+  const [note, setNote] = useState(existing?.note ?? '');
+  const [entryNotes, setEntryNotes] = useState<Record<string, string>>(
+    () => Object.fromEntries(habits.map(h => [h.id, getNote(h.id)]))
+  );
+  const [vacation, setVacation] = useState(existing?.vacation ?? false);
+  const [frozen, setFrozen] = useState(existing?.frozen ?? false);
+  const [skipReasons, setSkipReasons] = useState<Record<string, string>>(
+    () => Object.fromEntries(habits.map(h => [h.id, getSkipReason(h.id)]))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  // A freeze already spent on this day can always be kept or taken back
+  const canFreeze = existing?.frozen || canFreezeDay([...habits, ...archivedHabits], entryIndex, journal, date);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const parsedTags = parseTags(tags);
+      // Skip writing an empty journal for a day that never had one
+      if (existing || mood !== null || parsedTags.length > 0 || note.trim() || vacation || frozen) {
+        await saveJournal(date, { mood, tags: parsedTags, note, vacation, frozen });
+      }
+      for (const habit of habits) {
+        if (entryNotes[habit.id].trim() !== getNote(habit.id)) {
+          await updateEntryNote(habit.id, date, entryNotes[habit.id]);
+        }
+        if (skipReasons[habit.id].trim() !== getSkipReason(habit.id)) {
+          await skipDay(habit.id, date, skipReasons[habit.id] || null);
+        }
+      }
+      onClose();
+    } catch (error) {
+      console.error('Failed to save journal:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="glass rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-700/50">
+          <h2 className="text-lg font-semibold">{format(parseISO(date), 'EEEE, MMM d')}</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <fieldset disabled={isViewingFriend} className="p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Mood</label>
+            <div className="grid grid-cols-5 gap-2">
+              {MOOD_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setMood(mood === option.value ? null : option.value)}
+                  className={`flex flex-col items-center gap-0.5 py-2 rounded-xl border transition-all ${
+                    mood === option.value
+                      ? 'border-violet-500 bg-violet-500/20'
+                      : 'border-slate-600 hover:border-slate-500'
+                  }`}
+                  title={option.label}
+                >
+                  <span className="text-xl">{option.emoji}</span>
+                  <span className="text-[10px] text-slate-400">{option.label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Tags</label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="#sick #travel"
+              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-sm focus:outline-none focus:border-violet-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Journal</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+              placeholder="How did the day go?"
+              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-sm focus:outline-none focus:border-violet-500 resize-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Day off</label>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={() => setVacation(!vacation)}
+                className={`flex items-center justify-center gap-2 py-2 rounded-xl border text-sm transition-all ${
+                  vacation
+                    ? 'border-cyan-500 bg-cyan-500/20 text-cyan-300'
+                    : 'border-slate-600 hover:border-slate-500'
+                }`}
+              >
+                <Palmtree className="w-4 h-4" />
+                Vacation
+              </button>
+              <button
+                type="button"
+                onClick={() => setFrozen(!frozen)}
+                disabled={!frozen && !canFreeze}
+                className={`flex items-center justify-center gap-2 py-2 rounded-xl border text-sm transition-all disabled:opacity-50 ${
+                  frozen
+                    ? 'border-sky-500 bg-sky-500/20 text-sky-300'
+                    : 'border-slate-600 hover:border-slate-500'
+                }`}
+              >
+                <Snowflake className="w-4 h-4" />
+                Streak freeze
+              </button>
+            </div>
+            <div className="text-xs text-slate-500 mt-2">
+              Days off don't count against streaks or completion rates.{' '}
+              {freezes.available} freeze{freezes.available !== 1 ? 's' : ''} available, earned from perfect days.
+            </div>
+          </div>
+
+          {habits.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Skip a habit</label>
+              <div className="space-y-2">
+                {habits.map((habit) => (
+                  <div key={habit.id} className="flex items-center gap-2">
+                    <span className="w-28 flex-shrink-0 text-xs truncate" style={{ color: habit.color }}>
+                      {habit.icon} {habit.name}
+                    </span>
+                    <input
+                      type="text"
+                      value={skipReasons[habit.id] ?? ''}
+                      onChange={(e) => setSkipReasons(prev => ({ ...prev, [habit.id]: e.target.value }))}
+                      placeholder="Reason to skip, e.g. sick"
+                      disabled={!entriesEditable}
+                      className="flex-1 min-w-0 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-xs focus:outline-none focus:border-violet-500 disabled:opacity-50"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {habits.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Habit notes</label>
+              <div className="space-y-2">
+                {habits.map((habit) => (
+                  <div key={habit.id} className="flex items-center gap-2">
+                    <span className="w-28 flex-shrink-0 text-xs truncate" style={{ color: habit.color }}>
+                      {habit.icon} {habit.name}
+                    </span>
+                    <input
+                      type="text"
+                      value={entryNotes[habit.id] ?? ''}
+                      onChange={(e) => setEntryNotes(prev => ({ ...prev, [habit.id]: e.target.value }))}
+                      autoFocus={habit.id === focusHabitId}
+                      placeholder="Note"
+                      disabled={!entriesEditable}
+                      className="flex-1 min-w-0 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-xs focus:outline-none focus:border-violet-500 disabled:opacity-50"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </fieldset>
+
+        {!isViewingFriend && (
+          <div className="flex justify-end gap-2 p-4 border-t border-slate-700/50">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-slate-300 hover:bg-slate-700 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium bg-violet-600 hover:bg-violet-500 disabled:opacity-50 rounded-lg transition-colors"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+}
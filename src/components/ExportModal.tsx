@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X, Download, FileJson, FileSpreadsheet, Table, CalendarDays, BookOpen } from 'lucide-react';
+import { useHabits } from '../context/HabitContext';
+import {
+  exportToJSON,
+  exportToCSV,
+  exportToWideCSV,
+  exportToICS,
+  exportToMarkdown,
+  downloadFile,
+  formatDate,
+} from '../lib/utils';
+import { getAllIndexedEntries } from '../lib/entryIndex';
+
+interface ExportModalProps {
+  onClose: () => void;
+}
+
+type ExportFormat = 'json' | 'csv' | 'wide-csv' | 'ics' | 'markdown';
+
+const EXPORT_FORMATS: {
+  id: ExportFormat;
+  label: string;
+  description: string;
+  icon: typeof FileJson;
+}[] = [
+  { id: 'json', label: 'JSON backup', description: 'Everything, can be imported again', icon: FileJson },
+  { id: 'csv', label: 'CSV', description: 'One row per habit per day', icon: FileSpreadsheet },
+  { id: 'wide-csv', label: 'Spreadsheet CSV', description: 'One row per day, one column per habit', icon: Table },
+  { id: 'ics', label: 'Calendar (ICS)', description: 'Completed days as all-day events', icon: CalendarDays },
+  { id: 'markdown', label: 'Markdown journal', description: 'Weekly pacing and daily log', icon: BookOpen },
+];
+
+export function ExportModal({ onClose }: ExportModalProps) {
+  const { habits: activeHabits, archivedHabits, entryIndex, journal, loadEntriesFrom } = useHabits();
+  const allEntries = getAllIndexedEntries(entryIndex);
+  const habits = useMemo(() => [...activeHabits, ...archivedHabits], [activeHabits, archivedHabits]);
+
+  useEffect(() => {
+    loadEntriesFrom(null);
+  }, [loadEntriesFrom]);
+  
+  const today = formatDate(new Date());
+  const firstEntryDate = useMemo(
+    () => allEntries.reduce((min, e) => (e.date < min ? e.date : min), today),
+    [allEntries, today]
+  );
+  
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [startDate, setStartDate] = useState(firstEntryDate);
+  const [endDate, setEndDate] = useState(today);
+  const [selectedHabitIds, setSelectedHabitIds] = useState<Set<string>>(
+    () => new Set(habits.map(h => h.id))
+  );
+
+  const selectedHabits = habits.filter(h => selectedHabitIds.has(h.id));
+  const selectedEntries = allEntries.filter(
+    e => selectedHabitIds.has(e.habitId) && e.date >= startDate && e.date <= endDate
+  );
+  const selectedJournal = journal.filter(j => j.date >= startDate && j.date <= endDate);
+  const isRangeValid = startDate !== '' && endDate !== '' && startDate <= endDate;
+
+  const toggleHabit = (habitId: string) => {
+    setSelectedHabitIds(prev => {
+      const next = new Set(prev);
+      if (next.has(habitId)) {
+        next.delete(habitId);
+      } else {
+        next.add(habitId);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    const stamp = today;
+    switch (exportFormat) {
+      case 'json':
+        downloadFile(exportToJSON(selectedHabits, selectedEntries, selectedJournal), `habits-export-${stamp}.json`, 'application/json');
+        break;
+      case 'csv':
+        downloadFile(exportToCSV(selectedHabits, selectedEntries), `habits-export-${stamp}.csv`, 'text/csv');
+        break;
+      case 'wide-csv':
+        downloadFile(
+          exportToWideCSV(selectedHabits, selectedEntries, startDate, endDate, selectedJournal),
+          `habits-by-day-${stamp}.csv`,
+          'text/csv'
+        );
+        break;
+      case 'ics':
+        downloadFile(exportToICS(selectedHabits, selectedEntries), `habits-${stamp}.ics`, 'text/calendar');
+        break;
+      case 'markdown': {
+        // Pacing needs whole weeks, so pass every entry for the chosen habits
+        const habitEntries = allEntries.filter(e => selectedHabitIds.has(e.habitId));
+        downloadFile(
+          exportToMarkdown(selectedHabits, habitEntries, startDate, endDate, selectedJournal),
+          `habit-journal-${stamp}.md`,
+          'text/markdown'
+        );
+        break;
+      }
+    }
+    onClose();
+  };
+
+  return (
+    <div 
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl w-full max-w-md max-h-[90vh] overflow-y-auto animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-700/50">
+          <h2 className="text-lg font-semibold">Export Data</h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Format */}
+          <div className="space-y-2">
+            {EXPORT_FORMATS.map(({ id, label, description, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => setExportFormat(id)}
+                className={`w-full flex items-center gap-3 p-3 rounded-xl border text-left transition-colors ${
+                  exportFormat === id
+                    ? 'border-violet-500 bg-violet-500/10'
+                    : 'border-slate-700 hover:bg-slate-800/50'
+                }`}
+              >
+                <Icon className="w-5 h-5 text-slate-400 shrink-0" />
+                <div>
+                  <div className="text-sm font-medium">{label}</div>
+                  <div className="text-xs text-slate-400">{description}</div>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Date Range */}
+          <div>
+            <div className="flex items-center justify-between mb-1.5">
+              <label className="text-sm font-medium">Date range</label>
+              <button
+                onClick={() => {
+                  setStartDate(firstEntryDate);
+                  setEndDate(today);
+                }}
+                className="text-xs text-violet-400 hover:text-violet-300"
+              >
+                All time
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={startDate}
+                max={endDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="flex-1 px-3 py-2 bg-slate-800 border border-slate-700 rounded-xl text-sm focus:outline-none focus:border-violet-500"
+              />
+              <span className="text-slate-500">–</span>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="flex-1 px-3 py-2 bg-slate-800 border border-slate-700 rounded-xl text-sm focus:outline-none focus:border-violet-500"
+              />
+            </div>
+          </div>
+
+          {/* Habits */}
+          <div>
+            <div className="flex items-center justify-between mb-1.5">
+              <label className="text-sm font-medium">Habits</label>
+              <button
+                onClick={() => setSelectedHabitIds(
+                  selectedHabitIds.size === habits.length ? new Set() : new Set(habits.map(h => h.id))
+                )}
+                className="text-xs text-violet-400 hover:text-violet-300"
+              >
+                {selectedHabitIds.size === habits.length ? 'Select none' : 'Select all'}
+              </button>
+            </div>
+            <div className="bg-slate-800/50 rounded-xl p-2 space-y-1 max-h-40 overflow-y-auto">
+              {habits.map(habit => (
+                <label key={habit.id} className="flex items-center gap-2 px-2 py-1 text-sm rounded-lg hover:bg-slate-700/50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedHabitIds.has(habit.id)}
+                    onChange={() => toggleHabit(habit.id)}
+                    className="rounded accent-violet-500"
+                  />
+                  <span className="truncate">{habit.icon} {habit.name}</span>
+                  {habit.archived && <span className="ml-auto text-[10px] text-slate-500">Archived</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="text-xs text-slate-400 text-center">
+            {selectedHabits.length} habit{selectedHabits.length !== 1 ? 's' : ''}, {selectedEntries.length} entr{selectedEntries.length !== 1 ? 'ies' : 'y'}
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="flex-1 py-2.5 px-4 bg-slate-700 hover:bg-slate-600 rounded-xl font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={selectedHabits.length === 0 || !isRangeValid}
+              className="flex-1 flex items-center justify-center gap-2 py-2.5 px-4 bg-gradient-to-r from-violet-600 to-cyan-600 hover:from-violet-500 hover:to-cyan-500 rounded-xl font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              Export
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
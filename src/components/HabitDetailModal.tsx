@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import {
   LineChart,
   Line,
@@ -9,7 +10,7 @@ import {
   AreaChart,
   Area,
 } from 'recharts';
-import { X, Flame, TrendingUp, Target, Calendar, Award } from 'lucide-react';
+import { X, Flame, TrendingUp, Target, Calendar, Award, StickyNote, History } from 'lucide-react';
 import { useHabits } from '../context/HabitContext';
 import {
   calculateWeeklyStats,
@@ -19,9 +20,17 @@ import {
   formatDisplayDate,
   getWeekStart,
   getStatusColor,
+  MOOD_OPTIONS,
 } from '../lib/utils';
-import { subWeeks, subDays, format } from 'date-fns';
-import type { Habit } from '../types';
+import { getIndexedEntry, getWeekTotal, getHabitEntries } from '../lib/entryIndex';
+import { subWeeks, subDays, format, parseISO } from 'date-fns';
+import type { Habit, EntryRevision } from '../types';
+
+const REVISION_CHANGE_LABELS: Record<NonNullable<EntryRevision['change']>, string> = {
+  note: 'Note changed',
+  skip: 'Skipped',
+  unskip: 'Skip removed',
+};
 
 interface HabitDetailModalProps {
   habit: Habit;
@@ -29,17 +38,23 @@ interface HabitDetailModalProps {
 }
 
 export function HabitDetailModal({ habit, onClose }: HabitDetailModalProps) {
-  const { entries, allEntries, weekStart } = useHabits();
+  const { entries, entryIndex, journal, weekStart, loadEntriesFrom } = useHabits();
+
+  // Streaks, notes and late edits cover the habit's whole history
+  useEffect(() => {
+    loadEntriesFrom(null);
+  }, [loadEntriesFrom]);
 
+  const habitEntries = getHabitEntries(entryIndex, habit.id);
   const currentStats = calculateWeeklyStats(habit, entries, weekStart);
-  const streakData = calculateStreakData(habit.id, allEntries, habit.weeklyGoal);
+  const streakData = calculateStreakData(habit.id, habitEntries, habit.weeklyGoal);
 
   // Get daily data for the last 30 days
   const last30Days = [];
   for (let i = 29; i >= 0; i--) {
     const date = subDays(new Date(), i);
     const dateStr = formatDate(date);
-    const entry = allEntries.find((e) => e.habitId === habit.id && e.date === dateStr);
+    const entry = getIndexedEntry(entryIndex, habit.id, dateStr);
     last30Days.push({
       date: format(date, 'MMM d'),
       value: entry?.value || 0,
@@ -52,15 +67,7 @@ export function HabitDetailModal({ habit, onClose }: HabitDetailModalProps) {
   for (let i = 11; i >= 0; i--) {
     const weekDate = subWeeks(new Date(), i);
     const weekStartDate = getWeekStart(weekDate);
-    const weekStartStr = formatDate(weekStartDate);
-    
-    const weekEntries = allEntries.filter((e) => {
-      if (e.habitId !== habit.id) return false;
-      const entryWeekStart = formatDate(getWeekStart(new Date(e.date)));
-      return entryWeekStart === weekStartStr;
-    });
-
-    const weekTotal = weekEntries.reduce((sum, e) => sum + e.value, 0);
+    const weekTotal = getWeekTotal(entryIndex, habit.id, formatDate(weekStartDate));
     const completion = Math.min(100, Math.round((weekTotal / habit.weeklyGoal) * 100));
 
     last12Weeks.push({
@@ -83,6 +90,28 @@ export function HabitDetailModal({ habit, onClose }: HabitDetailModalProps) {
     };
   });
 
+  // Notes on this habit's entries, newest first, with the day's mood
+  const notes = habitEntries
+    .filter((e) => e.note)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .map((e) => {
+      const mood = journal.find((j) => j.date === e.date)?.mood;
+      return { date: e.date, note: e.note!, mood: MOOD_OPTIONS.find((m) => m.value === mood) };
+    });
+
+  // Backfilled days and values changed after the day, newest first
+  const lateEdits = habitEntries
+    .filter((e) => e.loggedLate || e.history?.length)
+    .flatMap((e) => [
+      ...(e.loggedLate ? [{ date: e.date, changedAt: e.createdAt, text: 'Logged late' }] : []),
+      ...(e.history ?? []).map((r) => ({
+        date: e.date,
+        changedAt: r.changedAt,
+        text: r.change ? REVISION_CHANGE_LABELS[r.change] : `${r.before} → ${r.after} ${habit.unit}`,
+      })),
+    ])
+    .sort((a, b) => b.changedAt.localeCompare(a.changedAt));
+
   return (
     <div 
       className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4"
@@ -295,6 +324,50 @@ export function HabitDetailModal({ habit, onClose }: HabitDetailModalProps) {
             </div>
           </div>
 
+          {/* Notes */}
+          <div className="glass rounded-xl p-4 md:p-6">
+            <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <StickyNote className="w-5 h-5 text-amber-400" />
+              Notes
+            </h3>
+            {notes.length === 0 ? (
+              <p className="text-sm text-slate-500">No notes yet. Add one from a day in the tracker.</p>
+            ) : (
+              <ul className="space-y-2 max-h-64 overflow-y-auto">
+                {notes.map(({ date, note, mood }) => (
+                  <li key={date} className="flex items-baseline gap-3 text-sm">
+                    <span className="w-20 flex-shrink-0 text-xs text-slate-500">
+                      {format(parseISO(date), 'MMM d, yyyy')}
+                    </span>
+                    {mood && <span title={mood.label}>{mood.emoji}</span>}
+                    <span className="text-slate-300">{note}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Late edits */}
+          {lateEdits.length > 0 && (
+            <div className="glass rounded-xl p-4 md:p-6">
+              <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <History className="w-5 h-5 text-cyan-400" />
+                Late Edits
+              </h3>
+              <ul className="space-y-2 max-h-64 overflow-y-auto">
+                {lateEdits.map(({ date, changedAt, text }) => (
+                  <li key={`${date}_${changedAt}_${text}`} className="flex items-baseline gap-3 text-sm">
+                    <span className="w-20 flex-shrink-0 text-xs text-slate-500">
+                      {format(parseISO(date), 'MMM d, yyyy')}
+                    </span>
+                    <span className="text-slate-300">{text}</span>
+                    <span className="text-xs text-slate-500">on {format(parseISO(changedAt), 'MMM d, HH:mm')}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Achievements */}
           <div className="glass rounded-xl p-4 md:p-6">
             <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -305,7 +378,7 @@ export function HabitDetailModal({ habit, onClose }: HabitDetailModalProps) {
               <Achievement
                 icon="🎯"
                 title="First Entry"
-                unlocked={allEntries.some((e) => e.habitId === habit.id)}
+                unlocked={habitEntries.length > 0}
                 description="Made your first entry"
               />
               <Achievement
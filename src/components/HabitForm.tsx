@@ -1,8 +1,43 @@
 import React, { useState } from 'react';
-import { X, Smile, Trash2, Hash, CheckSquare } from 'lucide-react';
+import { X, Smile, Trash2, Archive, Hash, CheckSquare, Ban, Timer } from 'lucide-react';
 import { useHabits } from '../context/HabitContext';
-import { HABIT_COLORS, HABIT_ICONS } from '../lib/utils';
-import type { Habit, HabitType, HabitFormData } from '../types';
+import {
+  HABIT_COLORS,
+  HABIT_ICONS,
+  WEEKDAY_OPTIONS,
+  describeSchedule,
+  describeGoalPeriod,
+  getScheduledDaysPerWeek,
+  getScheduledDailyGoal,
+  DEFAULT_COMPLETION_THRESHOLD,
+  getUpdatedGoalHistory,
+  TRASH_RETENTION_DAYS,
+} from '../lib/utils';
+import { format, parseISO } from 'date-fns';
+import type { Habit, HabitType, HabitFormData, HabitSchedule, GoalPeriod } from '../types';
+
+const GOAL_PERIOD_TYPES: { type: GoalPeriod['type']; label: string }[] = [
+  { type: 'day', label: 'Day' },
+  { type: 'week', label: 'Week' },
+  { type: 'month', label: 'Month' },
+  { type: 'rolling', label: 'Rolling' },
+];
+
+const SCHEDULE_TYPES: { type: HabitSchedule['type']; label: string }[] = [
+  { type: 'daily', label: 'Every day' },
+  { type: 'weekdays', label: 'Specific days' },
+  { type: 'timesPerWeek', label: 'Times per week' },
+];
+
+function defaultGoalPeriod(type: GoalPeriod['type']): GoalPeriod {
+  return type === 'rolling' ? { type, days: 30 } : { type };
+}
+
+function defaultSchedule(type: HabitSchedule['type']): HabitSchedule {
+  if (type === 'weekdays') return { type, days: [1, 3, 5] };
+  if (type === 'timesPerWeek') return { type, times: 3 };
+  return { type };
+}
 
 interface HabitFormProps {
   habit?: Habit | null;
@@ -10,20 +45,28 @@ interface HabitFormProps {
 }
 
 export function HabitForm({ habit, onClose }: HabitFormProps) {
-  const { addHabit, editHabit, removeHabit } = useHabits();
+  const { addHabit, editHabit, removeHabit, archiveHabit } = useHabits();
   const isEditing = !!habit;
 
   const [formData, setFormData] = useState<HabitFormData>({
     name: habit?.name || '',
     type: habit?.type || 'binary',
     weeklyGoal: habit?.weeklyGoal || 7,
+    goalPeriod: habit?.goalPeriod || { type: 'week' },
+    schedule: habit?.schedule || { type: 'daily' },
     unit: habit?.unit || 'days',
+    quickAmount: habit?.quickAmount ?? 1,
+    completionThreshold: habit?.completionThreshold ?? DEFAULT_COMPLETION_THRESHOLD,
     color: habit?.color || HABIT_COLORS[0],
     icon: habit?.icon || HABIT_ICONS[0],
   });
 
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Past goals, plus the change this edit would make from today
+  const pendingGoalHistory = habit ? getUpdatedGoalHistory(habit, formData) : undefined;
+  const goalTimeline = [...(pendingGoalHistory ?? habit?.goalHistory ?? [])].reverse();
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
@@ -46,13 +89,49 @@ export function HabitForm({ habit, onClose }: HabitFormProps) {
     setFormData((prev) => ({
       ...prev,
       type,
-      unit: type === 'binary' ? 'days' : prev.unit === 'days' ? 'units' : prev.unit,
+      unit: type === 'binary'
+        ? 'days'
+        : type === 'duration'
+          ? 'minutes'
+          : prev.unit === 'days' || prev.type === 'duration' ? 'units' : prev.unit,
     }));
   };
 
+  // Yes/no habits are done once per scheduled day, so daily and weekly goals follow the schedule
+  const getBinaryGoal = (goalPeriod: GoalPeriod, schedule: HabitSchedule, current: number): number => {
+    if (goalPeriod.type === 'day') return 1;
+    if (goalPeriod.type === 'week') return getScheduledDaysPerWeek({ schedule });
+    return current;
+  };
+
+  const handleScheduleChange = (schedule: HabitSchedule) => {
+    setFormData((prev) => ({
+      ...prev,
+      schedule,
+      weeklyGoal: prev.type === 'binary' ? getBinaryGoal(prev.goalPeriod, schedule, prev.weeklyGoal) : prev.weeklyGoal,
+    }));
+  };
+
+  const handleGoalPeriodChange = (goalPeriod: GoalPeriod) => {
+    setFormData((prev) => ({
+      ...prev,
+      goalPeriod,
+      weeklyGoal: prev.type === 'binary' ? getBinaryGoal(goalPeriod, prev.schedule, prev.weeklyGoal) : prev.weeklyGoal,
+    }));
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (formData.schedule.type !== 'weekdays') return;
+    const { days } = formData.schedule;
+    handleScheduleChange({
+      type: 'weekdays',
+      days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b),
+    });
+  };
+
   const handleDelete = async () => {
     if (!habit) return;
-    if (confirm(`Delete "${habit.name}"? This will also delete all tracking data for this habit. This cannot be undone!`)) {
+    if (confirm(`Delete "${habit.name}"? It can be restored from the trash for ${TRASH_RETENTION_DAYS} days, after which its tracking data is deleted for good.\n\nTo keep its history in your stats, archive it instead.`)) {
       setIsSubmitting(true);
       try {
         await removeHabit(habit.id);
@@ -65,6 +144,19 @@ export function HabitForm({ habit, onClose }: HabitFormProps) {
     }
   };
 
+  const handleArchive = async () => {
+    if (!habit) return;
+    setIsSubmitting(true);
+    try {
+      await archiveHabit(habit.id);
+      onClose();
+    } catch (error) {
+      console.error('Failed to archive habit:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
       <div
@@ -137,14 +229,151 @@ export function HabitForm({ habit, onClose }: HabitFormProps) {
                 <div className="font-medium text-sm">Numeric</div>
                 <div className="text-xs text-slate-400">Track amounts</div>
               </button>
+              <button
+                type="button"
+                onClick={() => handleTypeChange('limit')}
+                className={`p-3 rounded-xl border-2 transition-all ${
+                  formData.type === 'limit'
+                    ? 'border-violet-500 bg-violet-500/20'
+                    : 'border-slate-600 hover:border-slate-500'
+                }`}
+              >
+                <div className="flex justify-center mb-1">
+                  <Ban className="w-6 h-6 text-rose-400" />
+                </div>
+                <div className="font-medium text-sm">Limit</div>
+                <div className="text-xs text-slate-400">Stay under a cap</div>
+              </button>
+              <button
+                type="button"
+                onClick={() => handleTypeChange('duration')}
+                className={`p-3 rounded-xl border-2 transition-all ${
+                  formData.type === 'duration'
+                    ? 'border-violet-500 bg-violet-500/20'
+                    : 'border-slate-600 hover:border-slate-500'
+                }`}
+              >
+                <div className="flex justify-center mb-1">
+                  <Timer className="w-6 h-6 text-amber-400" />
+                </div>
+                <div className="font-medium text-sm">Duration</div>
+                <div className="text-xs text-slate-400">Time it</div>
+              </button>
+            </div>
+          </div>
+
+          {/* Schedule */}
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1.5">
+              Schedule
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {SCHEDULE_TYPES.map(({ type, label }) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => handleScheduleChange(defaultSchedule(type))}
+                  className={`py-2 px-2 rounded-xl border-2 text-sm transition-all ${
+                    formData.schedule.type === type
+                      ? 'border-violet-500 bg-violet-500/20'
+                      : 'border-slate-600 hover:border-slate-500'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
+            {formData.schedule.type === 'weekdays' && (
+              <div className="grid grid-cols-7 gap-1 mt-2">
+                {WEEKDAY_OPTIONS.map(({ day, label }) => {
+                  const isSelected = formData.schedule.type === 'weekdays' && formData.schedule.days.includes(day);
+                  return (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => toggleWeekday(day)}
+                      className={`py-1.5 rounded-lg border text-xs font-medium transition-all ${
+                        isSelected
+                          ? 'border-violet-500 bg-violet-500/20 text-white'
+                          : 'border-slate-600 text-slate-400 hover:border-slate-500'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            {formData.schedule.type === 'timesPerWeek' && (
+              <div className="flex items-center gap-2 mt-2">
+                <input
+                  type="number"
+                  value={formData.schedule.times}
+                  onChange={(e) =>
+                    handleScheduleChange({
+                      type: 'timesPerWeek',
+                      times: Math.min(7, Math.max(1, parseInt(e.target.value) || 1)),
+                    })
+                  }
+                  min="1"
+                  max="7"
+                  className="w-20 px-3 py-2 bg-slate-800 border border-slate-600 rounded-xl focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 transition-colors"
+                />
+                <span className="text-sm text-slate-400">days a week, any days</span>
+              </div>
+            )}
+            <p className="text-xs text-slate-500 mt-2">
+              Days off the schedule are shown as rest days and never break a streak
+            </p>
+          </div>
+
+          {/* Goal Period */}
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1.5">
+              Goal Period
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {GOAL_PERIOD_TYPES.map(({ type, label }) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => handleGoalPeriodChange(defaultGoalPeriod(type))}
+                  className={`py-2 px-2 rounded-xl border-2 text-sm transition-all ${
+                    formData.goalPeriod.type === type
+                      ? 'border-violet-500 bg-violet-500/20'
+                      : 'border-slate-600 hover:border-slate-500'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {formData.goalPeriod.type === 'rolling' && (
+              <div className="flex items-center gap-2 mt-2">
+                <span className="text-sm text-slate-400">Last</span>
+                <input
+                  type="number"
+                  value={formData.goalPeriod.days}
+                  onChange={(e) =>
+                    handleGoalPeriodChange({
+                      type: 'rolling',
+                      days: Math.min(365, Math.max(1, parseInt(e.target.value) || 1)),
+                    })
+                  }
+                  min="1"
+                  max="365"
+                  className="w-20 px-3 py-2 bg-slate-800 border border-slate-600 rounded-xl focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 transition-colors"
+                />
+                <span className="text-sm text-slate-400">days, counted back from each day</span>
+              </div>
+            )}
           </div>
 
           {/* Goal & Unit */}
           <div className="grid grid-cols-2 gap-3">
             <div>
               <label className="block text-sm font-medium text-slate-300 mb-1.5">
-                Weekly Goal
+                {formData.type === 'limit' ? 'Limit' : 'Goal'} per {describeGoalPeriod(formData)}
               </label>
               <input
                 type="number"
@@ -156,14 +385,14 @@ export function HabitForm({ habit, onClose }: HabitFormProps) {
                   }))
                 }
                 min="1"
-                step={formData.type === 'numeric' ? '0.5' : '1'}
+                step={formData.type === 'binary' ? '1' : '0.5'}
                 className="w-full px-3 py-2.5 bg-slate-800 border border-slate-600 rounded-xl focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 transition-colors"
                 required
               />
-              {/* Per-day calculation for numeric habits */}
-              {formData.type === 'numeric' && formData.weeklyGoal > 0 && (
+              {/* Per-day calculation for everything but yes/no habits */}
+              {formData.type !== 'binary' && formData.goalPeriod.type !== 'day' && formData.weeklyGoal > 0 && (
                 <div className="mt-1.5 text-xs text-cyan-400 flex items-center gap-1">
-                  <span>≈ {Math.round((formData.weeklyGoal / 7) * 100) / 100}</span>
+                  <span>≈ {Math.round(getScheduledDailyGoal(formData) * 100) / 100}</span>
                   <span className="text-slate-500">{formData.unit}/day</span>
                 </div>
               )}
@@ -176,13 +405,68 @@ export function HabitForm({ habit, onClose }: HabitFormProps) {
                 type="text"
                 value={formData.unit}
                 onChange={(e) => setFormData((prev) => ({ ...prev, unit: e.target.value }))}
+                disabled={formData.type === 'duration'}
                 placeholder="e.g., liters, eggs"
-                className="w-full px-3 py-2.5 bg-slate-800 border border-slate-600 rounded-xl focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 transition-colors"
+                className="w-full px-3 py-2.5 bg-slate-800 border border-slate-600 rounded-xl focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 transition-colors disabled:opacity-50"
                 required
               />
             </div>
           </div>
 
+          {/* Quick add amount for habits logged in portions */}
+          {(formData.type === 'numeric' || formData.type === 'limit') && (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1.5">
+                Quick Add Amount
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  value={formData.quickAmount}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      quickAmount: parseFloat(e.target.value) || 0,
+                    }))
+                  }
+                  min="0.1"
+                  step="any"
+                  className="w-28 px-3 py-2.5 bg-slate-800 border border-slate-600 rounded-xl focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 transition-colors"
+                  required
+                />
+                <span className="text-sm text-slate-400">{formData.unit} per tap of the tracker's + button</span>
+              </div>
+            </div>
+          )}
+
+          {/* Share of the daily goal that counts as done; shorter days earn partial credit */}
+          {(formData.type === 'numeric' || formData.type === 'duration') && (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1.5">
+                Counts as Done At
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  value={Math.round(formData.completionThreshold * 100)}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      completionThreshold: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)) / 100,
+                    }))
+                  }
+                  min="1"
+                  max="100"
+                  className="w-20 px-3 py-2.5 bg-slate-800 border border-slate-600 rounded-xl focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 transition-colors"
+                  required
+                />
+                <span className="text-sm text-slate-400">
+                  % of the daily goal; less still earns partial credit
+                </span>
+              </div>
+            </div>
+          )}
+
           {/* Icon */}
           <div>
             <label className="block text-sm font-medium text-slate-300 mb-1.5">
@@ -269,15 +553,48 @@ export function HabitForm({ habit, onClose }: HabitFormProps) {
               <div>
                 <div className="font-medium">{formData.name || 'Habit name'}</div>
                 <div className="text-xs text-slate-400">
-                  {formData.weeklyGoal} {formData.unit}/week • {formData.type}
+                  {formData.type === 'limit' && 'max '}{formData.weeklyGoal} {formData.unit}/{describeGoalPeriod(formData)} • {describeSchedule(formData)} • {formData.type}
                 </div>
               </div>
             </div>
           </div>
 
-          {/* Delete Button (only when editing) */}
+          {/* Goal History (only once the goal has changed) */}
+          {goalTimeline.length > 1 && (
+            <div className="p-3 bg-slate-800/50 rounded-xl">
+              <div className="text-xs text-slate-400 mb-2">Goal History</div>
+              <ol className="space-y-1.5 border-l border-slate-600 pl-3">
+                {goalTimeline.map((version, index) => (
+                  <li key={version.effectiveFrom} className="text-xs">
+                    <span className="text-slate-500">
+                      {index === goalTimeline.length - 1 ? 'Created' : `From ${format(parseISO(version.effectiveFrom), 'MMM d, yyyy')}`}
+                      {index === 0 && pendingGoalHistory && ' (after saving)'}
+                    </span>
+                    <div className={index === 0 ? 'text-slate-200' : 'text-slate-400'}>
+                      {version.type === 'limit' && 'max '}{version.weeklyGoal} {version.unit}/{describeGoalPeriod(version)} • {describeSchedule(version)} • {version.type}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+              <div className="text-[10px] text-slate-500 mt-2">
+                Goal changes apply from the day they're made; earlier days keep the goal they had.
+              </div>
+            </div>
+          )}
+
+          {/* Archive/Delete Buttons (only when editing) */}
           {isEditing && (
-            <div className="pt-2 border-t border-slate-700/50">
+            <div className="flex gap-3 pt-2 border-t border-slate-700/50">
+              <button
+                type="button"
+                onClick={handleArchive}
+                disabled={isSubmitting}
+                className="w-full py-2.5 px-4 bg-slate-700/50 hover:bg-slate-700 text-slate-300 hover:text-white rounded-xl font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                title="Hide this habit but keep its history"
+              >
+                <Archive className="w-4 h-4" />
+                Archive
+              </button>
               <button
                 type="button"
                 onClick={handleDelete}
@@ -285,7 +602,7 @@ export function HabitForm({ habit, onClose }: HabitFormProps) {
                 className="w-full py-2.5 px-4 bg-red-600/10 hover:bg-red-600/20 text-red-400 hover:text-red-300 rounded-xl font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
               >
                 <Trash2 className="w-4 h-4" />
-                Delete Habit
+                Delete
               </button>
             </div>
           )}
@@ -301,7 +618,7 @@ export function HabitForm({ habit, onClose }: HabitFormProps) {
             </button>
             <button
               type="submit"
-              disabled={isSubmitting || !formData.name}
+              disabled={isSubmitting || !formData.name || getScheduledDaysPerWeek(formData) === 0}
               className="flex-1 py-2.5 px-4 bg-gradient-to-r from-violet-600 to-cyan-600 hover:from-violet-500 hover:to-cyan-500 rounded-xl font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Add Habit'}
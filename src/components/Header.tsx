@@ -1,4 +1,4 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   Download,
   Upload,
@@ -6,45 +6,64 @@ import {
   LogIn,
   LogOut,
   User,
+  CloudOff,
+  RefreshCw,
+  GitMerge,
+  Archive,
+  Settings,
 } from 'lucide-react';
 import { useHabits } from '../context/HabitContext';
 import { useAuth } from '../context/AuthContext';
-import { exportToJSON, exportToCSV, downloadFile, calculateOverallStreak, getStreakLevel } from '../lib/utils';
+import { getStreakLevel } from '../lib/utils';
+import { calculateOverallStreak } from '../lib/stats';
+import { OVERALL_STREAK_ID } from '../lib/bestStreaks';
 import { StreakIcon } from './StreakIcon';
 
 interface HeaderProps {
+  onExport: () => void;
   onImport: () => void;
+  onShowConflicts: () => void;
+  onShowArchived: () => void;
+  onShowSettings: () => void;
 }
 
-export function Header({ onImport }: HeaderProps) {
+export function Header({ onExport, onImport, onShowConflicts, onShowArchived, onShowSettings }: HeaderProps) {
   const {
     habits,
-    allEntries,
+    archivedHabits,
+    trashedHabits,
+    entryIndex,
+    journal,
     isViewingFriend,
+    isUsingLocalStorage,
+    pendingSyncCount,
+    isOnline,
+    conflicts,
+    loadEntriesFrom,
+    getBestStreak,
+    recordBestStreaks,
   } = useHabits();
   
   const { user, isAuthenticated, isFirebaseEnabled, signInWithGoogle, logout } = useAuth();
   const [showUserMenu, setShowUserMenu] = useState(false);
 
-  // Calculate overall streak (weekly-based)
+  // Calculate overall streak (weekly-based); archived habits still count before their archive date
   const overallStreak = useMemo(() => {
-    return calculateOverallStreak(habits, allEntries);
-  }, [habits, allEntries]);
+    return calculateOverallStreak([...habits, ...archivedHabits], entryIndex, journal);
+  }, [habits, archivedHabits, entryIndex, journal]);
+  const maxStreak = getBestStreak(OVERALL_STREAK_ID, overallStreak.maxStreak);
 
-  const streakLevel = getStreakLevel(overallStreak.currentStreak);
-  const currentStreak = overallStreak.currentStreak;
+  // Only a streak running back past the loaded weeks needs older history
+  useEffect(() => {
+    if (overallStreak.reachesFirstEntry) loadEntriesFrom(null);
+  }, [overallStreak.reachesFirstEntry, loadEntriesFrom]);
 
-  const handleExportJSON = () => {
-    const json = exportToJSON(habits, allEntries);
-    const filename = `habits-export-${new Date().toISOString().split('T')[0]}.json`;
-    downloadFile(json, filename, 'application/json');
-  };
+  useEffect(() => {
+    recordBestStreaks({ [OVERALL_STREAK_ID]: overallStreak.maxStreak });
+  }, [overallStreak.maxStreak, recordBestStreaks]);
 
-  const handleExportCSV = () => {
-    const csv = exportToCSV(habits, allEntries);
-    const filename = `habits-export-${new Date().toISOString().split('T')[0]}.csv`;
-    downloadFile(csv, filename, 'text/csv');
-  };
+  const streakLevel = getStreakLevel(overallStreak.currentStreak);
+  const currentStreak = overallStreak.currentStreak;
 
   // Get streak badge styling based on current week's overall status
   const getStreakBadgeClass = () => {
@@ -102,42 +121,73 @@ export function Header({ onImport }: HeaderProps) {
             </div>
             
             {/* Best Streak - Separate */}
-            {overallStreak.maxStreak > 0 && (
+            {maxStreak > 0 && (
               <div 
                 className="flex items-center gap-1 px-2 py-1 rounded-lg bg-slate-700/50 border border-amber-500/30"
-                title={`Best streak: ${overallStreak.maxStreak} days`}
+                title={`Best streak: ${maxStreak} days`}
               >
                 <Trophy className="w-3.5 h-3.5 text-amber-400" />
-                <span className="text-xs font-medium text-amber-400">{overallStreak.maxStreak}</span>
+                <span className="text-xs font-medium text-amber-400">{maxStreak}</span>
               </div>
             )}
           </div>
 
           {/* Actions */}
           <div className="flex items-center gap-1 sm:gap-2">
+            {/* Pending Sync Indicator (cloud mode only) */}
+            {!isUsingLocalStorage && !isViewingFriend && (pendingSyncCount > 0 || !isOnline) && (
+              <div
+                className="flex items-center gap-1.5 px-2 py-1 rounded-lg bg-amber-500/20 border border-amber-500/30 text-amber-300 text-xs font-medium"
+                title={isOnline
+                  ? `Syncing ${pendingSyncCount} change${pendingSyncCount !== 1 ? 's' : ''}...`
+                  : `Offline - ${pendingSyncCount} change${pendingSyncCount !== 1 ? 's' : ''} will sync when you reconnect`}
+              >
+                {isOnline ? (
+                  <RefreshCw className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <CloudOff className="w-3.5 h-3.5" />
+                )}
+                {pendingSyncCount > 0 && <span>{pendingSyncCount}</span>}
+                <span className="hidden md:inline">{isOnline ? 'Syncing' : 'Pending sync'}</span>
+              </div>
+            )}
+
+            {/* Conflicts waiting for review */}
+            {!isViewingFriend && conflicts.length > 0 && (
+              <button
+                onClick={onShowConflicts}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-lg bg-violet-500/20 border border-violet-500/30 text-violet-300 text-xs font-medium hover:bg-violet-500/30 transition-colors"
+                title={`${conflicts.length} conflicting edit${conflicts.length !== 1 ? 's' : ''} to review`}
+              >
+                <GitMerge className="w-3.5 h-3.5" />
+                <span>{conflicts.length}</span>
+                <span className="hidden md:inline">Conflicts</span>
+              </button>
+            )}
+
+            {/* Archived and deleted habits */}
+            {!isViewingFriend && (archivedHabits.length > 0 || trashedHabits.length > 0) && (
+              <button
+                onClick={onShowArchived}
+                className="p-1.5 sm:p-2 hover:bg-slate-700 rounded-lg transition-colors flex items-center gap-1.5 text-sm"
+                title={`${archivedHabits.length} archived, ${trashedHabits.length} in the trash`}
+              >
+                <Archive className="w-4 h-4" />
+                <span className="hidden md:inline">Archived</span>
+              </button>
+            )}
+
             {/* Export/Import only when not viewing friend */}
             {!isViewingFriend && (
               <>
-                <div className="relative group">
-                  <button className="p-1.5 sm:p-2 hover:bg-slate-700 rounded-lg transition-colors flex items-center gap-1.5 text-sm">
-                    <Download className="w-4 h-4" />
-                    <span className="hidden md:inline">Export</span>
-                  </button>
-                  <div className="absolute right-0 top-full mt-1 bg-slate-800 rounded-lg shadow-xl border border-slate-700 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all z-50 min-w-[140px]">
-                    <button
-                      onClick={handleExportJSON}
-                      className="block w-full px-4 py-2 text-left text-sm hover:bg-slate-700 rounded-t-lg whitespace-nowrap"
-                    >
-                      Export as JSON
-                    </button>
-                    <button
-                      onClick={handleExportCSV}
-                      className="block w-full px-4 py-2 text-left text-sm hover:bg-slate-700 rounded-b-lg whitespace-nowrap"
-                    >
-                      Export as CSV
-                    </button>
-                  </div>
-                </div>
+                <button
+                  onClick={onExport}
+                  className="p-1.5 sm:p-2 hover:bg-slate-700 rounded-lg transition-colors flex items-center gap-1.5 text-sm"
+                  title="Export data"
+                >
+                  <Download className="w-4 h-4" />
+                  <span className="hidden md:inline">Export</span>
+                </button>
                 
                 <button
                   onClick={onImport}
@@ -147,6 +197,14 @@ export function Header({ onImport }: HeaderProps) {
                   <Upload className="w-4 h-4" />
                   <span className="hidden md:inline">Import</span>
                 </button>
+
+                <button
+                  onClick={onShowSettings}
+                  className="p-1.5 sm:p-2 hover:bg-slate-700 rounded-lg transition-colors flex items-center gap-1.5 text-sm"
+                  title="Settings"
+                >
+                  <Settings className="w-4 h-4" />
+                </button>
               </>
             )}
             
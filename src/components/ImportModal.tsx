@@ -1,43 +1,160 @@
-import React, { useState, useRef } from 'react';
-import { X, Upload, FileText, AlertCircle, CheckCircle } from 'lucide-react';
+import React, { useState } from 'react';
+import { X, Upload, FileText, AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
 import { useHabits } from '../context/HabitContext';
+import {
+  IMPORT_FORMATS,
+  DATE_FORMATS,
+  REQUIRED_COLUMNS,
+  detectImportFormat,
+  getCSVHeader,
+  guessColumnMapping,
+  guessDateFormat,
+  guessLoopHabitTypes,
+  toImportJSON,
+  type ColumnMapping,
+  type ImportFormat,
+  type LoopHabitTypes,
+  type MappedColumn,
+} from '../lib/importAdapters';
+import type { ImportCounts, ImportPreview } from '../types';
+
+// Issues beyond this are summarised to keep the list readable
+const MAX_LISTED_ISSUES = 50;
+
+const COLUMN_LABELS: Record<MappedColumn, string> = {
+  date: 'Date',
+  habit: 'Habit',
+  value: 'Value',
+  type: 'Type',
+  goal: 'Goal',
+  goalPeriod: 'Goal period',
+  periodLength: 'Period length',
+  schedule: 'Schedule',
+  unit: 'Unit',
+};
+
+function CountsRow({ label, counts }: { label: string; counts: ImportCounts }) {
+  return (
+    <tr className="border-t border-slate-700/50">
+      <td className="py-1.5 font-medium">{label}</td>
+      <td className="py-1.5 text-center text-emerald-400">{counts.added}</td>
+      <td className="py-1.5 text-center text-amber-400">{counts.overwritten}</td>
+      <td className="py-1.5 text-center text-slate-400">{counts.unchanged + counts.skipped}</td>
+      <td className="py-1.5 text-center text-red-400">{counts.invalid}</td>
+    </tr>
+  );
+}
 
 interface ImportModalProps {
   onClose: () => void;
 }
 
 export function ImportModal({ onClose }: ImportModalProps) {
-  const { importFromJSON } = useHabits();
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { getAllHabits, previewImport, importFromJSON } = useHabits();
   const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState('');
-  const [jsonPreview, setJsonPreview] = useState('');
-
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const [rawText, setRawText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<ImportFormat | null>(null);
+  const [csvHeader, setCsvHeader] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  // Guessed for Loop files, or read from Habits.csv, and open to correction
+  const [loopTypes, setLoopTypes] = useState<LoopHabitTypes | null>(null);
+  // The file converted to a JSON backup, ready for importFromJSON
+  const [fileText, setFileText] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
 
+  const runPreview = async (
+    text: string,
+    fileFormat: ImportFormat,
+    columns: ColumnMapping | null,
+    habitTypes: LoopHabitTypes | null
+  ) => {
+    setFileText('');
+    setPreview(null);
+    
     try {
-      const text = await file.text();
-      setJsonPreview(text.slice(0, 500) + (text.length > 500 ? '...' : ''));
-      
-      // Validate JSON structure
-      const data = JSON.parse(text);
-      if (!data.habits || !data.entries) {
-        throw new Error('Invalid file format. Expected habits and entries.');
+      // Other formats are converted to a backup so they get the same checks as JSON
+      const json = toImportJSON(fileFormat, text, await getAllHabits(), columns ?? undefined, habitTypes ?? undefined);
+      // Dry run: validate every record and compare with what is already stored
+      const result = await previewImport(json);
+      const fileIssue = result.issues.find(issue => issue.record === 'file');
+      if (fileIssue) {
+        throw new Error(fileIssue.message);
       }
       
+      setFileText(json);
+      setPreview(result);
       setStatus('idle');
       setErrorMessage('');
     } catch (err) {
       setStatus('error');
-      setErrorMessage(err instanceof Error ? err.message : 'Failed to parse file');
-      setJsonPreview('');
+      setErrorMessage(err instanceof SyntaxError
+        ? 'File is not valid JSON'
+        : err instanceof Error ? err.message : 'Failed to parse file');
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    const detected = detectImportFormat(text);
+    const columns = detected === 'long-csv' ? guessColumnMapping(text) : null;
+    const habitTypes = detected === 'loop-csv' ? guessLoopHabitTypes(text) : null;
+    
+    setRawText(text);
+    setFileName(file.name);
+    setFormat(detected);
+    setCsvHeader(detected === 'long-csv' ? getCSVHeader(text) : []);
+    setMapping(columns);
+    setLoopTypes(habitTypes);
+    await runPreview(text, detected, columns, habitTypes);
+  };
+
+  const handleFormatChange = async (newFormat: ImportFormat) => {
+    const columns = newFormat === 'long-csv' ? guessColumnMapping(rawText) : null;
+    const habitTypes = newFormat === 'loop-csv' ? guessLoopHabitTypes(rawText) : null;
+    setFormat(newFormat);
+    setCsvHeader(newFormat === 'long-csv' ? getCSVHeader(rawText) : []);
+    setMapping(columns);
+    setLoopTypes(habitTypes);
+    await runPreview(rawText, newFormat, columns, habitTypes);
+  };
+
+  // Loop's Habits.csv, from the same export, says which habits are yes/no
+  const handleLoopHabitsSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !format) return;
+
+    const habitTypes = guessLoopHabitTypes(rawText, await file.text());
+    setLoopTypes(habitTypes);
+    await runPreview(rawText, format, null, habitTypes);
+  };
+
+  const handleLoopTypeChange = async (name: string, type: LoopHabitTypes[string]) => {
+    if (!loopTypes || !format) return;
+    const habitTypes = { ...loopTypes, [name]: type };
+    setLoopTypes(habitTypes);
+    await runPreview(rawText, format, null, habitTypes);
+  };
+
+  const handleMappingChange = async (changes: Partial<ColumnMapping>) => {
+    if (!mapping || !format) return;
+    const columns = { ...mapping, ...changes };
+    if (changes.date !== undefined && changes.date !== -1) {
+      columns.dateFormat = guessDateFormat(rawText, changes.date);
     }
+    setMapping(columns);
+    await runPreview(rawText, format, columns, null);
   };
 
+  const validRecordCount = preview ? preview.habits.length + preview.entries.length : 0;
+  const hasIssues = (preview?.issues.length ?? 0) > 0;
+
   const handleImport = async () => {
-    if (!fileInputRef.current?.files?.[0]) {
+    if (!fileText || !preview) {
       setStatus('error');
       setErrorMessage('Please select a file first');
       return;
@@ -46,8 +163,7 @@ export function ImportModal({ onClose }: ImportModalProps) {
     setStatus('loading');
     
     try {
-      const text = await fileInputRef.current.files[0].text();
-      await importFromJSON(text);
+      await importFromJSON(fileText, { validOnly: hasIssues });
       setStatus('success');
       setTimeout(() => onClose(), 1500);
     } catch (err) {
@@ -62,7 +178,7 @@ export function ImportModal({ onClose }: ImportModalProps) {
       onClick={onClose}
     >
       <div
-        className="glass rounded-2xl w-full max-w-md animate-slide-up"
+        className="glass rounded-2xl w-full max-w-md max-h-[90vh] overflow-y-auto animate-slide-up"
         onClick={(e) => e.stopPropagation()}
       >
         {/* Header */}
@@ -85,30 +201,158 @@ export function ImportModal({ onClose }: ImportModalProps) {
             >
               <Upload className="w-10 h-10 text-slate-400" />
               <div className="text-center">
-                <div className="font-medium">Select JSON file</div>
-                <div className="text-sm text-slate-400">or drag and drop</div>
+                <div className="font-medium">{fileName || 'Select a file'}</div>
+                <div className="text-sm text-slate-400">JSON or CSV, from Habit Diary or another tracker</div>
               </div>
             </label>
             <input
               id="file-input"
-              ref={fileInputRef}
               type="file"
-              accept=".json"
+              accept=".json,.csv"
               onChange={handleFileSelect}
               className="hidden"
             />
           </div>
 
+          {/* Format */}
+          {format && (
+            <div>
+              <label className="block text-sm font-medium mb-1.5">Format</label>
+              <select
+                value={format}
+                onChange={(e) => handleFormatChange(e.target.value as ImportFormat)}
+                className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-xl text-sm focus:outline-none focus:border-violet-500"
+              >
+                {(Object.keys(IMPORT_FORMATS) as ImportFormat[]).map(id => (
+                  <option key={id} value={id}>{IMPORT_FORMATS[id].label}</option>
+                ))}
+              </select>
+              <div className="mt-1 text-xs text-slate-500">{IMPORT_FORMATS[format].description}</div>
+            </div>
+          )}
+
+          {/* Column Mapping */}
+          {format === 'long-csv' && mapping && (
+            <div className="bg-slate-800/50 rounded-xl p-3">
+              <div className="text-sm font-medium mb-2">Columns</div>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(COLUMN_LABELS) as MappedColumn[]).map(column => (
+                  <label key={column} className="text-xs text-slate-400">
+                    {COLUMN_LABELS[column]}{REQUIRED_COLUMNS.includes(column) ? ' *' : ''}
+                    <select
+                      value={mapping[column]}
+                      onChange={(e) => handleMappingChange({ [column]: Number(e.target.value) })}
+                      className="mt-1 w-full px-2 py-1.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-violet-500"
+                    >
+                      <option value={-1}>{REQUIRED_COLUMNS.includes(column) ? 'Choose...' : 'Not in file'}</option>
+                      {csvHeader.map((name, index) => (
+                        <option key={index} value={index}>{name || `Column ${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+                <label className="text-xs text-slate-400">
+                  Date format
+                  <select
+                    value={mapping.dateFormat}
+                    onChange={(e) => handleMappingChange({ dateFormat: e.target.value })}
+                    className="mt-1 w-full px-2 py-1.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-violet-500"
+                  >
+                    {DATE_FORMATS.map(dateFormat => (
+                      <option key={dateFormat} value={dateFormat}>{dateFormat}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+          )}
+
+          {/* Loop Habit Types */}
+          {format === 'loop-csv' && loopTypes && (
+            <div className="bg-slate-800/50 rounded-xl p-3">
+              <div className="text-sm font-medium mb-2">Habit types</div>
+              <div className="space-y-2">
+                {Object.entries(loopTypes).map(([name, type]) => (
+                  <label key={name} className="flex items-center gap-2 text-xs text-slate-400">
+                    <span className="flex-1 min-w-0 truncate">{name}</span>
+                    <select
+                      value={type}
+                      onChange={(e) => handleLoopTypeChange(name, e.target.value as LoopHabitTypes[string])}
+                      className="px-2 py-1.5 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-violet-500"
+                    >
+                      <option value="binary">Checkbox</option>
+                      <option value="numeric">Numeric</option>
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <label className="block mt-3 text-xs text-slate-500">
+                Guessed from the checkmarks. Add Habits.csv from the same Loop export to use its types.
+                <input
+                  type="file"
+                  accept=".csv"
+                  onChange={handleLoopHabitsSelect}
+                  className="mt-1 block w-full text-xs text-slate-300 file:mr-2 file:px-2 file:py-1 file:rounded-lg file:border-0 file:bg-slate-700 file:text-slate-200"
+                />
+              </label>
+            </div>
+          )}
+
           {/* Preview */}
-          {jsonPreview && (
+          {preview && (
             <div className="bg-slate-800/50 rounded-xl p-3">
               <div className="flex items-center gap-2 mb-2">
                 <FileText className="w-4 h-4 text-slate-400" />
-                <span className="text-sm font-medium">File Preview</span>
+                <span className="text-sm font-medium truncate">{fileName}</span>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-slate-400">
+                    <th className="pb-1 text-left font-normal"></th>
+                    <th className="pb-1 font-normal">New</th>
+                    <th className="pb-1 font-normal">Overwrite</th>
+                    <th className="pb-1 font-normal">Skip</th>
+                    <th className="pb-1 font-normal">Invalid</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <CountsRow label="Habits" counts={preview.habitCounts} />
+                  <CountsRow label="Entries" counts={preview.entryCounts} />
+                </tbody>
+              </table>
+              {preview.entryCounts.skipped > 0 && (
+                <div className="mt-2 text-xs text-slate-400">
+                  {preview.entryCounts.skipped} entr{preview.entryCounts.skipped === 1 ? 'y is' : 'ies are'} older than what is already stored and will be skipped.
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Validation Issues */}
+          {preview && hasIssues && (
+            <div className="p-3 bg-amber-500/10 border border-amber-500/40 rounded-xl">
+              <div className="flex items-center gap-2 mb-2 text-amber-400">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <span className="text-sm font-medium">
+                  {preview.issues.length} invalid record{preview.issues.length !== 1 ? 's' : ''} will not be imported
+                </span>
               </div>
-              <pre className="text-xs text-slate-400 overflow-x-auto max-h-32">
-                {jsonPreview}
-              </pre>
+              <ul className="text-xs text-slate-300 space-y-1 max-h-32 overflow-y-auto">
+                {preview.issues.slice(0, MAX_LISTED_ISSUES).map(issue => (
+                  <li key={`${issue.record}-${issue.index}`}>
+                    <span className="text-slate-400">
+                      {issue.record === 'habit' ? 'Habit' : issue.record === 'journal' ? 'Journal day' : 'Entry'} #{issue.index + 1}
+                      {issue.id ? ` (${issue.id})` : ''}:
+                    </span>{' '}
+                    {issue.message}
+                  </li>
+                ))}
+                {preview.issues.length > MAX_LISTED_ISSUES && (
+                  <li className="text-slate-500">
+                    ...and {preview.issues.length - MAX_LISTED_ISSUES} more
+                  </li>
+                )}
+              </ul>
             </div>
           )}
 
@@ -137,16 +381,17 @@ export function ImportModal({ onClose }: ImportModalProps) {
             </button>
             <button
               onClick={handleImport}
-              disabled={status === 'loading' || status === 'success' || !jsonPreview}
+              disabled={status === 'loading' || status === 'success' || validRecordCount === 0}
               className="flex-1 py-2.5 px-4 bg-gradient-to-r from-violet-600 to-cyan-600 hover:from-violet-500 hover:to-cyan-500 rounded-xl font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {status === 'loading' ? 'Importing...' : 'Import'}
+              {status === 'loading' ? 'Importing...' : hasIssues ? 'Import Valid Records' : 'Import'}
             </button>
           </div>
 
           {/* Help */}
           <div className="text-xs text-slate-500 text-center">
-            Import a previously exported JSON file to restore your habits and entries.
+            Import a Habit Diary backup, or history from Loop, Habitica or a spreadsheet.
+            Rows are matched to habits by name; missing habits are created.
           </div>
         </div>
       </div>
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { X, CloudUpload, AlertCircle, CheckCircle } from 'lucide-react';
+import { useHabits } from '../context/HabitContext';
+
+export function LocalMigrationModal() {
+  const { habits, localDataToMigrate, migrateLocalData, dismissLocalMigration } = useHabits();
+  const [keepLocalCopy, setKeepLocalCopy] = useState(true);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  if (!localDataToMigrate) return null;
+
+  const cloudHabitIds = new Set(habits.map(h => h.id));
+  const newHabitCount = localDataToMigrate.habits.filter(h => !cloudHabitIds.has(h.id)).length;
+  const mergedHabitCount = localDataToMigrate.habits.length - newHabitCount;
+
+  const handleUpload = async () => {
+    setStatus('loading');
+    
+    try {
+      await migrateLocalData(keepLocalCopy);
+      setStatus('success');
+    } catch (err) {
+      setStatus('error');
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to upload local data');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="glass rounded-2xl w-full max-w-md animate-slide-up">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-700/50">
+          <h2 className="text-lg font-semibold">Upload Local Data</h2>
+          <button
+            onClick={dismissLocalMigration}
+            disabled={status === 'loading'}
+            className="p-1.5 hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="flex items-start gap-3">
+            <CloudUpload className="w-8 h-8 text-violet-400 shrink-0" />
+            <p className="text-sm text-slate-300">
+              This device has habits that were tracked without an account.
+              Upload them to your account to keep them in sync?
+            </p>
+          </div>
+
+          {/* Summary */}
+          <div className="bg-slate-800/50 rounded-xl p-3 space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-400">Habits</span>
+              <span className="font-medium">{localDataToMigrate.habits.length}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-400">Entries</span>
+              <span className="font-medium">{localDataToMigrate.entries.length}</span>
+            </div>
+            <ul className="pt-2 border-t border-slate-700/50 space-y-1 max-h-40 overflow-y-auto">
+              {localDataToMigrate.habits.map(habit => (
+                <li key={habit.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">
+                    {habit.icon} {habit.name}
+                  </span>
+                  <span className={`text-xs shrink-0 ${cloudHabitIds.has(habit.id) ? 'text-amber-400' : 'text-emerald-400'}`}>
+                    {cloudHabitIds.has(habit.id) ? 'Merges with existing' : 'New'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {mergedHabitCount > 0 && (
+            <div className="text-xs text-slate-400">
+              {mergedHabitCount} habit{mergedHabitCount === 1 ? '' : 's'} already exist in your account.
+              Local entries for the same day will replace the ones in the cloud.
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={keepLocalCopy}
+              onChange={(e) => setKeepLocalCopy(e.target.checked)}
+              className="rounded accent-violet-500"
+            />
+            Keep a copy on this device
+          </label>
+
+          {/* Status Messages */}
+          {status === 'error' && (
+            <div className="flex items-center gap-2 p-3 bg-red-500/20 border border-red-500/50 rounded-xl text-red-400">
+              <AlertCircle className="w-5 h-5 shrink-0" />
+              <span className="text-sm">{errorMessage}</span>
+            </div>
+          )}
+
+          {status === 'success' && (
+            <div className="flex items-center gap-2 p-3 bg-emerald-500/20 border border-emerald-500/50 rounded-xl text-emerald-400">
+              <CheckCircle className="w-5 h-5 shrink-0" />
+              <span className="text-sm">Local data uploaded!</span>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={dismissLocalMigration}
+              disabled={status === 'loading'}
+              className="flex-1 py-2.5 px-4 bg-slate-700 hover:bg-slate-600 rounded-xl font-medium transition-colors disabled:opacity-50"
+            >
+              Skip
+            </button>
+            <button
+              onClick={handleUpload}
+              disabled={status === 'loading'}
+              className="flex-1 py-2.5 px-4 bg-gradient-to-r from-violet-600 to-cyan-600 hover:from-violet-500 hover:to-cyan-500 rounded-xl font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {status === 'loading' ? 'Uploading...' : 'Upload'}
+            </button>
+          </div>
+
+          {/* Help */}
+          <div className="text-xs text-slate-500 text-center">
+            Skipping won't delete anything. You can still move data later with Export and Import.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import {
   PieChart,
   Pie,
@@ -26,18 +26,19 @@ import { useHabits } from '../context/HabitContext';
 import {
   formatDate,
   calculateHabitStreak,
-  calculateOverallStreak,
   getStreakLevel,
-  getEffectiveDailyGoal,
-  isEntryComplete,
+  calculatePeriodStats,
+  getStreakUnit,
+  describeGoalPeriod,
+  isHabitActiveOn,
 } from '../lib/utils';
+import { createStatsEngine, calculateOverallStreak, getStatsHistoryStart, type StatsEngine } from '../lib/stats';
+import { getHabitEntries, type EntryIndex } from '../lib/entryIndex';
 import { StreakIcon } from './StreakIcon';
 import { 
   format, 
   eachDayOfInterval,
   differenceInDays,
-  isWithinInterval,
-  parseISO,
   subDays,
   subWeeks,
   subYears,
@@ -53,6 +54,7 @@ import {
   isAfter,
 } from 'date-fns';
 import { DateRangePicker } from './DateRangePicker';
+import type { Habit, DayJournal, PacingStatus } from '../types';
 
 interface DateRange {
   from: Date;
@@ -73,8 +75,16 @@ const PRESET_RANGES: { label: string; getValue: () => { from: Date; to: Date } }
   { label: 'Last Year', getValue: () => ({ from: subYears(new Date(), 1), to: new Date() }) },
 ];
 
+function getPeriodStatusColor(status: PacingStatus): string {
+  if (status === 'behind') return '#ef4444';
+  if (status === 'warning') return '#f59e0b';
+  return '#10b981';
+}
+
 export function MainDashboard() {
-  const { habits, allEntries } = useHabits();
+  const { habits: activeHabits, archivedHabits, entryIndex, journal, loadEntriesFrom } = useHabits();
+  // Archived habits keep their history up to the day they were archived
+  const habits = useMemo(() => [...activeHabits, ...archivedHabits], [activeHabits, archivedHabits]);
   
   // Date range state
   const [dateRange, setDateRange] = useState<DateRange>(() => {
@@ -86,177 +96,54 @@ export function MainDashboard() {
   const [showHabitDropdown, setShowHabitDropdown] = useState(false);
 
   // Filter habits based on selection
-  const filteredHabits = selectedHabitId === 'all' 
+  const filteredHabits = useMemo(() => selectedHabitId === 'all' 
     ? habits 
-    : habits.filter(h => h.id === selectedHabitId);
+    : habits.filter(h => h.id === selectedHabitId), [habits, selectedHabitId]);
 
   const selectedHabit = habits.find(h => h.id === selectedHabitId);
 
+  // Ranges reaching past the recent weeks need older entries
+  useEffect(() => {
+    loadEntriesFrom(formatDate(getStatsHistoryStart(filteredHabits, dateRange.from)));
+  }, [filteredHabits, dateRange.from, loadEntriesFrom]);
+
+  // Completion and perfect days, defined the same way as on the Reports tab
+  const stats = useMemo(
+    () => createStatsEngine(filteredHabits, entryIndex, journal),
+    [filteredHabits, entryIndex, journal]
+  );
+
   // Calculate stats for the selected date range
   const rangeStats = useMemo(() => {
     const daysInRange = differenceInDays(dateRange.to, dateRange.from) + 1;
     const weeksInRange = Math.ceil(daysInRange / 7);
-    const daysInInterval = eachDayOfInterval({ start: dateRange.from, end: dateRange.to });
-    
-    // Get entries within the date range
-    const rangeEntries = allEntries.filter(entry => {
-      const entryDate = parseISO(entry.date);
-      return isWithinInterval(entryDate, { start: dateRange.from, end: dateRange.to });
-    });
-
-    // Calculate per-habit stats - ONLY count days from when habit was created
-    const habitStats = filteredHabits.map(habit => {
-      const habitCreatedAt = parseISO(habit.createdAt);
-      
-      // Calculate active days for this habit within the range
-      // Only count days from the habit's creation date onwards
-      const activeDays = daysInInterval.filter(day => {
-        const dayStart = new Date(day);
-        dayStart.setHours(0, 0, 0, 0);
-        const createdDay = new Date(habitCreatedAt);
-        createdDay.setHours(0, 0, 0, 0);
-        return dayStart >= createdDay;
-      });
-      
-      const activeDaysCount = activeDays.length;
-      
-      // If habit didn't exist in this range, skip it
-      if (activeDaysCount === 0) {
-        return {
-          habit,
-          totalValue: 0,
-          expectedTotal: 0,
-          completionPercentage: 0,
-          isOnTrack: true, // Not applicable
-          dailyAverage: 0,
-          activeDays: 0,
-          notApplicable: true, // Flag to exclude from overall calculations
-        };
-      }
-      
-      const habitEntries = rangeEntries.filter(e => e.habitId === habit.id);
-      const totalValue = habitEntries.reduce((sum, e) => sum + e.value, 0);
-      
-      // Expected value based on ACTIVE days only (not full range)
-      const dailyGoal = habit.weeklyGoal / 7;
-      const expectedTotal = dailyGoal * activeDaysCount;
-      const completionPercentage = expectedTotal > 0 ? Math.min(100, Math.round((totalValue / expectedTotal) * 100)) : 0;
-      
-      // Is on track?
-      const isOnTrack = totalValue >= expectedTotal * 0.8; // 80% threshold
-      
-      return {
-        habit,
-        totalValue,
-        expectedTotal,
-        completionPercentage,
-        isOnTrack,
-        dailyAverage: activeDaysCount > 0 ? Math.round((totalValue / activeDaysCount) * 10) / 10 : 0,
-        activeDays: activeDaysCount,
-        notApplicable: false,
-      };
-    });
+    const range = stats.getRangeStats(dateRange.from, dateRange.to);
 
-    // Filter out habits that didn't exist in this range for overall calculations
-    const applicableStats = habitStats.filter(h => !h.notApplicable);
-    
-    // Overall completion - only from applicable habits
-    const overallCompletion = applicableStats.length > 0
-      ? Math.round(applicableStats.reduce((sum, h) => sum + h.completionPercentage, 0) / applicableStats.length)
-      : 0;
-
-    // Habits on track - only from applicable habits
-    const habitsOnTrack = applicableStats.filter(h => h.isOnTrack).length;
-
-    // Days with all habits completed (perfect days)
-    // Only consider habits that existed on each specific day
-    let perfectDays = 0;
-    
-    daysInInterval.forEach(day => {
-      const dayStr = formatDate(day);
-      const dayStart = new Date(day);
-      dayStart.setHours(0, 0, 0, 0);
-      
-      // Get habits that existed on this day
-      const habitsExistingOnDay = filteredHabits.filter(habit => {
-        const createdAt = parseISO(habit.createdAt);
-        const createdDay = new Date(createdAt);
-        createdDay.setHours(0, 0, 0, 0);
-        return dayStart >= createdDay;
-      });
-      
-      // If no habits existed on this day, skip
-      if (habitsExistingOnDay.length === 0) return;
-      
-      let allHabitsHit = true;
-      
-      habitsExistingOnDay.forEach(habit => {
-        const entry = rangeEntries.find(e => e.habitId === habit.id && e.date === dayStr);
-        if (!entry || !isEntryComplete(entry, habit)) {
-          allHabitsHit = false;
-        }
-      });
-      
-      if (allHabitsHit) perfectDays++;
-    });
+    const habitStats = range.habitStats.map(stat => ({
+      ...stat,
+      completionPercentage: Math.round(stat.completionRate),
+      // Progress in the habit's current goal period, independent of the selected range
+      period: calculatePeriodStats(stat.habit, getHabitEntries(entryIndex, stat.habit.id)),
+    }));
 
     return {
       daysInRange,
       weeksInRange,
       habitStats,
-      overallCompletion,
-      habitsOnTrack,
-      perfectDays,
-      totalDays: daysInInterval.length,
+      overallCompletion: Math.round(range.completionRate),
+      habitsOnTrack: range.habitsOnTrack,
+      perfectDays: range.perfectDays,
+      totalDays: range.totalDays,
     };
-  }, [dateRange, allEntries, filteredHabits]);
+  }, [dateRange, entryIndex, stats]);
 
   // Trend data - daily breakdown within the range
-  // Uses targetAtEntry for historical accuracy
-  // Only considers habits that existed on each day
   const trendData = useMemo(() => {
-    const days = eachDayOfInterval({ start: dateRange.from, end: dateRange.to });
-
-    return days.map(day => {
-      const dayStr = formatDate(day);
-      const dayStart = new Date(day);
-      dayStart.setHours(0, 0, 0, 0);
-      
-      // Only consider habits that existed on this day
-      const habitsExistingOnDay = filteredHabits.filter(habit => {
-        const createdAt = parseISO(habit.createdAt);
-        const createdDay = new Date(createdAt);
-        createdDay.setHours(0, 0, 0, 0);
-        return dayStart >= createdDay;
-      });
-      
-      // Calculate completion for this day using entry's stored target
-      const dayStats = habitsExistingOnDay.map(habit => {
-        const entry = allEntries.find(e => e.habitId === habit.id && e.date === dayStr);
-        if (!entry) return 0;
-        
-        const value = entry.value || 0;
-        const dailyGoal = getEffectiveDailyGoal(entry, habit);
-        
-        // For binary habits, 1 = 100%, 0 = 0%
-        // For numeric habits, calculate percentage based on daily goal
-        const completionPercentage = habit.type === 'binary'
-          ? (value >= 1 ? 100 : 0)
-          : (dailyGoal > 0 ? Math.min(100, Math.round((value / dailyGoal) * 100)) : 0);
-        
-        return completionPercentage;
-      });
-
-      const avgCompletion = dayStats.length > 0
-        ? Math.round(dayStats.reduce((sum, c) => sum + c, 0) / dayStats.length)
-        : 0;
-
-      return {
-        date: format(day, 'MMM d'),
-        completion: avgCompletion,
-      };
-    });
-  }, [dateRange, allEntries, filteredHabits]);
+    return eachDayOfInterval({ start: dateRange.from, end: dateRange.to }).map(day => ({
+      date: format(day, 'MMM d'),
+      completion: Math.round((stats.getDailyCompletion(day) ?? 0) * 100),
+    }));
+  }, [dateRange, stats]);
 
   // Per-habit breakdown data
   const habitBreakdownData = useMemo(() => {
@@ -264,8 +151,8 @@ export function MainDashboard() {
       name: stat.habit.name,
       icon: stat.habit.icon,
       completion: stat.completionPercentage,
-      total: stat.totalValue,
-      expected: Math.round(stat.expectedTotal),
+      total: stat.total,
+      expected: Math.round(stat.goal),
       color: stat.habit.color,
     }));
   }, [rangeStats]);
@@ -364,6 +251,7 @@ export function MainDashboard() {
                   >
                     <span>{habit.icon}</span>
                     <span className="truncate">{habit.name}</span>
+                    {habit.archived && <span className="ml-auto text-[10px] text-slate-500">Archived</span>}
                   </button>
                 ))}
               </div>
@@ -430,7 +318,7 @@ export function MainDashboard() {
             <span className="text-xs sm:text-sm text-slate-400">On Track</span>
           </div>
           <div className="text-2xl sm:text-3xl font-bold text-emerald-400">{rangeStats.habitsOnTrack}</div>
-          <div className="text-[10px] sm:text-xs text-slate-500">of {filteredHabits.length} habits</div>
+          <div className="text-[10px] sm:text-xs text-slate-500">of {rangeStats.habitStats.length} habits</div>
         </div>
 
         {/* Perfect Days */}
@@ -516,9 +404,9 @@ export function MainDashboard() {
                     borderRadius: '8px',
                     fontSize: '10px',
                   }}
-                  formatter={(value: number, _name: string, props: any) => [
-                    `${value}% (${props.payload.total}/${props.payload.expected})`,
-                    props.payload.name
+                  formatter={(value: number, name: string, props: { payload?: { name: string; total: number; expected: number } }) => [
+                    `${value}% (${props.payload?.total}/${props.payload?.expected})`,
+                    props.payload?.name ?? name
                   ]}
                 />
                 <Bar 
@@ -558,19 +446,25 @@ export function MainDashboard() {
                     }}
                   />
                 </div>
-                <div className="grid grid-cols-3 gap-2 text-[10px] text-slate-400">
+                <div className="grid grid-cols-4 gap-2 text-[10px] text-slate-400">
                   <div>
-                    <div className="text-white font-medium">{stat.totalValue}</div>
+                    <div className="text-white font-medium">{stat.total}</div>
                     <div>Total</div>
                   </div>
                   <div>
-                    <div className="text-white font-medium">{Math.round(stat.expectedTotal)}</div>
+                    <div className="text-white font-medium">{Math.round(stat.goal)}</div>
                     <div>Expected</div>
                   </div>
                   <div>
                     <div className="text-white font-medium">{stat.dailyAverage}/day</div>
                     <div>Average</div>
                   </div>
+                  <div>
+                    <div className="font-medium" style={{ color: getPeriodStatusColor(stat.period.status) }}>
+                      {stat.period.total}/{stat.habit.weeklyGoal}
+                    </div>
+                    <div>This {describeGoalPeriod(stat.habit)}</div>
+                  </div>
                 </div>
               </div>
             ))}
@@ -587,6 +481,7 @@ export function MainDashboard() {
                     <th className="text-right py-2 px-3">Total</th>
                     <th className="text-right py-2 px-3">Expected</th>
                     <th className="text-right py-2 px-3">Daily Avg</th>
+                    <th className="text-right py-2 px-3">Current Period</th>
                     <th className="text-right py-2 px-3">Progress</th>
                   </tr>
                 </thead>
@@ -600,14 +495,20 @@ export function MainDashboard() {
                         </div>
                       </td>
                       <td className="text-right py-3 px-3 font-medium">
-                        {stat.totalValue} {stat.habit.unit}
+                        {stat.total} {stat.habit.unit}
                       </td>
                       <td className="text-right py-3 px-3 text-slate-400">
-                        {Math.round(stat.expectedTotal)} {stat.habit.unit}
+                        {Math.round(stat.goal)} {stat.habit.unit}
                       </td>
                       <td className="text-right py-3 px-3 text-slate-400">
                         {stat.dailyAverage} /day
                       </td>
+                      <td className="text-right py-3 px-3">
+                        <span className="font-medium" style={{ color: getPeriodStatusColor(stat.period.status) }}>
+                          {stat.period.total}/{stat.habit.weeklyGoal}
+                        </span>
+                        <span className="text-slate-500"> {stat.habit.unit}/{describeGoalPeriod(stat.habit)}</span>
+                      </td>
                       <td className="text-right py-3 px-3">
                         <div className="flex items-center justify-end gap-2">
                           <div className="w-20 h-2 bg-slate-700 rounded-full overflow-hidden">
@@ -634,18 +535,23 @@ export function MainDashboard() {
       )}
 
       {/* Yearly Activity Chart */}
-      <YearlyActivityChart habits={filteredHabits} allEntries={allEntries} />
+      <YearlyActivityChart habits={filteredHabits} stats={stats} journal={journal} />
 
       {/* Streaks Section */}
-      <StreaksSection habits={habits} allEntries={allEntries} />
+      <StreaksSection habits={habits} entryIndex={entryIndex} journal={journal} />
     </div>
   );
 }
 
 // Yearly Activity Chart Component (GitHub/LeetCode style)
-function YearlyActivityChart({ habits, allEntries }: { habits: any[]; allEntries: any[] }) {
+function YearlyActivityChart({ habits, stats, journal }: { habits: Habit[]; stats: StatsEngine; journal: DayJournal[] }) {
+  const { loadEntriesFrom } = useHabits();
   const currentYear = new Date().getFullYear();
   const [selectedYear, setSelectedYear] = useState(currentYear);
+
+  useEffect(() => {
+    loadEntriesFrom(formatDate(getStatsHistoryStart(habits, new Date(selectedYear, 0, 1))));
+  }, [habits, selectedYear, loadEntriesFrom]);
   
   // Generate years from 2025 to current year
   const availableYears = useMemo(() => {
@@ -657,7 +563,6 @@ function YearlyActivityChart({ habits, allEntries }: { habits: any[]; allEntries
   }, [currentYear]);
   
   // Calculate daily completion data for the selected year
-  // Uses targetAtEntry for historical accuracy when available
   const yearData = useMemo(() => {
     const yearStart = startOfYear(new Date(selectedYear, 0, 1));
     const yearEnd = endOfYear(new Date(selectedYear, 0, 1));
@@ -666,79 +571,35 @@ function YearlyActivityChart({ habits, allEntries }: { habits: any[]; allEntries
     // Get all days of the year
     const allDays = eachDayOfInterval({ start: yearStart, end: yearEnd });
     
-    // Group entries by date and habit (store full entry for targetAtEntry access)
-    const entriesByDateAndHabit = new Map<string, Map<string, typeof allEntries[0]>>();
-    for (const entry of allEntries) {
-      if (!entriesByDateAndHabit.has(entry.date)) {
-        entriesByDateAndHabit.set(entry.date, new Map());
-      }
-      const dayEntries = entriesByDateAndHabit.get(entry.date)!;
-      // Keep the entry with highest value if multiple exist
-      const existing = dayEntries.get(entry.habitId);
-      if (!existing || entry.value > existing.value) {
-        dayEntries.set(entry.habitId, entry);
-      }
-    }
-    
-    // Calculate completion for each day
     return allDays.map(day => {
       const dateStr = formatDate(day);
-      const dayEntries = entriesByDateAndHabit.get(dateStr);
-      const isFuture = isAfter(day, today);
-      const dayStart = new Date(day);
-      dayStart.setHours(0, 0, 0, 0);
       
-      // Only consider habits that existed on this day
-      const habitsExistingOnDay = habits.filter(habit => {
-        const createdAt = parseISO(habit.createdAt);
-        const createdDay = new Date(createdAt);
-        createdDay.setHours(0, 0, 0, 0);
-        return dayStart >= createdDay;
-      });
-      
-      if (!dayEntries || habitsExistingOnDay.length === 0 || isFuture) {
-        return {
-          date: day,
-          dateStr,
-          completionLevel: isFuture ? -1 : 0, // -1 for future, 0 for no data
-          completionPercent: 0,
-        };
+      if (isAfter(day, today)) {
+        return { date: day, dateStr, completionLevel: -1, completionPercent: 0 }; // -1 for future
       }
       
-      // Calculate average completion across habits that existed on this day
-      let totalCompletion = 0;
-      let habitsWithData = 0;
-      for (const habit of habitsExistingOnDay) {
-        const entry = dayEntries.get(habit.id);
-        if (!entry) {
-          // No entry for this habit on this day - counts as 0 completion
-          habitsWithData++;
-          continue;
-        }
-        const value = entry.value || 0;
-        // Use stored target or fall back to current goal
-        const goal = getEffectiveDailyGoal(entry, habit);
-        const completion = goal > 0 ? Math.min(value / goal, 1) : 0;
-        totalCompletion += completion;
-        habitsWithData++;
+      const completion = stats.getDailyCompletion(day);
+      if (completion === null) {
+        // Nothing counted: a rest day for every habit that existed, or no data before any did
+        const anyHabitExisted = habits.some(habit => isHabitActiveOn(habit, day));
+        return { date: day, dateStr, completionLevel: anyHabitExisted ? -3 : 0, completionPercent: 0 };
       }
-      const avgCompletion = habitsWithData > 0 ? totalCompletion / habitsWithData : 0;
       
       // Convert to level (0-4)
       let level = 0;
-      if (avgCompletion >= 1) level = 4;
-      else if (avgCompletion >= 0.75) level = 3;
-      else if (avgCompletion >= 0.5) level = 2;
-      else if (avgCompletion > 0) level = 1;
+      if (completion >= 1) level = 4;
+      else if (completion >= 0.75) level = 3;
+      else if (completion >= 0.5) level = 2;
+      else if (completion > 0) level = 1;
       
       return {
         date: day,
         dateStr,
         completionLevel: level,
-        completionPercent: Math.round(avgCompletion * 100),
+        completionPercent: Math.round(completion * 100),
       };
     });
-  }, [selectedYear, habits, allEntries]);
+  }, [selectedYear, habits, stats]);
   
   // Group year data by month, each month has its own week structure
   const monthsData = useMemo(() => {
@@ -801,6 +662,7 @@ function YearlyActivityChart({ habits, allEntries }: { habits: any[]; allEntries
   
   const getLevelColor = (level: number) => {
     switch (level) {
+      case -3: return 'rgba(51, 65, 85, 0.35)'; // Rest day
       case -2: return 'transparent'; // Empty
       case -1: return 'rgba(30, 41, 59, 0.3)'; // Future (faded)
       case 0: return 'rgba(30, 41, 59, 0.8)'; // No activity
@@ -813,6 +675,14 @@ function YearlyActivityChart({ habits, allEntries }: { habits: any[]; allEntries
   };
   
   const dayLabels = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+  const journalByDate = useMemo(() => new Map(journal.map(j => [j.date, j])), [journal]);
+  const getRestLabel = (dateStr: string) => {
+    const day = journalByDate.get(dateStr);
+    if (day?.vacation) return 'Vacation';
+    if (day?.frozen) return 'Streak freeze';
+    return 'Rest day';
+  };
   
   return (
     <div className="glass rounded-xl sm:rounded-2xl p-3 sm:p-4">
@@ -879,7 +749,7 @@ function YearlyActivityChart({ habits, allEntries }: { habits: any[]; allEntries
                             isToday ? 'ring-2 ring-cyan-400 ring-offset-1 ring-offset-slate-900' : ''
                           }`}
                           style={{ backgroundColor: getLevelColor(day.completionLevel) }}
-                          title={day.dateStr ? `${format(day.date, 'EEE, MMM d, yyyy')}: ${day.completionPercent}% complete` : ''}
+                          title={day.dateStr ? `${format(day.date, 'EEE, MMM d, yyyy')}: ${day.completionLevel === -3 ? getRestLabel(day.dateStr) : `${day.completionPercent}% complete`}` : ''}
                         />
                       );
                     })}
@@ -913,19 +783,26 @@ function YearlyActivityChart({ habits, allEntries }: { habits: any[]; allEntries
 }
 
 // Streaks Section Component
-function StreaksSection({ habits, allEntries }: { habits: any[]; allEntries: any[] }) {
+function StreaksSection({ habits, entryIndex, journal }: { habits: Habit[]; entryIndex: EntryIndex; journal: DayJournal[] }) {
+  const { loadEntriesFrom } = useHabits();
+
+  // Best streaks can be anywhere in the past
+  useEffect(() => {
+    loadEntriesFrom(null);
+  }, [loadEntriesFrom]);
+
   // Calculate overall streak (weekly-based)
   const overallStreak = useMemo(() => {
-    return calculateOverallStreak(habits, allEntries);
-  }, [habits, allEntries]);
+    return calculateOverallStreak(habits, entryIndex, journal);
+  }, [habits, entryIndex, journal]);
 
-  // Calculate per-habit streaks
+  // Calculate per-habit streaks (archived habits only count toward the overall streak)
   const habitStreaks = useMemo(() => {
-    return habits.map(habit => ({
+    return habits.filter(habit => !habit.archived).map(habit => ({
       habit,
-      ...calculateHabitStreak(habit.id, habit, allEntries)
+      ...calculateHabitStreak(habit.id, habit, getHabitEntries(entryIndex, habit.id), journal)
     })).sort((a, b) => b.currentStreak - a.currentStreak);
-  }, [habits, allEntries]);
+  }, [habits, entryIndex, journal]);
 
   const getStreakClass = (streak: number) => {
     const level = getStreakLevel(streak);
@@ -1022,7 +899,7 @@ function StreaksSection({ habits, allEntries }: { habits: any[]; allEntries: any
                   <span>{currentStreak}</span>
                 </div>
                 {maxStreak > 0 && (
-                  <div className="flex items-center gap-0.5 text-amber-400" title={`Best: ${maxStreak} days`}>
+                  <div className="flex items-center gap-0.5 text-amber-400" title={`Best: ${maxStreak} ${getStreakUnit(habit)}s`}>
                     <Trophy className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
                     <span className="text-[10px] sm:text-xs font-medium">{maxStreak}</span>
                   </div>
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Plus, List, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useHabits } from '../context/HabitContext';
+import { getIndexedEntry } from '../lib/entryIndex';
+import type { Habit } from '../types';
+
+interface QuickLogButtonProps {
+  habit: Habit;
+  date: string;
+}
+
+// "+amount" button for habits logged in portions, with the day's event log behind it
+export function QuickLogButton({ habit, date }: QuickLogButtonProps) {
+  const { entryIndex, logEvent } = useHabits();
+  const quickAmount = habit.quickAmount ?? 1;
+  const [isOpen, setIsOpen] = useState(false);
+  const [amount, setAmount] = useState(String(quickAmount));
+  const [note, setNote] = useState('');
+
+  const events = getIndexedEntry(entryIndex, habit.id, date)?.events ?? [];
+
+  const log = (value: number, eventNote?: string) => {
+    logEvent(habit.id, date, value, eventNote).catch((error) => console.error('Failed to log entry:', error));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!value) return;
+    log(value, note.trim() || undefined);
+    setNote('');
+  };
+
+  return (
+    // Sits inside the clickable habit name
+    <div className="flex items-center gap-0.5" onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={() => log(quickAmount)}
+        className="flex items-center gap-0.5 px-2 py-1 rounded-l-lg text-xs font-medium bg-cyan-500/20 text-cyan-400 hover:bg-cyan-500/30 transition-all"
+        title={`Log ${quickAmount} ${habit.unit} now`}
+      >
+        <Plus className="w-3 h-3" />
+        {quickAmount}
+      </button>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="px-1.5 py-1 rounded-r-lg text-xs bg-cyan-500/20 text-cyan-400 hover:bg-cyan-500/30 transition-all"
+        title="Today's log"
+      >
+        <List className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+          onClick={() => setIsOpen(false)}
+        >
+          <div
+            className="glass rounded-2xl w-full max-w-xs p-4 text-left animate-slide-up"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-semibold" style={{ color: habit.color }}>
+                {habit.icon} {habit.name} - today's log
+              </span>
+              <button type="button" onClick={() => setIsOpen(false)} className="text-slate-500 hover:text-slate-300">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+  
+            {events.length === 0 ? (
+              <p className="text-xs text-slate-500 mb-2">Nothing logged yet</p>
+            ) : (
+              <ul className="max-h-40 overflow-y-auto space-y-1 mb-2">
+                {events.map((event) => (
+                  <li key={event.id} className="flex items-baseline gap-2 text-xs">
+                    <span className="text-slate-500 tabular-nums">{format(parseISO(event.time), 'HH:mm')}</span>
+                    <span className={event.amount < 0 ? 'text-red-400' : 'text-cyan-400'}>
+                      {event.amount > 0 ? '+' : ''}{event.amount} {habit.unit}
+                    </span>
+                    {event.note && <span className="text-slate-400 truncate">{event.note}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+  
+            <form onSubmit={handleSubmit} className="flex items-center gap-1.5">
+              <input
+                type="number"
+                step="any"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-16 px-2 py-1 bg-slate-700 border border-slate-600 rounded-lg text-xs focus:outline-none focus:border-violet-500"
+              />
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Note (optional)"
+                className="flex-1 min-w-0 px-2 py-1 bg-slate-700 border border-slate-600 rounded-lg text-xs focus:outline-none focus:border-violet-500"
+              />
+              <button type="submit" className="px-2 py-1 rounded-lg text-xs font-medium bg-violet-500 text-white hover:bg-violet-600">
+                Log
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { 
   FileText, 
   Calendar, 
@@ -12,15 +12,17 @@ import {
   Trophy,
   ChevronLeft,
   ChevronRight,
-  X
+  X,
+  Search
 } from 'lucide-react';
 import { useHabits } from '../context/HabitContext';
 import { 
-  formatDate, 
-  calculateOverallStreak,
   calculateHabitStreak,
-  isEntryComplete
+  searchNotes,
+  MOOD_OPTIONS
 } from '../lib/utils';
+import { createStatsEngine, calculateOverallStreak } from '../lib/stats';
+import { getHabitEntries, getAllIndexedEntries } from '../lib/entryIndex';
 import { StreakIcon } from './StreakIcon';
 import {
   format,
@@ -60,9 +62,11 @@ interface ReportData {
     habitName: string;
     habitIcon: string;
     habitColor: string;
-    completions: number;
+    completions: number; // Fractional: days short of the threshold earn partial credit
     expected: number;
     completionRate: number;
+    countsPace: boolean; // Days on pace rather than days completed
+    lateDays: number; // Logged days in the range that were backfilled after their edit window
     currentStreak: number;
     maxStreak: number;
   }[];
@@ -93,7 +97,15 @@ const PRESET_RANGES = [
 ];
 
 export function ReportsView() {
-  const { habits, allEntries } = useHabits();
+  const { habits: activeHabits, archivedHabits, entryIndex, journal, loadEntriesFrom } = useHabits();
+  // Archived habits keep their history up to the day they were archived
+  const habits = useMemo(() => [...activeHabits, ...archivedHabits], [activeHabits, archivedHabits]);
+
+  // The report's streaks, like the note search, cover all history
+  useEffect(() => {
+    loadEntriesFrom(null);
+  }, [loadEntriesFrom]);
+
   const [dateRange, setDateRange] = useState<DateRange>(() => {
     // Default to last 7 days
     return { from: subDays(new Date(), 6), to: new Date() };
@@ -105,125 +117,50 @@ export function ReportsView() {
     const endDate = dateRange.to;
     const periodLabel = `${format(startDate, 'MMM d')} - ${format(endDate, 'MMM d, yyyy')}`;
 
-    const days = eachDayOfInterval({ start: startDate, end: endDate });
-    const totalDays = days.length;
-    const startStr = formatDate(startDate);
-    const endStr = formatDate(endDate);
-
-    // Filter entries in period
-    const periodEntries = allEntries.filter(e => e.date >= startStr && e.date <= endStr);
-
-    // Calculate per-habit stats using targetAtEntry for historical accuracy
-    // Only count days from when each habit was created
-    const habitStats = habits.map(habit => {
-      const habitCreatedAt = parseISO(habit.createdAt);
-      const habitEntries = periodEntries.filter(e => e.habitId === habit.id);
-      
-      // Only count days from when the habit was created
-      const activeDays = days.filter(day => {
-        const dayStart = new Date(day);
-        dayStart.setHours(0, 0, 0, 0);
-        const createdDay = new Date(habitCreatedAt);
-        createdDay.setHours(0, 0, 0, 0);
-        return dayStart >= createdDay;
-      });
-      
-      let completions = 0;
-      for (const day of activeDays) {
-        const dayStr = formatDate(day);
-        const entry = habitEntries.find(e => e.date === dayStr);
-        
-        if (entry && isEntryComplete(entry, habit)) {
-          completions++;
-        }
-      }
-
-      const expected = activeDays.length;
-      const completionRate = expected > 0 ? (completions / expected) * 100 : 0;
-      
-      // Get streak data
-      const streakData = calculateHabitStreak(habit.id, habit, allEntries);
+    // Completion and perfect days, defined the same way as on the Stats tab
+    const range = createStatsEngine(habits, entryIndex, journal).getRangeStats(startDate, endDate);
 
+    const habitStats = range.habitStats.map(stat => {
+      const streakData = calculateHabitStreak(stat.habit.id, stat.habit, getHabitEntries(entryIndex, stat.habit.id), journal);
       return {
-        habitId: habit.id,
-        habitName: habit.name,
-        habitIcon: habit.icon,
-        habitColor: habit.color,
-        completions,
-        expected,
-        completionRate,
+        habitId: stat.habit.id,
+        habitName: stat.habit.name,
+        habitIcon: stat.habit.icon,
+        habitColor: stat.habit.color,
+        completions: stat.credit,
+        expected: stat.countedDays,
+        completionRate: stat.completionRate,
+        countsPace: stat.countsPace,
+        lateDays: stat.lateDays,
         currentStreak: streakData.currentStreak,
         maxStreak: streakData.maxStreak,
-        notApplicable: expected === 0 // Flag if habit didn't exist in this period
       };
     });
 
-    // Filter out habits that didn't exist in this period for overall calculations
-    const applicableStats = habitStats.filter(h => !h.notApplicable);
-
-    // Calculate overall stats - perfect days using targetAtEntry
-    // Only consider habits that existed on each specific day
-    let perfectDays = 0;
-    for (const day of days) {
-      const dayStr = formatDate(day);
-      const dayStart = new Date(day);
-      dayStart.setHours(0, 0, 0, 0);
-      
-      // Get habits that existed on this day
-      const habitsExistingOnDay = habits.filter(habit => {
-        const createdAt = parseISO(habit.createdAt);
-        const createdDay = new Date(createdAt);
-        createdDay.setHours(0, 0, 0, 0);
-        return dayStart >= createdDay;
-      });
-      
-      // If no habits existed on this day, skip
-      if (habitsExistingOnDay.length === 0) continue;
-      
-      let allHabitsComplete = true;
-      
-      for (const habit of habitsExistingOnDay) {
-        const entry = periodEntries.find(e => e.habitId === habit.id && e.date === dayStr);
-        
-        if (!entry || !isEntryComplete(entry, habit)) {
-          allHabitsComplete = false;
-          break;
-        }
-      }
-      
-      if (allHabitsComplete) perfectDays++;
-    }
-
-    const totalCompletions = applicableStats.reduce((sum, h) => sum + h.completions, 0);
-    const expectedCompletions = applicableStats.reduce((sum, h) => sum + h.expected, 0);
-    const overallCompletionRate = expectedCompletions > 0 
-      ? (totalCompletions / expectedCompletions) * 100 
-      : 0;
-
     // Find best and worst habits
     const sortedByRate = [...habitStats].sort((a, b) => b.completionRate - a.completionRate);
     const bestHabit = sortedByRate.length > 0 ? sortedByRate[0].habitName : null;
     const worstHabit = sortedByRate.length > 0 ? sortedByRate[sortedByRate.length - 1].habitName : null;
 
     // Overall streak
-    const overallStreakData = calculateOverallStreak(habits, allEntries);
+    const overallStreakData = calculateOverallStreak(habits, entryIndex, journal);
 
     return {
       period: periodLabel,
       startDate,
       endDate,
-      totalDays,
-      perfectDays,
-      totalCompletions,
-      expectedCompletions,
-      overallCompletionRate,
+      totalDays: range.totalDays,
+      perfectDays: range.perfectDays,
+      totalCompletions: range.credit,
+      expectedCompletions: range.countedDays,
+      overallCompletionRate: range.completionRate,
       habitStats,
       bestHabit,
       worstHabit,
       overallStreak: overallStreakData.currentStreak,
       maxStreak: overallStreakData.maxStreak
     };
-  }, [habits, allEntries, dateRange]);
+  }, [habits, entryIndex, journal, dateRange]);
 
   const handleShare = async (platform: 'whatsapp' | 'copy') => {
     const reportText = generateReportText(reportData);
@@ -264,7 +201,8 @@ export function ReportsView() {
     
     text += `📈 Habit Breakdown\n`;
     for (const habit of data.habitStats) {
-      text += `${habit.habitIcon} ${habit.habitName}: ${habit.completionRate.toFixed(0)}%\n`;
+      text += `${habit.habitIcon} ${habit.habitName}: ${habit.completionRate.toFixed(0)}%`;
+      text += habit.lateDays > 0 ? ` (${habit.lateDays} backfilled)\n` : '\n';
     }
     
     if (data.bestHabit) {
@@ -422,7 +360,12 @@ export function ReportsView() {
                       {habit.habitName}
                     </div>
                     <div className="text-xs text-slate-400">
-                      {habit.completions}/{habit.expected} days completed
+                      {Math.round(habit.completions * 10) / 10}/{habit.expected} days {habit.countsPace ? 'on pace' : 'completed'}
+                      {habit.lateDays > 0 && (
+                        <span className="text-slate-500" title="Logged after the day's edit window">
+                          {' '}· {habit.lateDays} backfilled
+                        </span>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -456,6 +399,8 @@ export function ReportsView() {
         </div>
       </div>
 
+      <NoteSearch />
+
       {/* Share & Download */}
       <div className="glass rounded-2xl p-4 sm:p-6">
         <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -497,6 +442,61 @@ export function ReportsView() {
   );
 }
 
+// Search across entry notes, journal text and tags (all dates, not just the report period)
+function NoteSearch() {
+  const { habits, archivedHabits, entryIndex, journal } = useHabits();
+  const allEntries = getAllIndexedEntries(entryIndex);
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => searchNotes(query, allEntries, journal), [query, allEntries, journal]);
+
+  return (
+    <div className="glass rounded-2xl p-4 sm:p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Search className="w-5 h-5 text-violet-400" />
+        Search Notes
+      </h3>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search notes, or #tag"
+        className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-sm focus:outline-none focus:border-violet-500"
+      />
+
+      {query.trim() && (
+        results.length === 0 ? (
+          <p className="text-sm text-slate-500 mt-3">No matches</p>
+        ) : (
+          <ul className="mt-3 space-y-2 max-h-80 overflow-y-auto">
+            {results.map((result) => {
+              const habit = [...habits, ...archivedHabits].find(h => h.id === result.habitId);
+              const mood = MOOD_OPTIONS.find(m => m.value === result.journal?.mood);
+              return (
+                <li key={`${result.date}-${result.habitId ?? 'journal'}`} className="bg-slate-800/50 rounded-lg p-3 text-sm">
+                  <div className="flex items-center gap-2 text-xs text-slate-400 mb-1">
+                    <span>{format(parseISO(result.date), 'EEE, MMM d, yyyy')}</span>
+                    {mood && <span title={mood.label}>{mood.emoji}</span>}
+                    {result.habitId === null ? (
+                      <span className="text-violet-400">Journal</span>
+                    ) : (
+                      <span style={{ color: habit?.color }}>{habit ? `${habit.icon} ${habit.name}` : 'Deleted habit'}</span>
+                    )}
+                    {result.habitId === null && result.journal?.tags.map(tag => (
+                      <span key={tag} className="text-slate-500">#{tag}</span>
+                    ))}
+                  </div>
+                  {result.text && <div className="text-slate-300 whitespace-pre-wrap">{result.text}</div>}
+                </li>
+              );
+            })}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
+
 // Reports Date Range Picker Component
 function ReportsDateRangePicker({ 
   value, 
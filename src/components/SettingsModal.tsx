@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { X, Palmtree, Snowflake, Trash2 } from 'lucide-react';
+import { useHabits } from '../context/HabitContext';
+import { EDIT_WINDOW_OPTIONS } from '../lib/settings';
+import { formatDate, getVacationRanges } from '../lib/utils';
+import { getFreezeBalance, PERFECT_DAYS_PER_FREEZE, MAX_BANKED_FREEZES } from '../lib/stats';
+
+interface SettingsModalProps {
+  onClose: () => void;
+}
+
+export function SettingsModal({ onClose }: SettingsModalProps) {
+  const { habits, archivedHabits, entryIndex, journal, isViewingFriend, editWindow, setEditWindow, setVacation, loadEntriesFrom } = useHabits();
+  const today = formatDate(new Date());
+  const [vacationStart, setVacationStart] = useState(today);
+  const [vacationEnd, setVacationEnd] = useState(today);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Freezes are earned from every perfect day so far
+  useEffect(() => {
+    loadEntriesFrom(null);
+  }, [loadEntriesFrom]);
+
+  const vacations = getVacationRanges(journal);
+  const freezes = getFreezeBalance([...habits, ...archivedHabits], entryIndex, journal);
+
+  const formatRange = (start: string, end: string) =>
+    start === end
+      ? format(parseISO(start), 'MMM d, yyyy')
+      : `${format(parseISO(start), 'MMM d')} - ${format(parseISO(end), 'MMM d, yyyy')}`;
+
+  const updateVacation = async (start: string, end: string, onVacation: boolean) => {
+    setIsSaving(true);
+    try {
+      await setVacation(start, end, onVacation);
+    } catch (error) {
+      console.error('Failed to update vacation:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl w-full max-w-md animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-700/50">
+          <h2 className="text-lg font-semibold">Settings</h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Edit Past Days</label>
+            <div className="grid grid-cols-4 gap-2">
+              {EDIT_WINDOW_OPTIONS.map((option) => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setEditWindow(option.value)}
+                  className={`py-2 rounded-xl border text-sm transition-all ${
+                    editWindow === option.value
+                      ? 'border-violet-500 bg-violet-500/20 text-violet-300'
+                      : 'border-slate-600 hover:border-slate-500'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="text-xs text-slate-500 mt-2">
+              How far back the tracker lets you log. Days filled in after yesterday are marked as
+              logged late in reports, and later changes to them are kept in the habit's history.
+              This setting applies to this device.
+            </div>
+          </div>
+
+          {!isViewingFriend && (
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">Vacations</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={vacationStart}
+                  onChange={(e) => setVacationStart(e.target.value)}
+                  className="flex-1 min-w-0 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-sm focus:outline-none focus:border-violet-500"
+                />
+                <span className="text-slate-500 text-sm">to</span>
+                <input
+                  type="date"
+                  value={vacationEnd}
+                  min={vacationStart}
+                  onChange={(e) => setVacationEnd(e.target.value)}
+                  className="flex-1 min-w-0 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-sm focus:outline-none focus:border-violet-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => updateVacation(vacationStart, vacationEnd, true)}
+                  disabled={isSaving || !vacationStart || !vacationEnd || vacationEnd < vacationStart}
+                  className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Add
+                </button>
+              </div>
+              {vacations.length > 0 && (
+                <ul className="space-y-1 mt-2 max-h-40 overflow-y-auto">
+                  {vacations.map((range) => (
+                    <li key={range.start} className="flex items-center justify-between bg-slate-800/50 rounded-lg px-3 py-1.5 text-sm">
+                      <span className="flex items-center gap-2">
+                        <Palmtree className="w-4 h-4 text-cyan-400" />
+                        {formatRange(range.start, range.end)}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => updateVacation(range.start, range.end, false)}
+                        disabled={isSaving}
+                        className="p-1 text-slate-400 hover:text-red-400 transition-colors disabled:opacity-50"
+                        title="Remove vacation"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="text-xs text-slate-500 mt-2">
+                Vacation days don't count against streaks, perfect days or completion rates.
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Streak Freezes</label>
+            <div className="flex items-center gap-2 text-sm">
+              <Snowflake className="w-4 h-4 text-sky-400" />
+              {freezes.available} available · {freezes.used} used
+            </div>
+            <div className="text-xs text-slate-500 mt-2">
+              You earn a freeze for every {PERFECT_DAYS_PER_FREEZE} perfect days and can bank up to{' '}
+              {MAX_BANKED_FREEZES}. Spend one on a day from its journal to keep your streaks going.
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="flex-1 py-2.5 px-4 bg-gradient-to-r from-violet-600 to-cyan-600 hover:from-violet-500 hover:to-cyan-500 rounded-xl font-medium transition-all"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
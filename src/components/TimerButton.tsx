@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { Play, Square } from 'lucide-react';
+import { useHabits } from '../context/HabitContext';
+import { formatDuration } from '../lib/utils';
+
+interface TimerButtonProps {
+  habitId: string;
+}
+
+// Start/stop control for a duration habit, showing the running time as h:mm
+export function TimerButton({ habitId }: TimerButtonProps) {
+  const { runningTimers, startTimer, stopTimer } = useHabits();
+  const startedAt = runningTimers[habitId];
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick only while running
+  useEffect(() => {
+    if (!startedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    // The button sits inside the clickable habit name
+    e.stopPropagation();
+    if (startedAt) {
+      stopTimer(habitId).catch((error) => console.error('Failed to stop timer:', error));
+    } else {
+      startTimer(habitId);
+    }
+  };
+
+  const elapsedMinutes = startedAt ? Math.max(0, (now - new Date(startedAt).getTime()) / 60000) : 0;
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium transition-all ${
+        startedAt
+          ? 'bg-rose-500/20 text-rose-400 hover:bg-rose-500/30'
+          : 'bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30'
+      }`}
+      title={startedAt ? 'Stop timer' : 'Start timer'}
+    >
+      {startedAt ? (
+        <>
+          <Square className="w-3 h-3" />
+          <span className="tabular-nums">{formatDuration(elapsedMinutes)}</span>
+        </>
+      ) : (
+        <Play className="w-3 h-3" />
+      )}
+    </button>
+  );
+}
@@ -1,37 +1,97 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useHabits } from '../context/HabitContext';
-import { formatDate, getDaysOfWeek, getWeekStart, formatWeekRange, isCurrentWeek, calculateHabitStreak, getStreakLevel, isDateEditable } from '../lib/utils';
-import { Check, Minus, ChevronLeft, ChevronRight, Calendar, Lock, Flame } from 'lucide-react';
+import { formatDate, getDaysOfWeek, getWeekStart, getWeekEnd, formatWeekRange, isCurrentWeek, calculateHabitStreak, getStreakLevel, isDateEditable, getCompletedDates, isHabitDueOn, getExcusedDates, calculatePeriodStats, getScheduledDailyGoal, describeSchedule, describeGoalPeriod, getStreakUnit, formatDuration, parseDuration, MOOD_OPTIONS, getCompletionThreshold } from '../lib/utils';
+import { getIndexedEntry, getHabitEntries } from '../lib/entryIndex';
+import { Check, Minus, ChevronLeft, ChevronRight, Calendar, Lock, Flame, StickyNote } from 'lucide-react';
 import { SimpleCalendarPicker } from './SimpleCalendarPicker';
 import { StreakIcon } from './StreakIcon';
-import type { Habit } from '../types';
+import { TimerButton } from './TimerButton';
+import { QuickLogButton } from './QuickLogButton';
+import { DayJournalModal } from './DayJournalModal';
+import { HabitDetailModal } from './HabitDetailModal';
+import { format, parseISO } from 'date-fns';
+import type { HabitStreak } from '../lib/utils';
+import type { Habit, PeriodStats } from '../types';
 
 interface TrackerViewProps {
   onEditHabit?: (habit: Habit) => void;
 }
 
 export function TrackerView({ onEditHabit }: TrackerViewProps) {
-  const { habits, weekStart, updateEntry, getEntryValue, goToPreviousWeek, goToNextWeek, goToCurrentWeek, goToWeek, allEntries } = useHabits();
+  const { habits, weekStart, updateEntry, getEntryValue, goToPreviousWeek, goToNextWeek, goToCurrentWeek, goToWeek, entryIndex, journal, editWindow, loadEntriesFrom, getBestStreak, recordBestStreaks } = useHabits();
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [journalDay, setJournalDay] = useState<{ date: string; habitId?: string } | null>(null);
+  const [detailHabit, setDetailHabit] = useState<Habit | null>(null);
 
   // Calculate streaks for all habits
   const habitStreaks = useMemo(() => {
-    const streaks: Record<string, { currentStreak: number; maxStreak: number }> = {};
+    const streaks: Record<string, HabitStreak> = {};
     habits.forEach(habit => {
-      streaks[habit.id] = calculateHabitStreak(habit.id, habit, allEntries);
+      streaks[habit.id] = calculateHabitStreak(habit.id, habit, getHabitEntries(entryIndex, habit.id), journal);
     });
     return streaks;
-  }, [habits, allEntries]);
+  }, [habits, entryIndex, journal]);
+
+  // Only streaks running back past the loaded weeks need older history
+  const needsOlderEntries = Object.values(habitStreaks).some(streak => streak.reachesFirstEntry);
+  useEffect(() => {
+    if (needsOlderEntries) loadEntriesFrom(null);
+  }, [needsOlderEntries, loadEntriesFrom]);
+
+  useEffect(() => {
+    recordBestStreaks(Object.fromEntries(
+      Object.entries(habitStreaks).map(([habitId, streak]) => [habitId, streak.maxStreak])
+    ));
+  }, [habitStreaks, recordBestStreaks]);
+
+  const completedDates = useMemo(() => {
+    const dates: Record<string, Set<string>> = {};
+    habits.forEach(habit => {
+      dates[habit.id] = getCompletedDates(habit, getHabitEntries(entryIndex, habit.id));
+    });
+    return dates;
+  }, [habits, entryIndex]);
+
+  const excusedDates = useMemo(() => {
+    const dates: Record<string, Set<string>> = {};
+    habits.forEach(habit => {
+      dates[habit.id] = getExcusedDates(habit, getHabitEntries(entryIndex, habit.id), journal);
+    });
+    return dates;
+  }, [habits, entryIndex, journal]);
+  
+  // Goal periods are measured at today, or at the nearest end of the week being viewed
+  const referenceDate = useMemo(() => {
+    const now = new Date();
+    const weekEnd = getWeekEnd(weekStart);
+    return now < weekStart ? weekStart : now > weekEnd ? weekEnd : now;
+  }, [weekStart]);
+
+  const periodStats = useMemo(() => {
+    const stats: Record<string, PeriodStats> = {};
+    habits.forEach(habit => {
+      stats[habit.id] = calculatePeriodStats(habit, getHabitEntries(entryIndex, habit.id), referenceDate);
+    });
+    return stats;
+  }, [habits, entryIndex, referenceDate]);
   
   const daysOfWeek = getDaysOfWeek(weekStart);
   const today = formatDate(new Date());
-  const currentWeekStart = formatDate(getWeekStart(new Date()));
-  const isCurrentWeekView = formatDate(weekStart) === currentWeekStart;
 
-  // Calculate which day of the week today is (1-7, Monday=1)
-  const todayIndex = isCurrentWeekView
-    ? daysOfWeek.findIndex((d) => d.date === today) + 1
-    : 7; // If viewing past week, consider all 7 days
+  // Days off the habit's schedule, skipped days and time off are shown as neutral rest days rather than misses
+  const isRestDay = (habit: Habit, date: string): boolean => {
+    return !isHabitDueOn(habit, parseISO(date), completedDates[habit.id] ?? new Set(), excusedDates[habit.id]);
+  };
+
+  // Why a rest day isn't due, for tooltips
+  const getRestLabel = (habitId: string, date: string): string => {
+    const skipReason = getIndexedEntry(entryIndex, habitId, date)?.skipReason;
+    if (skipReason) return `Skipped: ${skipReason}`;
+    const day = journal.find(j => j.date === date);
+    if (day?.vacation) return 'Vacation';
+    if (day?.frozen) return 'Streak freeze';
+    return 'Rest day';
+  };
 
   // Track pending values for numeric inputs (allows empty field during editing)
   const [pendingValues, setPendingValues] = useState<Record<string, string>>({});
@@ -42,13 +102,14 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
     setPendingValues(prev => ({ ...prev, [key]: inputValue }));
   };
   
-  // Handle blur - commit the value
+  // Handle blur - commit the value (durations are typed as h:mm or minutes)
   const handleNumericInputBlur = async (habitId: string, date: string) => {
     const key = `${habitId}_${date}`;
     const pendingValue = pendingValues[key];
     
     if (pendingValue !== undefined) {
-      const numValue = parseFloat(pendingValue) || 0;
+      const isDuration = habits.find(h => h.id === habitId)?.type === 'duration';
+      const numValue = (isDuration ? parseDuration(pendingValue) : parseFloat(pendingValue)) || 0;
       await updateEntry(habitId, date, numValue);
       // Clear pending value
       setPendingValues(prev => {
@@ -60,13 +121,14 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
   };
   
   // Get display value for numeric input
-  const getNumericDisplayValue = (habitId: string, date: string): string => {
-    const key = `${habitId}_${date}`;
+  const getNumericDisplayValue = (habit: Habit, date: string): string => {
+    const key = `${habit.id}_${date}`;
     if (pendingValues[key] !== undefined) {
       return pendingValues[key];
     }
-    const value = getEntryValue(habitId, date);
-    return value ? String(value) : '';
+    const value = getEntryValue(habit.id, date);
+    if (!value) return '';
+    return habit.type === 'duration' ? formatDuration(value) : String(value);
   };
 
   const toggleBinary = async (habitId: string, date: string) => {
@@ -74,55 +136,132 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
     await updateEntry(habitId, date, currentValue === 1 ? 0 : 1);
   };
 
-  const getWeeklyTotal = (habitId: string): number => {
-    return daysOfWeek.reduce((total, day) => {
-      return total + getEntryValue(habitId, day.date);
-    }, 0);
-  };
-
   // Get display text for habit goal
   const getGoalDisplay = (habit: Habit): string => {
     if (habit.type === 'binary') {
-      return `${habit.weeklyGoal} ${habit.unit}/week`;
+      return habit.schedule.type === 'daily'
+        ? `${habit.weeklyGoal} ${habit.unit}/${describeGoalPeriod(habit)}`
+        : describeSchedule(habit);
     } else {
-      const dailyGoal = Math.round((habit.weeklyGoal / 7) * 10) / 10;
-      return `${dailyGoal} ${habit.unit}/day`;
+      const dailyGoal = Math.round(getScheduledDailyGoal(habit, referenceDate) * 10) / 10;
+      const perDay = habit.type === 'duration'
+        ? `${formatDuration(dailyGoal)}/day`
+        : `${habit.type === 'limit' ? 'max ' : ''}${dailyGoal} ${habit.unit}/day`;
+      return habit.schedule.type === 'daily' ? perDay : `${perDay} • ${describeSchedule(habit)}`;
     }
   };
 
-  // Get status color based on weekly pacing
-  const getPacingStatus = (habit: Habit): { color: string; status: string } => {
-    const current = getWeeklyTotal(habit.id);
-    const weeklyGoal = habit.weeklyGoal;
-    
-    if (current >= weeklyGoal) {
-      return { color: '#10b981', status: 'complete' };
+  // Which period the progress column covers, for habits whose goal isn't weekly
+  const getPeriodCaption = (habit: Habit): string => {
+    switch (habit.goalPeriod.type) {
+      case 'day':
+        return format(referenceDate, 'EEE d');
+      case 'month':
+        return format(referenceDate, 'MMMM');
+      case 'rolling':
+        return `last ${habit.goalPeriod.days} days`;
+      default:
+        return '';
     }
+  };
 
-    if (habit.type === 'binary') {
-      const expectedByToday = (weeklyGoal / 7) * todayIndex;
-      const difference = current - expectedByToday;
-      
-      if (difference >= 0) {
-        return { color: '#10b981', status: 'on-track' };
-      } else if (difference >= -1) {
-        return { color: '#f59e0b', status: 'warning' };
-      } else {
-        return { color: '#ef4444', status: 'behind' };
-      }
-    } else {
-      const dailyGoal = weeklyGoal / 7;
-      const expectedByToday = dailyGoal * todayIndex;
-      const difference = current - expectedByToday;
-      
-      if (difference >= 0) {
-        return { color: '#10b981', status: 'on-track' };
-      } else if (difference >= -dailyGoal) {
-        return { color: '#f59e0b', status: 'warning' };
-      } else {
-        return { color: '#ef4444', status: 'behind' };
+  const formatProgress = (habit: Habit, total: number): string =>
+    habit.type === 'duration'
+      ? `${formatDuration(total)}/${formatDuration(habit.weeklyGoal)}`
+      : `${total}/${habit.weeklyGoal}`;
+
+  // Allowance left for limit habits, per day and over the whole goal period
+  const formatAllowance = (habit: Habit, total: number): string => {
+    const left = habit.weeklyGoal - total;
+    return left >= 0 ? `${left} ${habit.unit} left` : `${-left} ${habit.unit} over`;
+  };
+
+  const getAllowanceHint = (habit: Habit, value: number, dayDate: string): string => {
+    const dailyLimit = getScheduledDailyGoal(habit, parseISO(dayDate));
+    const dayLeft = Math.round((dailyLimit - value) * 10) / 10;
+    const dayHint = dayLeft >= 0 ? `${dayLeft} ${habit.unit} left that day` : `${-dayLeft} ${habit.unit} over that day`;
+    return `${dayHint} • ${formatAllowance(habit, periodStats[habit.id].total)} this ${describeGoalPeriod(habit)}`;
+  };
+
+  const getEntryNote = (habitId: string, dayDate: string): string => {
+    return getIndexedEntry(entryIndex, habitId, dayDate)?.note ?? '';
+  };
+
+  const getMoodEmoji = (dayDate: string): string | undefined => {
+    const mood = journal.find(j => j.date === dayDate)?.mood;
+    return MOOD_OPTIONS.find(m => m.value === mood)?.emoji;
+  };
+
+  // Backfilled days and late changes, from the entry's audit trail
+  const getAuditNote = (habitId: string, dayDate: string): string => {
+    const entry = getIndexedEntry(entryIndex, habitId, dayDate);
+    const changes = entry?.history?.length ?? 0;
+    return [
+      entry?.loggedLate ? 'Logged late' : '',
+      changes > 0 ? `Changed ${changes} time${changes !== 1 ? 's' : ''} after the day` : '',
+    ].filter(Boolean).join(', ');
+  };
+
+  // Tooltip for numeric cells: lock or rest state, limit allowance, the day's event log, then the note
+  const getInputTitle = (habit: Habit, value: number, dayDate: string, isEditable: boolean, isRest: boolean): string => {
+    const lines = [
+      !isEditable && dayDate <= today
+        ? 'Locked (outside your edit window)'
+        : isRest ? getRestLabel(habit.id, dayDate) : habit.type === 'limit' ? getAllowanceHint(habit, value, dayDate) : '',
+    ];
+    if (isEditable) {
+      const events = getIndexedEntry(entryIndex, habit.id, dayDate)?.events ?? [];
+      for (const event of events) {
+        const amount = `${event.amount > 0 ? '+' : ''}${event.amount} ${habit.unit}`;
+        lines.push(`${format(parseISO(event.time), 'HH:mm')} ${amount}${event.note ? ` - ${event.note}` : ''}`);
       }
     }
+    lines.push(getAuditNote(habit.id, dayDate), getEntryNote(habit.id, dayDate));
+    return lines.filter(Boolean).join('\n');
+  };
+
+  const getBinaryTitle = (habitId: string, dayDate: string, isEditable: boolean, isRest: boolean): string => {
+    const state = !isEditable && dayDate <= today ? 'Locked (outside your edit window)' : isRest ? getRestLabel(habitId, dayDate) : '';
+    return [state, getAuditNote(habitId, dayDate), getEntryNote(habitId, dayDate)].filter(Boolean).join('\n');
+  };
+
+  // Notes can be added to any day up to today, even once its value is locked
+  const renderNoteButton = (habitId: string, dayDate: string) => {
+    if (dayDate > today) return null;
+    const hasNote = getEntryNote(habitId, dayDate) !== '';
+    return (
+      <button
+        type="button"
+        onClick={() => setJournalDay({ date: dayDate, habitId })}
+        className={`absolute top-0.5 right-0.5 p-0.5 rounded transition-opacity ${
+          hasNote ? 'text-amber-400' : 'text-slate-500 opacity-0 group-hover:opacity-100'
+        }`}
+        title={hasNote ? 'Edit note' : 'Add note'}
+      >
+        <StickyNote className="w-2.5 h-2.5" />
+      </button>
+    );
+  };
+
+  const getStatusLabel = (habit: Habit, status: string): string => {
+    const isLimit = habit.type === 'limit';
+    switch (status) {
+      case 'complete':
+        return isLimit ? '✓ Kept' : '✓ Done';
+      case 'warning':
+        return isLimit ? 'Slow Down' : 'Catch Up';
+      case 'behind':
+        return isLimit ? 'Over Limit' : 'Behind';
+      default:
+        return 'On Track';
+    }
+  };
+
+  // Get status color based on pacing through the habit's goal period
+  const getPacingStatus = (habit: Habit): { color: string; status: string; total: number } => {
+    const { status, total } = periodStats[habit.id];
+    const color = status === 'warning' ? '#f59e0b' : status === 'behind' ? '#ef4444' : '#10b981';
+    return { color, status, total };
   };
 
   const handleDateSelect = (date: Date) => {
@@ -131,17 +270,36 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
 
   // Get input field styling based on value and daily completion percentage
   // Green: 100%+ of daily goal (completed)
-  // Amber: 80-99% of daily goal (warning)
-  // Red: <80% of daily goal OR missed day (past day with 0)
-  // Gray: no value entered (only for today/future)
-  const getInputStyle = (habit: Habit, value: number, dayDate: string, _weeklyStatus: string) => {
-    const dailyGoal = habit.weeklyGoal / 7;
+  // Amber: from the habit's completion threshold (80% by default) up to 99% (counts as done)
+  // Red: below the threshold OR missed day (past due day with 0)
+  // Gray: no value entered (today/future or rest day)
+  // Limit habits are inverted: green under 80% of the daily limit, amber up to it, red over it
+  const getInputStyle = (habit: Habit, value: number, dayDate: string, isRest: boolean) => {
+    const dailyGoal = getScheduledDailyGoal(habit, parseISO(dayDate));
     const isPast = dayDate < today;
+
+    if (habit.type === 'limit' && value > 0) {
+      if (value > dailyGoal) {
+        return { bg: 'bg-red-900/30', border: 'border-red-500/50', text: 'text-red-400 font-medium' };
+      }
+      if (value >= dailyGoal * 0.8) {
+        return { bg: 'bg-amber-900/30', border: 'border-amber-500/50', text: 'text-amber-400' };
+      }
+      return { bg: 'bg-emerald-900/30', border: 'border-emerald-500/50', text: 'text-emerald-400' };
+    }
     
     // No value entered
     if (value === 0) {
-      // Past day with no entry = missed = red
-      if (isPast) {
+      // Rest day = neutral, dashed to set it apart from days still to do
+      if (isRest) {
+        return {
+          bg: 'bg-slate-800',
+          border: 'border-dashed border-slate-600',
+          text: 'text-slate-600'
+        };
+      }
+      // Past day with no entry = missed = red (nothing logged is fine for a limit)
+      if (isPast && habit.type !== 'limit') {
         return {
           bg: 'bg-red-900/30',
           border: 'border-red-500/50',
@@ -170,8 +328,8 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
       };
     }
     
-    // 80-99% - Amber (warning)
-    if (completionPercent >= 80) {
+    // Threshold-99% - Amber (warning)
+    if (completionPercent >= getCompletionThreshold(habit) * 100) {
       return {
         bg: 'bg-amber-900/30',
         border: 'border-amber-500/50',
@@ -179,7 +337,7 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
       };
     }
     
-    // <80% - Red (below target)
+    // Below threshold - Red (below target)
     return {
       bg: 'bg-red-900/30',
       border: 'border-red-500/50',
@@ -188,8 +346,8 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
   };
 
   // Get button styling for binary habits
-  // Green if done, red if missed (past), gray if not done yet (today/future)
-  const getBinaryButtonStyle = (_habit: Habit, value: number, dayDate: string, _weeklyStatus: string) => {
+  // Green if done, red if missed (past), gray if not done yet (today/future), dashed on rest days
+  const getBinaryButtonStyle = (_habit: Habit, value: number, dayDate: string, isRest: boolean) => {
     const isCompleted = value >= 1;
     const isPast = dayDate < today;
     
@@ -198,6 +356,11 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
       return 'bg-emerald-500 text-white shadow-lg shadow-emerald-500/30';
     }
     
+    // Rest day - neutral
+    if (isRest) {
+      return 'bg-slate-800 text-slate-600 border border-dashed border-slate-600';
+    }
+    
     // Past day not completed = missed = red
     if (isPast) {
       return 'bg-red-900/50 text-red-400 border border-red-500/50';
@@ -271,8 +434,8 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
       {/* Mobile Card View */}
       <div className="block sm:hidden space-y-3">
         {habits.map((habit) => {
-          const weeklyTotal = getWeeklyTotal(habit.id);
-          const { color: statusColor, status } = getPacingStatus(habit);
+          const { color: statusColor, status, total: periodTotal } = getPacingStatus(habit);
+          const periodCaption = getPeriodCaption(habit);
           const streak = habitStreaks[habit.id];
           const streakLevel = getStreakLevel(streak?.currentStreak || 0);
           const currentStreak = streak?.currentStreak || 0;
@@ -304,7 +467,7 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
                                     : 'bg-gradient-to-b from-emerald-500/30 to-green-500/30 text-emerald-400'
                         : 'bg-slate-700/50 text-slate-500'
                     }`}
-                    title={`Streak: ${currentStreak} days | Best: ${streak?.maxStreak || 0}`}
+                    title={`Streak: ${currentStreak} ${getStreakUnit(habit)}s | Best: ${getBestStreak(habit.id, streak?.maxStreak || 0)}`}
                   >
                     <span className={`${streakLevel === 'fire' || streakLevel === 'mythic' || streakLevel === 'immortal' ? 'flame-animate' : ''} ${streakLevel === 'immortal' || streakLevel === 'mythic' ? 'streak-icon' : ''}`}>
                       <StreakIcon streak={currentStreak} size="sm" />
@@ -314,6 +477,11 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
                   <div 
                     className="w-10 h-10 rounded-lg flex items-center justify-center text-xl"
                     style={{ backgroundColor: `${habit.color}20` }}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setDetailHabit(habit);
+                    }}
+                    title="Details and notes"
                   >
                     {habit.icon}
                   </div>
@@ -323,19 +491,24 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
                     </div>
                     <div className="text-xs text-slate-400">{getGoalDisplay(habit)}</div>
                   </div>
+                  {habit.type === 'duration' && <TimerButton habitId={habit.id} />}
+                  {(habit.type === 'numeric' || habit.type === 'limit') && <QuickLogButton habit={habit} date={today} />}
                 </div>
                 <div className="text-right">
                   <div className="font-bold text-lg" style={{ color: statusColor }}>
-                    {weeklyTotal}/{habit.weeklyGoal}
+                    {formatProgress(habit, periodTotal)}
                   </div>
+                  {periodCaption && (
+                    <div className="text-[10px] text-slate-500">{periodCaption}</div>
+                  )}
+                  {habit.type === 'limit' && (
+                    <div className="text-[10px] text-slate-500">{formatAllowance(habit, periodTotal)}</div>
+                  )}
                   <span 
                     className="text-[10px] px-2 py-0.5 rounded-full"
                     style={{ backgroundColor: `${statusColor}20`, color: statusColor }}
                   >
-                    {status === 'complete' && '✓ Done'}
-                    {status === 'on-track' && 'On Track'}
-                    {status === 'warning' && 'Catch Up'}
-                    {status === 'behind' && 'Behind'}
+                    {getStatusLabel(habit, status)}
                   </span>
                 </div>
               </div>
@@ -346,26 +519,36 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
                   const value = getEntryValue(habit.id, day.date);
                   const isToday = day.date === today;
                   const isFuture = day.date > today;
-                  const isEditable = isDateEditable(day.date);
-                  const inputStyle = getInputStyle(habit, value, day.date, status);
-                  const buttonStyle = getBinaryButtonStyle(habit, value, day.date, status);
+                  const isEditable = isDateEditable(day.date, editWindow);
+                  const isRest = isRestDay(habit, day.date);
+                  const inputStyle = getInputStyle(habit, value, day.date, isRest);
+                  const buttonStyle = getBinaryButtonStyle(habit, value, day.date, isRest);
 
                   return (
                     <div
                       key={day.date}
-                      className={`bg-slate-800/60 p-2 flex flex-col items-center ${
+                      className={`relative bg-slate-800/60 p-2 flex flex-col items-center ${
                         isToday ? 'bg-violet-900/30' : ''
                       } ${isFuture || !isEditable ? 'opacity-40' : ''}`}
                     >
-                      <div className={`text-[10px] font-medium mb-1 ${isToday ? 'text-violet-400' : 'text-slate-500'}`}>
-                        {day.dayName.slice(0, 1)}
-                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setJournalDay({ date: day.date, habitId: habit.id })}
+                        disabled={isFuture}
+                        className={`text-[10px] font-medium mb-1 ${isToday ? 'text-violet-400' : 'text-slate-500'}`}
+                        title="Journal and notes"
+                      >
+                        {getMoodEmoji(day.date) ?? day.dayName.slice(0, 1)}
+                      </button>
+                      {getEntryNote(habit.id, day.date) && (
+                        <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-amber-400" />
+                      )}
                       {habit.type === 'binary' ? (
                         <button
                           onClick={() => toggleBinary(habit.id, day.date)}
                           disabled={!isEditable}
                           className={`w-7 h-7 rounded-md flex items-center justify-center transition-all ${buttonStyle} ${!isEditable && !isFuture ? 'cursor-not-allowed' : ''}`}
-                          title={!isEditable && !isFuture ? 'Locked (6hr grace period expired)' : ''}
+                          title={getBinaryTitle(habit.id, day.date, isEditable, isRest)}
                         >
                           {!isEditable && !isFuture ? (
                             <Lock className="w-3 h-3 text-slate-500" />
@@ -377,14 +560,15 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
                         </button>
                       ) : (
                         <input
-                          type="number"
+                          type={habit.type === 'duration' ? 'text' : 'number'}
+                          inputMode={habit.type === 'duration' ? 'numeric' : undefined}
                           min="0"
-                          value={getNumericDisplayValue(habit.id, day.date)}
+                          value={getNumericDisplayValue(habit, day.date)}
                           onChange={(e) => handleNumericInputChange(habit.id, day.date, e.target.value)}
                           onBlur={() => handleNumericInputBlur(habit.id, day.date)}
                           disabled={!isEditable}
-                          placeholder="0"
-                          title={!isEditable && !isFuture ? 'Locked (6hr grace period expired)' : ''}
+                          placeholder={habit.type === 'duration' ? '0:00' : '0'}
+                          title={getInputTitle(habit, value, day.date, isEditable, isRest)}
                           className={`w-9 h-7 ${inputStyle.bg} border ${inputStyle.border} rounded-md text-center text-xs focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 ${inputStyle.text} ${!isEditable ? 'cursor-not-allowed' : ''}`}
                         />
                       )}
@@ -408,17 +592,21 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
             Habit
           </div>
           {daysOfWeek.map((day) => (
-            <div
+            <button
               key={day.date}
-              className={`bg-slate-800/80 p-2 lg:p-3 text-center ${
+              type="button"
+              onClick={() => setJournalDay({ date: day.date })}
+              disabled={day.date > today}
+              className={`bg-slate-800/80 p-2 lg:p-3 text-center enabled:hover:bg-slate-700/80 transition-colors ${
                 day.date === today ? 'bg-violet-900/30' : ''
               }`}
+              title={day.date > today ? undefined : 'Journal and notes'}
             >
               <div className="text-[10px] lg:text-xs text-slate-400 uppercase">{day.dayName}</div>
               <div className={`text-xs lg:text-sm font-medium ${day.date === today ? 'text-violet-400' : ''}`}>
-                {day.dayNum}
+                {day.dayNum} {getMoodEmoji(day.date)}
               </div>
-            </div>
+            </button>
           ))}
           <div className="bg-slate-800/80 p-2 lg:p-3 text-center font-semibold text-xs lg:text-sm text-slate-300">
             Progress
@@ -426,8 +614,8 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
 
           {/* Habit Rows */}
           {habits.map((habit) => {
-            const weeklyTotal = getWeeklyTotal(habit.id);
-            const { color: statusColor, status } = getPacingStatus(habit);
+            const { color: statusColor, status, total: periodTotal } = getPacingStatus(habit);
+            const periodCaption = getPeriodCaption(habit);
             const streak = habitStreaks[habit.id];
             const streakLevel = getStreakLevel(streak?.currentStreak || 0);
             const currentStreak = streak?.currentStreak || 0;
@@ -446,7 +634,7 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
                     streakLevel === 'bronze' ? 'bg-gradient-to-b from-emerald-500/20 to-green-500/20' :
                     ''
                   }`}
-                  title={`Streak: ${streak?.currentStreak || 0} days | Best: ${streak?.maxStreak || 0}`}
+                  title={`Streak: ${streak?.currentStreak || 0} ${getStreakUnit(habit)}s | Best: ${getBestStreak(habit.id, streak?.maxStreak || 0)}`}
                 >
                   <span className={`text-sm lg:text-base ${
                     streakLevel === 'fire' || streakLevel === 'mythic' || streakLevel === 'immortal' 
@@ -475,8 +663,13 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
                   onClick={() => onEditHabit?.(habit)}
                 >
                   <div 
-                    className="w-8 h-8 lg:w-9 lg:h-9 rounded-lg flex items-center justify-center text-base lg:text-lg flex-shrink-0"
+                    className="w-8 h-8 lg:w-9 lg:h-9 rounded-lg flex items-center justify-center text-base lg:text-lg flex-shrink-0 hover:ring-2 hover:ring-slate-500 transition-all"
                     style={{ backgroundColor: `${habit.color}20` }}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setDetailHabit(habit);
+                    }}
+                    title="Details and notes"
                   >
                     {habit.icon}
                   </div>
@@ -488,6 +681,8 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
                       {getGoalDisplay(habit)}
                     </div>
                   </div>
+                  {habit.type === 'duration' && <TimerButton habitId={habit.id} />}
+                  {(habit.type === 'numeric' || habit.type === 'limit') && <QuickLogButton habit={habit} date={today} />}
                 </div>
 
                 {/* Day Cells */}
@@ -495,14 +690,15 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
                   const value = getEntryValue(habit.id, day.date);
                   const isToday = day.date === today;
                   const isFuture = day.date > today;
-                  const isEditable = isDateEditable(day.date);
-                  const inputStyle = getInputStyle(habit, value, day.date, status);
-                  const buttonStyle = getBinaryButtonStyle(habit, value, day.date, status);
+                  const isEditable = isDateEditable(day.date, editWindow);
+                  const isRest = isRestDay(habit, day.date);
+                  const inputStyle = getInputStyle(habit, value, day.date, isRest);
+                  const buttonStyle = getBinaryButtonStyle(habit, value, day.date, isRest);
 
                   return (
                     <div
                       key={`${habit.id}-${day.date}`}
-                      className={`bg-slate-800/50 p-1.5 lg:p-2 flex items-center justify-center ${
+                      className={`group relative bg-slate-800/50 p-1.5 lg:p-2 flex items-center justify-center ${
                         isToday ? 'bg-violet-900/20' : ''
                       } ${isFuture || !isEditable ? 'opacity-50' : ''}`}
                     >
@@ -510,7 +706,7 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
                         <button
                           onClick={() => toggleBinary(habit.id, day.date)}
                           disabled={!isEditable}
-                          title={!isEditable && !isFuture ? 'Locked (6hr grace period expired)' : ''}
+                          title={getBinaryTitle(habit.id, day.date, isEditable, isRest)}
                           className={`w-7 h-7 lg:w-8 lg:h-8 rounded-lg flex items-center justify-center transition-all ${buttonStyle} ${!isEditable ? 'cursor-not-allowed' : 'cursor-pointer'}`}
                         >
                           {!isEditable && !isFuture ? (
@@ -523,29 +719,37 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
                         </button>
                       ) : (
                         <input
-                          type="number"
+                          type={habit.type === 'duration' ? 'text' : 'number'}
+                          inputMode={habit.type === 'duration' ? 'numeric' : undefined}
                           min="0"
-                          value={getNumericDisplayValue(habit.id, day.date)}
+                          value={getNumericDisplayValue(habit, day.date)}
                           onChange={(e) => handleNumericInputChange(habit.id, day.date, e.target.value)}
                           onBlur={() => handleNumericInputBlur(habit.id, day.date)}
                           disabled={!isEditable}
-                          placeholder="0"
-                          title={!isEditable && !isFuture ? 'Locked (6hr grace period expired)' : ''}
+                          placeholder={habit.type === 'duration' ? '0:00' : '0'}
+                          title={getInputTitle(habit, value, day.date, isEditable, isRest)}
                           className={`w-11 lg:w-14 h-7 lg:h-8 ${inputStyle.bg} border ${inputStyle.border} rounded-lg text-center text-xs lg:text-sm focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 ${inputStyle.text} ${!isEditable ? 'cursor-not-allowed' : ''}`}
                         />
                       )}
+                      {renderNoteButton(habit.id, day.date)}
                     </div>
                   );
                 })}
 
-                {/* Weekly Progress */}
+                {/* Goal Period Progress */}
                 <div className="bg-slate-800/50 p-2 lg:p-3 flex flex-col items-center justify-center">
                   <span 
                     className="font-bold text-sm lg:text-lg"
                     style={{ color: statusColor }}
                   >
-                    {weeklyTotal}/{habit.weeklyGoal}
+                    {formatProgress(habit, periodTotal)}
                   </span>
+                  {periodCaption && (
+                    <span className="text-[10px] text-slate-500">{periodCaption}</span>
+                  )}
+                  {habit.type === 'limit' && (
+                    <span className="text-[10px] text-slate-500">{formatAllowance(habit, periodTotal)}</span>
+                  )}
                   <span 
                     className="text-[10px] lg:text-xs px-1.5 lg:px-2 py-0.5 rounded-full mt-0.5 lg:mt-1"
                     style={{ 
@@ -553,10 +757,7 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
                       color: statusColor 
                     }}
                   >
-                    {status === 'complete' && '✓ Done'}
-                    {status === 'on-track' && 'On Track'}
-                    {status === 'warning' && 'Catch Up'}
-                    {status === 'behind' && 'Behind'}
+                    {getStatusLabel(habit, status)}
                   </span>
                 </div>
               </React.Fragment>
@@ -580,6 +781,19 @@ export function TrackerView({ onEditHabit }: TrackerViewProps) {
           <span>Behind</span>
         </div>
       </div>
+
+      {journalDay && (
+        <DayJournalModal
+          key={journalDay.date}
+          date={journalDay.date}
+          focusHabitId={journalDay.habitId}
+          onClose={() => setJournalDay(null)}
+        />
+      )}
+
+      {detailHabit && (
+        <HabitDetailModal habit={detailHabit} onClose={() => setDetailHabit(null)} />
+      )}
     </div>
   );
 }
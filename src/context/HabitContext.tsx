@@ -1,56 +1,85 @@
-import { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import type { Habit, DailyEntry, HabitFormData } from '../types';
+import type {
+  Habit,
+  DailyEntry,
+  DayJournal,
+  HabitFormData,
+  LocalDataSnapshot,
+  EntryConflict,
+  ImportPreview,
+} from '../types';
+import { isFirebaseConfigured } from '../lib/firebase';
+import { previewImport as previewImportData } from '../lib/importValidation';
 import {
-  isFirebaseConfigured,
-  subscribeToHabits,
-  subscribeToEntriesForWeek,
-  createHabit,
-  updateHabit,
-  deleteHabit,
-  upsertEntry,
-  getAllEntries,
-  resetWeekData,
-  importData,
-  deleteAllHabits,
-  deleteAllEntries,
-  // Friend data
-  getFriendEntries,
-  subscribeToFriendHabits,
-  subscribeToFriendEntries,
-} from '../lib/firebase';
+  subscribeToConflictLog,
+  dismissConflict as dismissLoggedConflict,
+  clearConflictLog,
+  resolveHabit,
+} from '../lib/conflicts';
 import {
-  subscribeToHabitsLocal,
-  subscribeToEntriesForWeekLocal,
-  createHabitLocal,
-  updateHabitLocal,
-  deleteHabitLocal,
-  upsertEntryLocal,
-  getAllEntriesLocal,
-  resetWeekDataLocal,
-  importDataLocal,
-  triggerLocalRefresh,
-  deleteAllHabitsLocal,
-  deleteAllEntriesLocal,
-} from '../lib/localStorage';
+  subscribeToRunningTimers,
+  startTimer as startRunningTimer,
+  stopTimer as stopRunningTimer,
+  type RunningTimers,
+} from '../lib/timers';
+import {
+  getEditWindow,
+  subscribeToEditWindow,
+  setEditWindow as saveEditWindow,
+  type EditWindow,
+} from '../lib/settings';
+import { isIndexedDbAvailable } from '../lib/indexedDb';
+import {
+  createEntryIndex,
+  upsertIndexedEntries,
+  replaceIndexedRange,
+  getIndexedEntry,
+  type EntryIndex,
+} from '../lib/entryIndex';
+import {
+  createDeviceRepository,
+  createFirestoreRepository,
+  createSyncedFirestoreRepository,
+  createFriendRepository,
+  createInMemoryRepository,
+  type HabitRepository,
+  type Unsubscribe,
+} from '../lib/habitRepository';
+import { subscribeToBestStreaks, saveBestStreaks, type BestStreaks } from '../lib/bestStreaks';
 import {
   getWeekStart,
   getWeekEnd,
   formatDate,
   navigateWeek,
+  getScheduledDailyGoal,
+  splitSessionByDay,
+  appendEntryEvent,
+  getEntryTargets,
+  getUpdatedGoalHistory,
+  sumEvents,
+  getTrashExpiry,
+  withEditAudit,
+  isDateEditable,
   HABIT_COLORS,
 } from '../lib/utils';
-import { subDays, eachDayOfInterval } from 'date-fns';
+import { canFreezeDay } from '../lib/stats';
+import { subDays, subWeeks, eachDayOfInterval, parseISO } from 'date-fns';
 
 interface HabitContextType {
   // Data
-  habits: Habit[];
+  habits: Habit[]; // Active habits only
+  archivedHabits: Habit[]; // Still count in stats for the days before they were archived
+  trashedHabits: Habit[]; // Deleted, restorable until TRASH_RETENTION_DAYS have passed
   entries: DailyEntry[];
-  allEntries: DailyEntry[];
+  entryIndex: EntryIndex; // Recent weeks plus whatever older history has been loaded, by habit and day
+  journal: DayJournal[];
   weekStart: Date;
   isLoading: boolean;
   error: string | null;
   isUsingLocalStorage: boolean;
+  pendingSyncCount: number; // Writes queued offline, not yet in Firestore
+  isOnline: boolean;
   
   // User state
   currentUserId: string | null;
@@ -67,33 +96,100 @@ interface HabitContextType {
   // Habit CRUD (only works when not viewing friend)
   addHabit: (data: HabitFormData) => Promise<void>;
   editHabit: (habitId: string, data: Partial<HabitFormData>) => Promise<void>;
-  removeHabit: (habitId: string) => Promise<void>;
+  removeHabit: (habitId: string) => Promise<void>; // Moves it to the trash
+  restoreDeletedHabit: (habitId: string) => Promise<void>;
+  purgeHabit: (habitId: string) => Promise<void>; // Deletes it and its entries for good
+  archiveHabit: (habitId: string) => Promise<void>;
+  restoreHabit: (habitId: string) => Promise<void>;
 
   // Entry operations (only works when not viewing friend)
   updateEntry: (habitId: string, date: string, value: number) => Promise<void>;
+  logEvent: (habitId: string, date: string, amount: number, note?: string) => Promise<void>;
+  updateEntryNote: (habitId: string, date: string, note: string) => Promise<void>;
+  skipDay: (habitId: string, date: string, reason: string | null) => Promise<void>; // null un-skips
   getEntryValue: (habitId: string, date: string) => number;
+  // Loads entries from the date on (null for all history) if they aren't already, e.g. for a report
+  loadEntriesFrom: (date: string | null) => void;
+  // The larger of a best streak computed from loaded entries and the last one seen with all history
+  getBestStreak: (id: string, computed: number) => number;
+  recordBestStreaks: (streaks: BestStreaks) => void; // Ignored unless all history is loaded
+
+  // Per-day mood, tags and note, plus vacation and streak freeze days (only works when not viewing friend)
+  saveJournal: (date: string, data: Pick<DayJournal, 'mood' | 'tags' | 'note' | 'vacation' | 'frozen'>) => Promise<void>;
+  setVacation: (start: string, end: string, onVacation: boolean) => Promise<void>;
+
+  // Duration habit timers, kept running across reloads on this device
+  runningTimers: RunningTimers;
+  startTimer: (habitId: string) => void;
+  stopTimer: (habitId: string) => Promise<void>;
+
+  // How many past days can be edited, kept on this device
+  editWindow: EditWindow;
+  setEditWindow: (editWindow: EditWindow) => void;
 
   // Bulk operations
   resetCurrentWeek: () => Promise<void>;
-  importFromJSON: (jsonString: string) => Promise<void>;
-  loadAllEntries: () => Promise<void>;
+  getAllHabits: () => Promise<Habit[]>; // Includes archived habits, e.g. to match imports by name
+  previewImport: (jsonString: string) => Promise<ImportPreview>;
+  // Rejects files with invalid records unless validOnly is set
+  importFromJSON: (jsonString: string, options?: { validOnly?: boolean }) => Promise<void>;
   clearAllData: () => Promise<void>;
   clearAllEntries: () => Promise<void>;
   generateFakeData: (months: number) => Promise<void>;
   
+  // Local-only data migration after first sign-in
+  localDataToMigrate: LocalDataSnapshot | null;
+  migrateLocalData: (keepLocalCopy: boolean) => Promise<void>;
+  dismissLocalMigration: () => void;
+
+  // Edits that lost to a newer version of the same entry
+  conflicts: EntryConflict[];
+  restoreConflict: (conflict: EntryConflict) => Promise<void>;
+  dismissConflict: (conflictId: string) => void;
+  clearConflicts: () => void;
+
   // Set current user (called from AuthContext)
   setCurrentUserId: (userId: string | null) => void;
 }
 
 const HabitContext = createContext<HabitContextType | null>(null);
 
-export function HabitProvider({ children }: { children: React.ReactNode }) {
-  const [habits, setHabits] = useState<Habit[]>([]);
+// Remembers per account that local data was already uploaded or skipped
+const LOCAL_MIGRATION_KEY_PREFIX = 'habit-diary-local-migration:';
+
+// Weeks of entries loaded up front and kept live; older history is read when a view asks for it
+const RECENT_WEEKS = 12;
+
+// Which entries have been read from one backend
+interface EntryHistory {
+  repository: HabitRepository;
+  recent: { start: string; end: string }; // Kept current by a listener
+  loadedFrom: string | null; // Earliest date loaded, null once all history is
+  unsubscribes: Unsubscribe[]; // Listeners keeping older history current
+}
+
+interface HabitProviderProps {
+  children: React.ReactNode;
+  // Overrides backend selection (e.g. an in-memory repository in tests)
+  repository?: HabitRepository;
+}
+
+export function HabitProvider({ children, repository: repositoryOverride }: HabitProviderProps) {
+  const [allHabits, setAllHabits] = useState<Habit[]>([]);
   const [entries, setEntries] = useState<DailyEntry[]>([]);
-  const [allEntries, setAllEntries] = useState<DailyEntry[]>([]);
+  const [entryIndex, setEntryIndex] = useState<EntryIndex>(() => createEntryIndex([]));
+  const [journal, setJournal] = useState<DayJournal[]>([]);
   const [weekStart, setWeekStart] = useState<Date>(getWeekStart(new Date()));
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [localDataToMigrate, setLocalDataToMigrate] = useState<LocalDataSnapshot | null>(null);
+  const [conflicts, setConflicts] = useState<EntryConflict[]>([]);
+  const [runningTimers, setRunningTimers] = useState<RunningTimers>({});
+  const [editWindow, setEditWindowState] = useState<EditWindow>(getEditWindow);
+  const [hasAllEntries, setHasAllEntries] = useState(false);
+  const [bestStreaks, setBestStreaks] = useState<BestStreaks>({});
   
   // User state
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -103,6 +199,19 @@ export function HabitProvider({ children }: { children: React.ReactNode }) {
   const isUsingLocalStorage = !isFirebaseConfigured || !currentUserId;
   const isViewingFriend = viewingUserId !== null && viewingUserId !== currentUserId;
 
+  // Select the storage backend once per mode change
+  const repository = useMemo<HabitRepository>(() => {
+    if (repositoryOverride) return repositoryOverride;
+    if (isUsingLocalStorage) return createDeviceRepository();
+    if (isViewingFriend && viewingUserId) return createFriendRepository(viewingUserId);
+    if (currentUserId) {
+      return isIndexedDbAvailable
+        ? createSyncedFirestoreRepository(currentUserId)
+        : createFirestoreRepository(currentUserId);
+    }
+    return createInMemoryRepository();
+  }, [repositoryOverride, isUsingLocalStorage, isViewingFriend, viewingUserId, currentUserId]);
+
   // Set viewing user (for friend dashboards)
   const setViewingUser = useCallback((userId: string | null) => {
     setViewingUserId(userId);
@@ -112,89 +221,158 @@ export function HabitProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     setIsLoading(true);
     
-    let unsubscribe: () => void;
-    
-    if (isUsingLocalStorage) {
-      unsubscribe = subscribeToHabitsLocal((newHabits) => {
-        setHabits(newHabits);
-        setIsLoading(false);
-      });
-    } else if (isViewingFriend && viewingUserId) {
-      // Viewing friend's habits (read-only)
-      unsubscribe = subscribeToFriendHabits(viewingUserId, (newHabits) => {
-        setHabits(newHabits);
-        setIsLoading(false);
-      });
-    } else if (currentUserId) {
-      // Own habits
-      unsubscribe = subscribeToHabits(currentUserId, (newHabits) => {
-        setHabits(newHabits);
-        setIsLoading(false);
-      });
-    } else {
-      setHabits([]);
+    const unsubscribe = repository.subscribeToHabits((newHabits) => {
+      setAllHabits(newHabits);
       setIsLoading(false);
-      unsubscribe = () => {};
-    }
+    });
 
     return () => unsubscribe();
-  }, [isUsingLocalStorage, currentUserId, viewingUserId, isViewingFriend]);
+  }, [repository]);
+
+  const habits = useMemo(() => allHabits.filter(h => !h.archived && !h.deletedAt), [allHabits]);
+  const archivedHabits = useMemo(() => allHabits.filter(h => h.archived && !h.deletedAt), [allHabits]);
+  const trashedHabits = useMemo(() => allHabits.filter(h => h.deletedAt), [allHabits]);
+
+  // Empty the trash of habits deleted more than TRASH_RETENTION_DAYS ago
+  useEffect(() => {
+    if (isViewingFriend) return;
+    const now = new Date();
+    for (const habit of trashedHabits) {
+      const expiry = getTrashExpiry(habit);
+      if (expiry && expiry <= now) {
+        repository.deleteHabit(habit.id).catch((err) => console.error('Failed to empty trash:', err));
+      }
+    }
+  }, [trashedHabits, repository, isViewingFriend]);
+
+  // What has been loaded from the current backend, started over whenever it changes
+  const historyRef = useRef<EntryHistory | null>(null);
+  const getHistory = useCallback((): EntryHistory => {
+    if (historyRef.current?.repository !== repository) {
+      const currentWeek = getWeekStart(new Date());
+      const start = formatDate(subWeeks(currentWeek, RECENT_WEEKS - 1));
+      historyRef.current = {
+        repository,
+        recent: { start, end: formatDate(getWeekEnd(currentWeek)) },
+        loadedFrom: start,
+        unsubscribes: [],
+      };
+      setEntryIndex(createEntryIndex([]));
+      setHasAllEntries(false);
+    }
+    return historyRef.current;
+  }, [repository]);
+
+  // Load recent weeks first and keep them current from the backend's listener
+  useEffect(() => {
+    const history = getHistory();
+    const { recent } = history;
+
+    const unsubscribe = repository.subscribeToEntriesInRange(recent.start, recent.end, (recentEntries) => {
+      setEntryIndex((prev) => replaceIndexedRange(prev, recent.start, recent.end, recentEntries));
+    });
+
+    return () => {
+      unsubscribe();
+      history.unsubscribes.forEach((unsubscribeOlder) => unsubscribeOlder());
+      if (historyRef.current === history) historyRef.current = null;
+    };
+  }, [getHistory, repository]);
+
+  // Listen to older history too, from the first request that reaches past what's loaded
+  const loadEntriesFrom = useCallback((date: string | null) => {
+    const history = getHistory();
+    const { loadedFrom } = history;
+    if (loadedFrom === null || (date !== null && date >= loadedFrom)) return;
+
+    const end = formatDate(subDays(parseISO(loadedFrom), 1));
+    history.loadedFrom = date;
+    history.unsubscribes.push(
+      history.repository.subscribeToEntriesInRange(date, end, (olderEntries) => {
+        setEntryIndex((prev) => replaceIndexedRange(prev, date, end, olderEntries));
+        if (date === null) setHasAllEntries(true);
+      })
+    );
+  }, [getHistory]);
+
+  // Best streaks seen with all history loaded, shown until it is loaded again
+  const streakOwner = isUsingLocalStorage ? 'local' : (isViewingFriend ? viewingUserId : currentUserId) ?? 'local';
+  useEffect(() => subscribeToBestStreaks(streakOwner, setBestStreaks), [streakOwner]);
+
+  const getBestStreak = useCallback(
+    (id: string, computed: number) => (hasAllEntries ? computed : Math.max(computed, bestStreaks[id] ?? 0)),
+    [hasAllEntries, bestStreaks]
+  );
+
+  const recordBestStreaks = useCallback((streaks: BestStreaks) => {
+    if (hasAllEntries) saveBestStreaks(streakOwner, streaks);
+  }, [hasAllEntries, streakOwner]);
 
   // Subscribe to entries for current week
   useEffect(() => {
     const weekStartStr = formatDate(weekStart);
     const weekEndStr = formatDate(getWeekEnd(weekStart));
 
-    let unsubscribe: () => void;
+    const unsubscribe = repository.subscribeToEntriesInRange(weekStartStr, weekEndStr, (newEntries) => {
+      setEntries(newEntries);
+      // Keeps the index current with changes made elsewhere to the week on screen
+      setEntryIndex((prev) => replaceIndexedRange(prev, weekStartStr, weekEndStr, newEntries));
+    });
 
-    if (isUsingLocalStorage) {
-      unsubscribe = subscribeToEntriesForWeekLocal(weekStartStr, weekEndStr, (newEntries) => {
-        setEntries(newEntries);
-      });
-    } else if (isViewingFriend && viewingUserId) {
-      // For friends, we get all entries and filter
-      unsubscribe = subscribeToFriendEntries(viewingUserId, (allFriendEntries) => {
-        const weekEntries = allFriendEntries.filter(
-          e => e.date >= weekStartStr && e.date <= weekEndStr
-        );
-        setEntries(weekEntries);
-      });
-    } else if (currentUserId) {
-      unsubscribe = subscribeToEntriesForWeek(currentUserId, weekStartStr, weekEndStr, (newEntries) => {
-        setEntries(newEntries);
-      });
-    } else {
-      setEntries([]);
-      unsubscribe = () => {};
-    }
+    return () => unsubscribe();
+  }, [weekStart, repository]);
 
+  useEffect(() => {
+    const unsubscribe = repository.subscribeToJournal(setJournal);
     return () => unsubscribe();
-  }, [weekStart, isUsingLocalStorage, currentUserId, viewingUserId, isViewingFriend]);
+  }, [repository]);
 
-  // Load all entries for streak calculations
-  const loadAllEntries = useCallback(async () => {
-    try {
-      let fetchedEntries: DailyEntry[];
-      
-      if (isUsingLocalStorage) {
-        fetchedEntries = await getAllEntriesLocal();
-      } else if (isViewingFriend && viewingUserId) {
-        fetchedEntries = await getFriendEntries(viewingUserId);
-      } else if (currentUserId) {
-        fetchedEntries = await getAllEntries(currentUserId);
-      } else {
-        fetchedEntries = [];
-      }
-      
-      setAllEntries(fetchedEntries);
-    } catch (err) {
-      console.error('Failed to load all entries:', err);
-    }
-  }, [isUsingLocalStorage, currentUserId, viewingUserId, isViewingFriend]);
+  // Track queued offline writes (only synced backends report them)
+  useEffect(() => {
+    if (!repository.subscribeToPendingWrites) return;
+    const unsubscribe = repository.subscribeToPendingWrites(setPendingSyncCount);
+    return () => {
+      unsubscribe();
+      setPendingSyncCount(0);
+    };
+  }, [repository]);
 
   useEffect(() => {
-    loadAllEntries();
-  }, [loadAllEntries]);
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => subscribeToConflictLog(setConflicts), []);
+
+  useEffect(() => subscribeToRunningTimers(setRunningTimers), []);
+  useEffect(() => subscribeToEditWindow(setEditWindowState), []);
+
+  // After sign-in, offer to upload habits that were tracked on this device without an account
+  useEffect(() => {
+    if (!isFirebaseConfigured || !currentUserId) return;
+    if (localStorage.getItem(LOCAL_MIGRATION_KEY_PREFIX + currentUserId)) return;
+
+    let cancelled = false;
+    const device = createDeviceRepository();
+    Promise.all([device.getAllHabits(), device.getAllEntries(), device.getJournal()])
+      .then(([localHabits, localEntries, localJournal]) => {
+        if (!cancelled && localHabits.length > 0) {
+          setLocalDataToMigrate({ habits: localHabits, entries: localEntries, journal: localJournal });
+        }
+      })
+      .catch((err) => console.error('Failed to read local data:', err));
+
+    return () => {
+      cancelled = true;
+      setLocalDataToMigrate(null);
+    };
+  }, [currentUserId]);
 
   // Navigation
   const goToPreviousWeek = useCallback(() => {
@@ -225,25 +403,25 @@ export function HabitProvider({ children }: { children: React.ReactNode }) {
         name: data.name,
         type: data.type,
         weeklyGoal: data.weeklyGoal,
+        goalPeriod: data.goalPeriod,
+        schedule: data.schedule,
         unit: data.unit,
+        quickAmount: data.quickAmount,
+        completionThreshold: data.completionThreshold,
         color: data.color || HABIT_COLORS[habits.length % HABIT_COLORS.length],
         icon: data.icon,
         createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
         archived: false,
         order: habits.length,
       };
       
-      if (isUsingLocalStorage) {
-        await createHabitLocal(newHabit);
-        triggerLocalRefresh();
-      } else if (currentUserId) {
-        await createHabit(currentUserId, newHabit);
-      }
+      await repository.createHabit(newHabit);
     } catch (err) {
       setError('Failed to create habit');
       throw err;
     }
-  }, [habits.length, isUsingLocalStorage, currentUserId, isViewingFriend]);
+  }, [habits.length, repository, isViewingFriend]);
 
   const editHabit = useCallback(async (habitId: string, data: Partial<HabitFormData>) => {
     if (isViewingFriend) {
@@ -251,17 +429,16 @@ export function HabitProvider({ children }: { children: React.ReactNode }) {
     }
     
     try {
-      if (isUsingLocalStorage) {
-        await updateHabitLocal(habitId, data);
-        triggerLocalRefresh();
-      } else if (currentUserId) {
-        await updateHabit(currentUserId, habitId, data);
-      }
+      // Goal changes apply from today; earlier days keep the goal they had
+      const habit = habits.find(h => h.id === habitId);
+      const goalHistory = habit ? getUpdatedGoalHistory(habit, data) : undefined;
+      const updatedAt = new Date().toISOString();
+      await repository.updateHabit(habitId, goalHistory ? { ...data, goalHistory, updatedAt } : { ...data, updatedAt });
     } catch (err) {
       setError('Failed to update habit');
       throw err;
     }
-  }, [isUsingLocalStorage, currentUserId, isViewingFriend]);
+  }, [habits, repository, isViewingFriend]);
 
   const removeHabit = useCallback(async (habitId: string) => {
     if (isViewingFriend) {
@@ -269,17 +446,67 @@ export function HabitProvider({ children }: { children: React.ReactNode }) {
     }
     
     try {
-      if (isUsingLocalStorage) {
-        await deleteHabitLocal(habitId);
-        triggerLocalRefresh();
-      } else if (currentUserId) {
-        await deleteHabit(currentUserId, habitId);
-      }
+      const now = new Date().toISOString();
+      await repository.updateHabit(habitId, { deletedAt: now, updatedAt: now });
+    } catch (err) {
+      setError('Failed to delete habit');
+      throw err;
+    }
+  }, [repository, isViewingFriend]);
+
+  const restoreDeletedHabit = useCallback(async (habitId: string) => {
+    if (isViewingFriend) {
+      throw new Error("Cannot edit a friend's habits");
+    }
+
+    try {
+      await repository.updateHabit(habitId, { deletedAt: null, updatedAt: new Date().toISOString() });
+    } catch (err) {
+      setError('Failed to restore habit');
+      throw err;
+    }
+  }, [repository, isViewingFriend]);
+
+  const purgeHabit = useCallback(async (habitId: string) => {
+    if (isViewingFriend) {
+      throw new Error("Cannot delete a friend's habits");
+    }
+
+    try {
+      await repository.deleteHabit(habitId);
     } catch (err) {
       setError('Failed to delete habit');
       throw err;
     }
-  }, [isUsingLocalStorage, currentUserId, isViewingFriend]);
+  }, [repository, isViewingFriend]);
+
+  // Archiving hides a habit but keeps its entries in stats; removeHabit trashes them
+  const archiveHabit = useCallback(async (habitId: string) => {
+    if (isViewingFriend) {
+      throw new Error("Cannot edit a friend's habits");
+    }
+
+    try {
+      const now = new Date().toISOString();
+      await repository.updateHabit(habitId, { archived: true, archivedAt: now, updatedAt: now });
+    } catch (err) {
+      setError('Failed to archive habit');
+      throw err;
+    }
+  }, [repository, isViewingFriend]);
+
+  const restoreHabit = useCallback(async (habitId: string) => {
+    if (isViewingFriend) {
+      throw new Error("Cannot edit a friend's habits");
+    }
+
+    try {
+      await repository.updateHabit(habitId, { archived: false, archivedAt: null, updatedAt: new Date().toISOString() });
+    } catch (err) {
+      setError('Failed to restore habit');
+      throw err;
+    }
+  }, [repository, isViewingFriend]);
 
   // Entry operations (blocked when viewing friend)
   const updateEntry = useCallback(async (habitId: string, date: string, value: number) => {
@@ -288,38 +515,257 @@ export function HabitProvider({ children }: { children: React.ReactNode }) {
     }
     
     try {
-      // Find the habit to capture the current daily goal
+      if (!isDateEditable(date, editWindow)) {
+        throw new Error(`${date} is outside the edit window`);
+      }
+      // Find the habit to capture the current daily goal and threshold
       const habit = habits.find(h => h.id === habitId);
-      const targetAtEntry = habit ? (habit.type === 'binary' ? 1 : habit.weeklyGoal / 7) : undefined;
+      const existing = getIndexedEntry(entryIndex, habitId, date);
+      const now = new Date().toISOString();
+      // A day with an event log is corrected by logging the difference, never rewritten
+      const logged = existing?.events
+        ? appendEntryEvent(existing, {
+          id: uuidv4(),
+          time: new Date().toISOString(),
+          amount: value - sumEvents(existing.events),
+          note: 'Corrected total',
+        })
+        : { value };
       
+      // Keep the timer sessions, note and skip reason, even if the total is corrected by hand
       const entry: DailyEntry = {
-        id: `${habitId}_${date}`,
-        habitId,
-        date,
-        value,
-        targetAtEntry,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+        ...(existing ?? { id: `${habitId}_${date}`, habitId, date, createdAt: now }),
+        ...logged,
+        ...(habit ? getEntryTargets(habit, date) : {}),
+        updatedAt: now,
       };
       
-      if (isUsingLocalStorage) {
-        await upsertEntryLocal(entry);
-        triggerLocalRefresh();
-      } else if (currentUserId) {
-        await upsertEntry(currentUserId, entry);
-      }
-      
-      await loadAllEntries();
+      const stored = withEditAudit(existing, entry, editWindow);
+      await repository.upsertEntry(stored);
+      setEntryIndex((prev) => upsertIndexedEntries(prev, [stored]));
     } catch (err) {
       setError('Failed to update entry');
       throw err;
     }
-  }, [habits, loadAllEntries, isUsingLocalStorage, currentUserId, isViewingFriend]);
+  }, [habits, entryIndex, editWindow, repository, isViewingFriend]);
 
   const getEntryValue = useCallback((habitId: string, date: string): number => {
-    const entry = entries.find((e) => e.habitId === habitId && e.date === date);
-    return entry?.value || 0;
-  }, [entries]);
+    return getIndexedEntry(entryIndex, habitId, date)?.value || 0;
+  }, [entryIndex]);
+
+  // Append an amount to the day's event log; the entry's value becomes the log's sum
+  const logEvent = useCallback(async (habitId: string, date: string, amount: number, note?: string) => {
+    if (isViewingFriend) {
+      throw new Error("Cannot edit a friend's entries");
+    }
+
+    try {
+      if (!isDateEditable(date, editWindow)) {
+        throw new Error(`${date} is outside the edit window`);
+      }
+      const habit = habits.find(h => h.id === habitId);
+      const existing = getIndexedEntry(entryIndex, habitId, date);
+      const now = new Date().toISOString();
+      // Keep the sessions, note and skip reason; only the log and its sum change
+      const entry: DailyEntry = {
+        ...(existing ?? { id: `${habitId}_${date}`, habitId, date, createdAt: now }),
+        ...appendEntryEvent(existing, { id: uuidv4(), time: now, amount, ...(note ? { note } : {}) }),
+        ...(habit ? getEntryTargets(habit, date) : {}),
+        updatedAt: now,
+      };
+
+      const stored = withEditAudit(existing, entry, editWindow);
+      await repository.upsertEntry(stored);
+      setEntryIndex((prev) => upsertIndexedEntries(prev, [stored]));
+    } catch (err) {
+      setError('Failed to log entry');
+      throw err;
+    }
+  }, [habits, entryIndex, editWindow, repository, isViewingFriend]);
+
+  // Set or clear the note on a day's entry without touching its value
+  const updateEntryNote = useCallback(async (habitId: string, date: string, note: string) => {
+    if (isViewingFriend) {
+      throw new Error("Cannot edit a friend's entries");
+    }
+
+    try {
+      if (!isDateEditable(date, editWindow)) {
+        throw new Error(`${date} is outside the edit window`);
+      }
+      const habit = habits.find(h => h.id === habitId);
+      const existing = getIndexedEntry(entryIndex, habitId, date);
+      const now = new Date().toISOString();
+      const entry: DailyEntry = {
+        ...(existing ?? {
+          id: `${habitId}_${date}`,
+          habitId,
+          date,
+          value: 0,
+          ...(habit ? getEntryTargets(habit, date) : {}),
+          createdAt: now,
+        }),
+        updatedAt: now,
+      };
+      // Firestore rejects undefined fields, so a cleared note is dropped rather than unset
+      const trimmed = note.trim();
+      if (trimmed) {
+        entry.note = trimmed;
+      } else {
+        delete entry.note;
+      }
+
+      const stored = withEditAudit(existing, entry, editWindow);
+      await repository.upsertEntry(stored);
+      setEntryIndex((prev) => upsertIndexedEntries(prev, [stored]));
+    } catch (err) {
+      setError('Failed to save note');
+      throw err;
+    }
+  }, [habits, entryIndex, editWindow, repository, isViewingFriend]);
+
+  // Mark a day as skipped on purpose (neutral for streaks and stats), or un-skip it
+  const skipDay = useCallback(async (habitId: string, date: string, reason: string | null) => {
+    if (isViewingFriend) {
+      throw new Error("Cannot edit a friend's entries");
+    }
+
+    try {
+      if (!isDateEditable(date, editWindow)) {
+        throw new Error(`${date} is outside the edit window`);
+      }
+      const habit = habits.find(h => h.id === habitId);
+      const existing = getIndexedEntry(entryIndex, habitId, date);
+      const now = new Date().toISOString();
+      const entry: DailyEntry = {
+        ...(existing ?? {
+          id: `${habitId}_${date}`,
+          habitId,
+          date,
+          value: 0,
+          ...(habit ? getEntryTargets(habit, date) : {}),
+          createdAt: now,
+        }),
+        updatedAt: now,
+      };
+      const trimmed = reason?.trim();
+      if (trimmed) {
+        entry.skipReason = trimmed;
+      } else {
+        delete entry.skipReason;
+      }
+
+      const stored = withEditAudit(existing, entry, editWindow);
+      await repository.upsertEntry(stored);
+      setEntryIndex((prev) => upsertIndexedEntries(prev, [stored]));
+    } catch (err) {
+      setError('Failed to skip day');
+      throw err;
+    }
+  }, [habits, entryIndex, editWindow, repository, isViewingFriend]);
+
+  const saveJournal = useCallback(async (date: string, data: Pick<DayJournal, 'mood' | 'tags' | 'note' | 'vacation' | 'frozen'>) => {
+    if (isViewingFriend) {
+      throw new Error("Cannot edit a friend's journal");
+    }
+
+    try {
+      const existing = journal.find(j => j.date === date);
+      const now = new Date().toISOString();
+      // Flags left out keep their stored value; Firestore rejects undefined, so unset ones are dropped
+      const vacation = data.vacation ?? existing?.vacation;
+      const frozen = data.frozen ?? existing?.frozen;
+      if (frozen && !existing?.frozen && !canFreezeDay([...habits, ...archivedHabits], entryIndex, journal, date)) {
+        throw new Error(`No streak freeze available for ${date}`);
+      }
+      await repository.upsertJournal({
+        id: date,
+        date,
+        mood: data.mood,
+        tags: data.tags,
+        note: data.note.trim(),
+        ...(vacation ? { vacation } : {}),
+        ...(frozen ? { frozen } : {}),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      });
+    } catch (err) {
+      setError('Failed to save journal');
+      throw err;
+    }
+  }, [habits, archivedHabits, entryIndex, journal, repository, isViewingFriend]);
+
+  // Mark or clear every day from start to end as a vacation day
+  const setVacation = useCallback(async (start: string, end: string, onVacation: boolean) => {
+    if (isViewingFriend) {
+      throw new Error("Cannot edit a friend's journal");
+    }
+
+    try {
+      const now = new Date().toISOString();
+      const days: DayJournal[] = [];
+      for (const day of eachDayOfInterval({ start: parseISO(start), end: parseISO(end) })) {
+        const date = formatDate(day);
+        const existing = journal.find(j => j.date === date);
+        if (!existing && !onVacation) continue;
+        days.push({
+          ...(existing ?? { id: date, date, mood: null, tags: [], note: '', createdAt: now }),
+          vacation: onVacation,
+          updatedAt: now,
+        });
+      }
+      await repository.upsertJournals(days);
+    } catch (err) {
+      setError('Failed to save vacation');
+      throw err;
+    }
+  }, [journal, repository, isViewingFriend]);
+
+  const startTimer = useCallback((habitId: string) => {
+    if (isViewingFriend) {
+      throw new Error("Cannot start a friend's timer");
+    }
+    startRunningTimer(habitId);
+  }, [isViewingFriend]);
+
+  // Add the finished run to each day it covered, as minutes plus the session itself
+  const stopTimer = useCallback(async (habitId: string) => {
+    if (isViewingFriend) {
+      throw new Error("Cannot stop a friend's timer");
+    }
+
+    const startedAt = stopRunningTimer(habitId);
+    const habit = habits.find(h => h.id === habitId);
+    if (!startedAt || !habit) return;
+
+    try {
+      const written: DailyEntry[] = [];
+      // A run left going for days only credits the days still open for editing
+      const pieces = splitSessionByDay(parseISO(startedAt), new Date()).filter(({ date }) => isDateEditable(date, editWindow));
+      for (const { date, session, minutes } of pieces) {
+        const existing = getIndexedEntry(entryIndex, habitId, date);
+        const now = new Date().toISOString();
+        const amount = Math.round(minutes * 100) / 100;
+        // A day with an event log gets the run as one more event, so its value stays the log's sum
+        const logged = existing?.events
+          ? appendEntryEvent(existing, { id: uuidv4(), time: session.end, amount, note: 'Timer' })
+          : { value: Math.round(((existing?.value || 0) + minutes) * 100) / 100 };
+        const entry: DailyEntry = {
+          ...(existing ?? { id: `${habitId}_${date}`, habitId, date, createdAt: now }),
+          ...logged,
+          ...getEntryTargets(habit, date),
+          sessions: [...(existing?.sessions || []), session],
+          updatedAt: now,
+        };
+        written.push(withEditAudit(existing, entry, editWindow));
+      }
+      await repository.upsertEntries(written);
+      setEntryIndex((prev) => upsertIndexedEntries(prev, written));
+    } catch (err) {
+      setError('Failed to save timer');
+      throw err;
+    }
+  }, [habits, entryIndex, editWindow, repository, isViewingFriend]);
 
   // Bulk operations
   const resetCurrentWeek = useCallback(async () => {
@@ -329,72 +775,66 @@ export function HabitProvider({ children }: { children: React.ReactNode }) {
       const weekStartStr = formatDate(weekStart);
       const weekEndStr = formatDate(getWeekEnd(weekStart));
       
-      if (isUsingLocalStorage) {
-        await resetWeekDataLocal(weekStartStr, weekEndStr);
-        triggerLocalRefresh();
-      } else if (currentUserId) {
-        await resetWeekData(currentUserId, weekStartStr, weekEndStr);
-      }
+      await repository.resetWeek(weekStartStr, weekEndStr);
     } catch (err) {
       setError('Failed to reset week');
       throw err;
     }
-  }, [weekStart, isUsingLocalStorage, currentUserId, isViewingFriend]);
+  }, [weekStart, repository, isViewingFriend]);
+
+  const getAllHabits = useCallback(() => repository.getAllHabits(), [repository]);
 
-  const importFromJSON = useCallback(async (jsonString: string) => {
+  // Validate a file and compare it with stored data, without writing anything
+  const previewImport = useCallback(async (jsonString: string) => {
+    const data = JSON.parse(jsonString);
+    const [existingHabits, existingEntries] = await Promise.all([
+      repository.getAllHabits(),
+      repository.getAllEntries(),
+    ]);
+    return previewImportData(data, existingHabits, existingEntries);
+  }, [repository]);
+
+  const importFromJSON = useCallback(async (jsonString: string, { validOnly = false } = {}) => {
     if (isViewingFriend) return;
     
     try {
-      const data = JSON.parse(jsonString);
-      if (data.habits && data.entries) {
-        if (isUsingLocalStorage) {
-          await importDataLocal(data.habits, data.entries);
-          triggerLocalRefresh();
-        } else if (currentUserId) {
-          await importData(currentUserId, data.habits, data.entries);
-        }
-        await loadAllEntries();
-      } else {
-        throw new Error('Invalid import format');
+      const preview = await previewImport(jsonString);
+      const fileIssue = preview.issues.find(issue => issue.record === 'file');
+      if (fileIssue) {
+        throw new Error(fileIssue.message);
+      }
+      if (preview.issues.length > 0 && !validOnly) {
+        throw new Error(`${preview.issues.length} invalid record${preview.issues.length !== 1 ? 's' : ''} in file`);
       }
+      
+      await repository.importData(preview.habits, preview.entries, preview.journal);
     } catch (err) {
       setError('Failed to import data');
       throw err;
     }
-  }, [loadAllEntries, isUsingLocalStorage, currentUserId, isViewingFriend]);
+  }, [previewImport, repository, isViewingFriend]);
 
   const clearAllData = useCallback(async () => {
     if (isViewingFriend) return;
     
     try {
-      if (isUsingLocalStorage) {
-        await deleteAllHabitsLocal();
-        triggerLocalRefresh();
-      } else if (currentUserId) {
-        await deleteAllHabits(currentUserId);
-      }
+      await repository.deleteAllHabits();
     } catch (err) {
       setError('Failed to clear data');
       throw err;
     }
-  }, [isUsingLocalStorage, currentUserId, isViewingFriend]);
+  }, [repository, isViewingFriend]);
 
   const clearAllEntries = useCallback(async () => {
     if (isViewingFriend) return;
     
     try {
-      if (isUsingLocalStorage) {
-        await deleteAllEntriesLocal();
-        triggerLocalRefresh();
-      } else if (currentUserId) {
-        await deleteAllEntries(currentUserId);
-      }
-      await loadAllEntries();
+      await repository.deleteAllEntries();
     } catch (err) {
       setError('Failed to clear entries');
       throw err;
     }
-  }, [isUsingLocalStorage, currentUserId, loadAllEntries, isViewingFriend]);
+  }, [repository, isViewingFriend]);
 
   const generateFakeData = useCallback(async (months: number) => {
     if (isViewingFriend) return;
@@ -403,17 +843,24 @@ export function HabitProvider({ children }: { children: React.ReactNode }) {
       const today = new Date();
       const startDate = subDays(today, months * 30);
       const days = eachDayOfInterval({ start: startDate, end: today });
+      const generated: DailyEntry[] = [];
 
       for (const habit of habits) {
         for (const day of days) {
+          // Leave rest days empty for habits on fixed weekdays
+          if (habit.schedule.type === 'weekdays' && !habit.schedule.days.includes(day.getDay())) continue;
+
           const dateStr = formatDate(day);
-          const dailyGoal = habit.weeklyGoal / 7;
+          const dailyGoal = getScheduledDailyGoal(habit, day);
           
           const completionChance = Math.random();
           let value = 0;
 
           if (habit.type === 'binary') {
             value = completionChance > 0.3 ? 1 : 0;
+          } else if (habit.type === 'limit') {
+            // Mostly under the limit, occasionally over it
+            value = Math.round(dailyGoal * (completionChance > 0.2 ? Math.random() : 1 + Math.random() * 0.5));
           } else {
             if (completionChance > 0.3) {
               const variance = 0.8 + Math.random() * 0.4;
@@ -424,44 +871,80 @@ export function HabitProvider({ children }: { children: React.ReactNode }) {
           }
 
           if (value > 0) {
-            const targetAtEntry = habit.type === 'binary' ? 1 : dailyGoal;
-            const entry: DailyEntry = {
+            generated.push({
               id: `${habit.id}_${dateStr}`,
               habitId: habit.id,
               date: dateStr,
               value,
-              targetAtEntry,
+              ...getEntryTargets(habit, dateStr),
               createdAt: new Date().toISOString(),
               updatedAt: new Date().toISOString(),
-            };
-
-            if (isUsingLocalStorage) {
-              await upsertEntryLocal(entry);
-            } else if (currentUserId) {
-              await upsertEntry(currentUserId, entry);
-            }
+            });
           }
         }
       }
 
-      if (isUsingLocalStorage) {
-        triggerLocalRefresh();
-      }
-      await loadAllEntries();
+      await repository.upsertEntries(generated);
     } catch (err) {
       setError('Failed to generate fake data');
       throw err;
     }
-  }, [habits, isUsingLocalStorage, currentUserId, loadAllEntries, isViewingFriend]);
+  }, [habits, repository, isViewingFriend]);
+
+  const migrateLocalData = useCallback(async (keepLocalCopy: boolean) => {
+    if (!localDataToMigrate || !currentUserId || isViewingFriend) return;
+    
+    try {
+      // Read the cloud habits rather than state, which may not have loaded yet
+      const cloudHabits = new Map((await repository.getAllHabits()).map(h => [h.id, h]));
+      // Habits already in the cloud keep whichever side changed last; new ones go after them
+      let nextOrder = cloudHabits.size;
+      const habitsToUpload = localDataToMigrate.habits.flatMap(habit => {
+        const cloudHabit = cloudHabits.get(habit.id);
+        if (!cloudHabit) return [{ ...habit, order: nextOrder++ }];
+        return resolveHabit(cloudHabit, habit).changed ? [habit] : [];
+      });
+      
+      await repository.importData(habitsToUpload, localDataToMigrate.entries, localDataToMigrate.journal);
+      
+      if (!keepLocalCopy) {
+        await createDeviceRepository().deleteAllHabits();
+      }
+      
+      localStorage.setItem(LOCAL_MIGRATION_KEY_PREFIX + currentUserId, new Date().toISOString());
+      setLocalDataToMigrate(null);
+    } catch (err) {
+      setError('Failed to upload local data');
+      throw err;
+    }
+  }, [localDataToMigrate, currentUserId, isViewingFriend, repository]);
+
+  const dismissLocalMigration = useCallback(() => {
+    if (currentUserId) {
+      localStorage.setItem(LOCAL_MIGRATION_KEY_PREFIX + currentUserId, 'skipped');
+    }
+    setLocalDataToMigrate(null);
+  }, [currentUserId]);
+
+  // Re-apply the discarded value as a fresh edit so it wins on every device
+  const restoreConflict = useCallback(async (conflict: EntryConflict) => {
+    await updateEntry(conflict.habitId, conflict.date, conflict.discardedValue);
+    dismissLoggedConflict(conflict.id);
+  }, [updateEntry]);
 
   const value: HabitContextType = {
     habits,
+    archivedHabits,
+    trashedHabits,
     entries,
-    allEntries,
+    entryIndex,
+    journal,
     weekStart,
     isLoading,
     error,
     isUsingLocalStorage,
+    pendingSyncCount,
+    isOnline,
     currentUserId,
     viewingUserId,
     isViewingFriend,
@@ -473,14 +956,39 @@ export function HabitProvider({ children }: { children: React.ReactNode }) {
     addHabit,
     editHabit,
     removeHabit,
+    restoreDeletedHabit,
+    purgeHabit,
+    archiveHabit,
+    restoreHabit,
     updateEntry,
+    logEvent,
+    updateEntryNote,
+    skipDay,
     getEntryValue,
+    loadEntriesFrom,
+    getBestStreak,
+    recordBestStreaks,
+    saveJournal,
+    setVacation,
+    runningTimers,
+    startTimer,
+    stopTimer,
+    editWindow,
+    setEditWindow: saveEditWindow,
     resetCurrentWeek,
+    getAllHabits,
+    previewImport,
     importFromJSON,
-    loadAllEntries,
     clearAllData,
     clearAllEntries,
     generateFakeData,
+    localDataToMigrate,
+    migrateLocalData,
+    dismissLocalMigration,
+    conflicts,
+    restoreConflict,
+    dismissConflict: dismissLoggedConflict,
+    clearConflicts: clearConflictLog,
     setCurrentUserId,
   };
 
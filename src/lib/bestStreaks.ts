@@ -0,0 +1,56 @@
+const BEST_STREAKS_KEY = 'habit-diary-best-streaks';
+
+// Best streak by habit id, plus OVERALL_STREAK_ID for all habits together
+export type BestStreaks = Record<string, number>;
+
+export const OVERALL_STREAK_ID = 'overall';
+
+// ============ BEST STREAKS ============
+
+// Recorded per device whenever all history was loaded, so views showing best
+// streaks don't need to load it again. Kept per account ('local' without one).
+const streakTarget = new EventTarget();
+
+function getAllBestStreaks(): Record<string, BestStreaks> {
+  try {
+    const data = localStorage.getItem(BEST_STREAKS_KEY);
+    if (data) {
+      return JSON.parse(data);
+    }
+  } catch (error) {
+    console.error('Error reading best streaks:', error);
+  }
+  return {};
+}
+
+export function getBestStreaks(owner: string): BestStreaks {
+  return getAllBestStreaks()[owner] ?? {};
+}
+
+export function saveBestStreaks(owner: string, streaks: BestStreaks): void {
+  const all = getAllBestStreaks();
+  const current = all[owner] ?? {};
+  if (Object.entries(streaks).every(([id, streak]) => current[id] === streak)) return;
+
+  try {
+    localStorage.setItem(BEST_STREAKS_KEY, JSON.stringify({ ...all, [owner]: { ...current, ...streaks } }));
+  } catch (error) {
+    console.error('Error writing best streaks:', error);
+  }
+  streakTarget.dispatchEvent(new Event('change'));
+}
+
+export function subscribeToBestStreaks(owner: string, callback: (streaks: BestStreaks) => void): () => void {
+  const refresh = () => callback(getBestStreaks(owner));
+  const handleStorageChange = (e: StorageEvent) => {
+    if (e.key === BEST_STREAKS_KEY) refresh();
+  };
+
+  refresh();
+  streakTarget.addEventListener('change', refresh);
+  window.addEventListener('storage', handleStorageChange);
+  return () => {
+    streakTarget.removeEventListener('change', refresh);
+    window.removeEventListener('storage', handleStorageChange);
+  };
+}
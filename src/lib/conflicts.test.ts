@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import type { Habit, DailyEntry, DayJournal } from '../types';
+import { resolveEntry, resolveEntries, resolveJournal, resolveHabit } from './conflicts';
+
+function entry(overrides: Partial<DailyEntry> = {}): DailyEntry {
+  return {
+    id: 'h1_2026-01-05',
+    habitId: 'h1',
+    date: '2026-01-05',
+    value: 1,
+    createdAt: '2026-01-05T08:00:00.000Z',
+    updatedAt: '2026-01-05T08:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function habit(overrides: Partial<Habit> = {}): Habit {
+  return {
+    id: 'h1',
+    name: 'Water',
+    type: 'numeric',
+    weeklyGoal: 14,
+    goalPeriod: { type: 'week' },
+    schedule: { type: 'daily' },
+    unit: 'liters',
+    color: '#3b82f6',
+    icon: '💧',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    archived: false,
+    order: 0,
+    ...overrides,
+  };
+}
+
+describe('resolveEntry', () => {
+  it('takes the newer write', () => {
+    const existing = entry({ value: 1 });
+    const incoming = entry({ value: 3, updatedAt: '2026-01-05T09:00:00.000Z' });
+    const result = resolveEntry(existing, incoming, 'sync');
+    expect(result.changed).toBe(true);
+    expect(result.entry.value).toBe(3);
+    expect(result.entry.createdAt).toBe(existing.createdAt);
+    expect(result.conflict).toBeNull();
+  });
+
+  it('keeps the newer stored entry and reports the lost value', () => {
+    const existing = entry({ value: 4, updatedAt: '2026-01-05T10:00:00.000Z' });
+    const incoming = entry({ value: 2, updatedAt: '2026-01-05T09:00:00.000Z' });
+    const result = resolveEntry(existing, incoming, 'import');
+    expect(result.changed).toBe(false);
+    expect(result.entry).toBe(existing);
+    expect(result.conflict).toMatchObject({ keptValue: 4, discardedValue: 2, source: 'import' });
+  });
+
+  it('does not report a conflict when the losing write has the same value', () => {
+    const existing = entry({ updatedAt: '2026-01-05T10:00:00.000Z' });
+    const result = resolveEntry(existing, entry(), 'sync');
+    expect(result.changed).toBe(false);
+    expect(result.conflict).toBeNull();
+  });
+
+  it('breaks timestamp ties on the higher value', () => {
+    expect(resolveEntry(entry({ value: 2 }), entry({ value: 5 }), 'sync').entry.value).toBe(5);
+    expect(resolveEntry(entry({ value: 5 }), entry({ value: 2 }), 'sync').entry.value).toBe(5);
+  });
+
+  it('merges event logs from both sides', () => {
+    const existing = entry({
+      value: 2,
+      events: [{ id: 'a', time: '2026-01-05T08:00:00.000Z', amount: 2 }],
+    });
+    const incoming = entry({
+      value: 3,
+      updatedAt: '2026-01-05T07:00:00.000Z',
+      events: [{ id: 'b', time: '2026-01-05T07:00:00.000Z', amount: 3 }],
+    });
+    const result = resolveEntry(existing, incoming, 'sync');
+    expect(result.changed).toBe(true);
+    expect(result.entry.events?.map((e) => e.id)).toEqual(['b', 'a']);
+    expect(result.entry.value).toBe(5);
+    expect(result.entry.updatedAt).toBe(existing.updatedAt);
+  });
+
+  it('keeps the target snapshot when the newer write lacks one', () => {
+    const existing = entry({ targetAtEntry: 2 });
+    const incoming = entry({ value: 2, updatedAt: '2026-01-05T09:00:00.000Z' });
+    expect(resolveEntry(existing, incoming, 'sync').entry.targetAtEntry).toBe(2);
+  });
+});
+
+describe('resolveEntries', () => {
+  it('returns only the entries that need writing', () => {
+    const stored = entry({ value: 4, updatedAt: '2026-01-05T10:00:00.000Z' });
+    const fresh = entry({ id: 'h1_2026-01-06', date: '2026-01-06' });
+    const { entries, conflicts } = resolveEntries(
+      new Map([[stored.id, stored]]),
+      [entry({ value: 2 }), fresh],
+      'import'
+    );
+    expect(entries.map((e) => e.id)).toEqual([fresh.id]);
+    expect(conflicts).toHaveLength(1);
+  });
+});
+
+describe('resolveJournal', () => {
+  const day: DayJournal = {
+    id: '2026-01-05',
+    date: '2026-01-05',
+    mood: 3,
+    tags: [],
+    note: '',
+    createdAt: '2026-01-05T08:00:00.000Z',
+    updatedAt: '2026-01-05T08:00:00.000Z',
+  };
+
+  it('is last writer wins and keeps the original creation time', () => {
+    const incoming = { ...day, mood: 5, createdAt: '2026-01-05T09:00:00.000Z', updatedAt: '2026-01-05T09:00:00.000Z' };
+    const result = resolveJournal(day, incoming);
+    expect(result.changed).toBe(true);
+    expect(result.journal).toMatchObject({ mood: 5, createdAt: day.createdAt });
+  });
+
+  it('keeps the stored day on a tie', () => {
+    expect(resolveJournal(day, { ...day, mood: 1 })).toEqual({ journal: day, changed: false });
+  });
+});
+
+describe('resolveHabit', () => {
+  it('takes the more recently updated habit', () => {
+    const stored = habit({ updatedAt: '2026-01-03T00:00:00.000Z' });
+    const incoming = habit({ name: 'Tea', updatedAt: '2026-01-04T00:00:00.000Z' });
+    expect(resolveHabit(stored, incoming)).toEqual({ habit: incoming, changed: true });
+    expect(resolveHabit(incoming, stored)).toEqual({ habit: incoming, changed: false });
+  });
+
+  it('counts a habit without updatedAt from its creation', () => {
+    const stored = habit({ updatedAt: '2026-01-02T00:00:00.000Z' });
+    expect(resolveHabit(stored, habit({ name: 'Tea' })).changed).toBe(false);
+    expect(resolveHabit(habit(), habit({ name: 'Tea' })).changed).toBe(false);
+  });
+});
@@ -0,0 +1,241 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Habit, DailyEntry, DayJournal, EntryConflict, ConflictSource, EntryEvent, EntryRevision } from '../types';
+import { sumEvents } from './utils';
+
+const CONFLICT_LOG_KEY = 'habit-diary-conflicts';
+const MAX_LOGGED_CONFLICTS = 200;
+
+// ============ MERGE POLICY ============
+
+export interface EntryResolution {
+  entry: DailyEntry;
+  // Whether the incoming write replaced what was stored
+  changed: boolean;
+  conflict: EntryConflict | null;
+}
+
+function entryId(entry: DailyEntry): string {
+  return `${entry.habitId}_${entry.date}`;
+}
+
+// Older exports may lack timestamps; those lose to any timestamped version
+function writtenAt(entry: DailyEntry): string {
+  return entry.updatedAt ?? entry.createdAt ?? '';
+}
+
+// Union of two event logs by id, oldest first
+function mergeEvents(existing: EntryEvent[], incoming: EntryEvent[]): EntryEvent[] {
+  const byId = new Map(existing.map((e) => [e.id, e]));
+  for (const event of incoming) {
+    if (!byId.has(event.id)) byId.set(event.id, event);
+  }
+  return Array.from(byId.values()).sort((a, b) => a.time.localeCompare(b.time));
+}
+
+// Late-edit history and the backfill flag are kept from both sides
+function mergeAudit(existing: DailyEntry, incoming: DailyEntry): Pick<DailyEntry, 'loggedLate' | 'history'> {
+  const byKey = new Map<string, EntryRevision>();
+  for (const revision of [...(existing.history ?? []), ...(incoming.history ?? [])]) {
+    byKey.set(`${revision.changedAt}_${revision.before}_${revision.after}`, revision);
+  }
+  const history = Array.from(byKey.values()).sort((a, b) => a.changedAt.localeCompare(b.changedAt));
+  return {
+    ...(existing.loggedLate || incoming.loggedLate ? { loggedLate: true } : {}),
+    ...(history.length > 0 ? { history } : {}),
+  };
+}
+
+/**
+ * Merge an incoming write into the stored version of the same entry.
+ *
+ * Entries that both carry an event log are merged event by event, since
+ * events are only ever appended; the value is then the sum of the merged log
+ * and the remaining fields come from the newer write.
+ *
+ * Otherwise last writer wins on `updatedAt`. Equal timestamps keep the higher
+ * value so every device settles on the same result. When the incoming write
+ * loses and carries a different value, it is returned as a conflict for the log.
+ */
+export function resolveEntry(
+  existing: DailyEntry | undefined,
+  incoming: DailyEntry,
+  source: ConflictSource
+): EntryResolution {
+  const id = entryId(incoming);
+  if (!existing) {
+    return { entry: { ...incoming, id }, changed: true, conflict: null };
+  }
+
+  const incomingAt = writtenAt(incoming);
+  const existingAt = writtenAt(existing);
+
+  if (existing.events && incoming.events) {
+    const events = mergeEvents(existing.events, incoming.events);
+    // Everything besides the log (note, skip) follows the newer write
+    const newer = incomingAt > existingAt ? incoming : existing;
+    if (events.length === existing.events.length && newer === existing) {
+      return { entry: existing, changed: false, conflict: null };
+    }
+    return {
+      entry: {
+        ...newer,
+        id,
+        events,
+        value: sumEvents(events),
+        ...mergeAudit(existing, incoming),
+        updatedAt: incomingAt > existingAt ? incomingAt : existingAt,
+      },
+      changed: true,
+      conflict: null,
+    };
+  }
+  const incomingWins = incomingAt > existingAt
+    || (incomingAt === existingAt && incoming.value >= existing.value);
+
+  if (incomingWins) {
+    // The write replaces the entry, so a cleared note or skip stays cleared.
+    // Firestore rejects undefined fields, so only carry snapshots that are set.
+    const targetAtEntry = incoming.targetAtEntry ?? existing.targetAtEntry;
+    const thresholdAtEntry = incoming.thresholdAtEntry ?? existing.thresholdAtEntry;
+    return {
+      entry: {
+        ...incoming,
+        id,
+        // Preserve the historical target and original creation time
+        ...(targetAtEntry !== undefined ? { targetAtEntry } : {}),
+        ...(thresholdAtEntry !== undefined ? { thresholdAtEntry } : {}),
+        ...mergeAudit(existing, incoming),
+        createdAt: existing.createdAt ?? incoming.createdAt,
+      },
+      changed: true,
+      conflict: null,
+    };
+  }
+
+  const conflict: EntryConflict | null = incoming.value === existing.value ? null : {
+    id: uuidv4(),
+    entryId: id,
+    habitId: incoming.habitId,
+    date: incoming.date,
+    keptValue: existing.value,
+    keptUpdatedAt: existingAt,
+    discardedValue: incoming.value,
+    discardedUpdatedAt: incomingAt,
+    source,
+    detectedAt: new Date().toISOString(),
+  };
+  return { entry: existing, changed: false, conflict };
+}
+
+/**
+ * Journal days are plain last-writer-wins; a lost edit isn't logged as a conflict.
+ */
+export function resolveJournal(
+  existing: DayJournal | undefined,
+  incoming: DayJournal
+): { journal: DayJournal; changed: boolean } {
+  if (existing && existing.updatedAt >= incoming.updatedAt) {
+    return { journal: existing, changed: false };
+  }
+  return {
+    journal: { ...incoming, id: incoming.date, createdAt: existing?.createdAt ?? incoming.createdAt },
+    changed: true,
+  };
+}
+
+/**
+ * Habits are last-writer-wins too; one without a timestamp counts from its creation.
+ * Equal timestamps keep the stored habit.
+ */
+export function resolveHabit(
+  existing: Habit | undefined,
+  incoming: Habit
+): { habit: Habit; changed: boolean } {
+  if (existing && (existing.updatedAt ?? existing.createdAt) >= (incoming.updatedAt ?? incoming.createdAt)) {
+    return { habit: existing, changed: false };
+  }
+  return { habit: incoming, changed: true };
+}
+
+/**
+ * Resolve a batch of incoming entries against the stored ones, keyed by entry id.
+ * Returns only the entries that need writing.
+ */
+export function resolveEntries(
+  existing: Map<string, DailyEntry>,
+  incoming: DailyEntry[],
+  source: ConflictSource
+): { entries: DailyEntry[]; conflicts: EntryConflict[] } {
+  const resolved = new Map(existing);
+  const changedIds = new Set<string>();
+  const conflicts: EntryConflict[] = [];
+
+  for (const entry of incoming) {
+    const id = entryId(entry);
+    const result = resolveEntry(resolved.get(id), entry, source);
+    resolved.set(id, result.entry);
+    if (result.changed) changedIds.add(id);
+    if (result.conflict) conflicts.push(result.conflict);
+  }
+
+  return {
+    entries: Array.from(changedIds, (id) => resolved.get(id)!),
+    conflicts,
+  };
+}
+
+// ============ CONFLICT LOG ============
+
+// The log is kept per device; it records what this device saw being discarded
+const logTarget = new EventTarget();
+
+export function getConflictLog(): EntryConflict[] {
+  try {
+    const data = localStorage.getItem(CONFLICT_LOG_KEY);
+    if (data) {
+      return JSON.parse(data);
+    }
+  } catch (error) {
+    console.error('Error reading conflict log:', error);
+  }
+  return [];
+}
+
+function setConflictLog(conflicts: EntryConflict[]): void {
+  try {
+    localStorage.setItem(CONFLICT_LOG_KEY, JSON.stringify(conflicts));
+  } catch (error) {
+    // Losing the log must never fail the write that produced it
+    console.error('Error writing conflict log:', error);
+  }
+  logTarget.dispatchEvent(new Event('change'));
+}
+
+export function logConflicts(conflicts: EntryConflict[]): void {
+  if (conflicts.length === 0) return;
+  // Newest first, capped so the log can't grow without bound
+  setConflictLog([...[...conflicts].reverse(), ...getConflictLog()].slice(0, MAX_LOGGED_CONFLICTS));
+}
+
+export function dismissConflict(conflictId: string): void {
+  setConflictLog(getConflictLog().filter((c) => c.id !== conflictId));
+}
+
+export function clearConflictLog(): void {
+  setConflictLog([]);
+}
+
+export function subscribeToConflictLog(callback: (conflicts: EntryConflict[]) => void): () => void {
+  const refresh = () => callback(getConflictLog());
+  const handleStorageChange = (e: StorageEvent) => {
+    if (e.key === CONFLICT_LOG_KEY) refresh();
+  };
+
+  refresh();
+  logTarget.addEventListener('change', refresh);
+  window.addEventListener('storage', handleStorageChange);
+  return () => {
+    logTarget.removeEventListener('change', refresh);
+    window.removeEventListener('storage', handleStorageChange);
+  };
+}
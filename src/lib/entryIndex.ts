@@ -0,0 +1,136 @@
+import { parseISO, eachDayOfInterval } from 'date-fns';
+import type { DailyEntry } from '../types';
+import { formatDate, getWeekStart } from './utils';
+
+// ============ ENTRY INDEX ============
+
+/**
+ * Entries keyed for constant-time lookups by habit and day, with each habit's
+ * weekly totals kept alongside. Indexes are never mutated: updates return a
+ * new index that shares everything except the habits that changed.
+ */
+export interface EntryIndex {
+  byHabit: Map<string, Map<string, DailyEntry>>; // habitId -> date -> entry
+  weekTotals: Map<string, Map<string, number>>; // habitId -> week start -> summed value
+}
+
+function getWeekKey(date: string): string {
+  return formatDate(getWeekStart(parseISO(date)));
+}
+
+function addToWeekTotal(totals: Map<string, number>, date: string, amount: number): void {
+  const week = getWeekKey(date);
+  totals.set(week, (totals.get(week) ?? 0) + amount);
+}
+
+export function createEntryIndex(entries: DailyEntry[]): EntryIndex {
+  const byHabit = new Map<string, Map<string, DailyEntry>>();
+  const weekTotals = new Map<string, Map<string, number>>();
+  for (const entry of entries) {
+    if (!byHabit.has(entry.habitId)) {
+      byHabit.set(entry.habitId, new Map());
+      weekTotals.set(entry.habitId, new Map());
+    }
+    const previous = byHabit.get(entry.habitId)!.get(entry.date);
+    byHabit.get(entry.habitId)!.set(entry.date, entry);
+    addToWeekTotal(weekTotals.get(entry.habitId)!, entry.date, entry.value - (previous?.value ?? 0));
+  }
+  return { byHabit, weekTotals };
+}
+
+/**
+ * Applies a batch of changes, touching only the habits involved.
+ * `removed` lists entries (by habit and date) to drop from the index.
+ */
+function applyChanges(
+  index: EntryIndex,
+  written: DailyEntry[],
+  removed: Pick<DailyEntry, 'habitId' | 'date'>[] = []
+): EntryIndex {
+  if (written.length === 0 && removed.length === 0) return index;
+
+  const byHabit = new Map(index.byHabit);
+  const weekTotals = new Map(index.weekTotals);
+  const copied = new Set<string>();
+
+  // Copy a habit's maps the first time this batch changes it
+  const editable = (habitId: string) => {
+    if (!copied.has(habitId)) {
+      copied.add(habitId);
+      byHabit.set(habitId, new Map(index.byHabit.get(habitId)));
+      weekTotals.set(habitId, new Map(index.weekTotals.get(habitId)));
+    }
+    return { days: byHabit.get(habitId)!, totals: weekTotals.get(habitId)! };
+  };
+
+  for (const entry of written) {
+    const { days, totals } = editable(entry.habitId);
+    const previous = days.get(entry.date);
+    days.set(entry.date, entry);
+    addToWeekTotal(totals, entry.date, entry.value - (previous?.value ?? 0));
+  }
+  for (const { habitId, date } of removed) {
+    const previous = byHabit.get(habitId)?.get(date);
+    if (!previous) continue;
+    const { days, totals } = editable(habitId);
+    days.delete(date);
+    addToWeekTotal(totals, date, -previous.value);
+  }
+  return { byHabit, weekTotals };
+}
+
+/**
+ * Adds or replaces entries, e.g. right after they were written.
+ */
+export function upsertIndexedEntries(index: EntryIndex, entries: DailyEntry[]): EntryIndex {
+  return applyChanges(index, entries);
+}
+
+/**
+ * Makes the days from `start` (or the first day, when null) to `end`
+ * (inclusive) hold exactly `entries`, e.g. from a snapshot of one week.
+ */
+export function replaceIndexedRange(
+  index: EntryIndex,
+  start: string | null,
+  end: string,
+  entries: DailyEntry[]
+): EntryIndex {
+  const incoming = new Set(entries.map((e) => `${e.habitId}_${e.date}`));
+  // Look up a bounded range day by day rather than scanning every entry
+  const inRange = start === null
+    ? getAllIndexedEntries(index).filter((e) => e.date <= end)
+    : eachDayOfInterval({ start: parseISO(start), end: parseISO(end) }).flatMap((day) => {
+      const date = formatDate(day);
+      return Array.from(index.byHabit.values()).flatMap((days) => days.get(date) ?? []);
+    });
+  const removed = inRange.filter((e) => !incoming.has(`${e.habitId}_${e.date}`));
+  // Entries the snapshot didn't change are left as they are, so an unchanged week keeps the same index
+  const written = entries.filter((e) => getIndexedEntry(index, e.habitId, e.date)?.updatedAt !== e.updatedAt);
+  return applyChanges(index, written, removed);
+}
+
+export function getIndexedEntry(index: EntryIndex, habitId: string, date: string): DailyEntry | undefined {
+  return index.byHabit.get(habitId)?.get(date);
+}
+
+// Every entry in the index, built on first use and kept for as long as the index is
+const allEntries = new WeakMap<EntryIndex, DailyEntry[]>();
+
+export function getAllIndexedEntries(index: EntryIndex): DailyEntry[] {
+  let all = allEntries.get(index);
+  if (!all) {
+    all = Array.from(index.byHabit.values()).flatMap((days) => Array.from(days.values()));
+    allEntries.set(index, all);
+  }
+  return all;
+}
+
+export function getHabitEntries(index: EntryIndex, habitId: string): DailyEntry[] {
+  return Array.from(index.byHabit.get(habitId)?.values() ?? []);
+}
+
+// Total logged for a habit in the week starting on `weekStart` (a Monday ISO date)
+export function getWeekTotal(index: EntryIndex, habitId: string, weekStart: string): number {
+  return index.weekTotals.get(habitId)?.get(weekStart) ?? 0;
+}
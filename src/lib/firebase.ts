@@ -1,11 +1,14 @@
 import { initializeApp } from 'firebase/app';
 import { getAuth, GoogleAuthProvider } from 'firebase/auth';
 import {
-  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
   collection,
   doc,
   getDocs,
   getDoc,
+  getDocFromCache,
   setDoc,
   updateDoc,
   deleteDoc,
@@ -14,10 +17,18 @@ import {
   orderBy,
   onSnapshot,
   writeBatch,
+  runTransaction,
   serverTimestamp,
   Timestamp,
+  type WriteBatch,
+  type DocumentReference,
+  type WithFieldValue,
+  type FirestoreDataConverter,
+  type PartialWithFieldValue,
 } from 'firebase/firestore';
-import type { Habit, DailyEntry } from '../types';
+import type { Habit, DailyEntry, DayJournal } from '../types';
+import { resolveEntry, resolveEntries, resolveJournal, logConflicts } from './conflicts';
+import { SCHEMA_VERSION, migrateHabit, migrateEntry } from './migrations';
 
 // Firebase configuration
 const firebaseConfig = {
@@ -38,12 +49,15 @@ export const isFirebaseConfigured = Boolean(
 
 // Initialize Firebase only if configured
 let app: ReturnType<typeof initializeApp> | null = null;
-let db: ReturnType<typeof getFirestore> | null = null;
+let db: ReturnType<typeof initializeFirestore> | null = null;
 let auth: ReturnType<typeof getAuth> | null = null;
 
 if (isFirebaseConfigured) {
   app = initializeApp(firebaseConfig);
-  db = getFirestore(app);
+  // Persistent cache keeps previously loaded data readable while offline
+  db = initializeFirestore(app, {
+    localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+  });
   auth = getAuth(app);
 }
 
@@ -59,18 +73,55 @@ if (isFirebaseConfigured) {
 
 // ============ USER-SPECIFIC FIRESTORE OPERATIONS ============
 
+// Documents are written one at a time, so each carries its own schema version
+// and is upgraded to the current shape whenever it is read
+function versionedConverter<T>(
+  migrate: (record: object, fromVersion: unknown) => T
+): FirestoreDataConverter<T> {
+  return {
+    toFirestore: (data: PartialWithFieldValue<T>) => ({ ...(data as object), schemaVersion: SCHEMA_VERSION }),
+    fromFirestore: (snapshot, options) => {
+      const { schemaVersion, ...record } = snapshot.data(options);
+      return migrate({ ...record, id: snapshot.id }, schemaVersion);
+    },
+  };
+}
+
+const habitConverter = versionedConverter<Habit>(migrateHabit);
+const entryConverter = versionedConverter<DailyEntry>(migrateEntry);
+// The journal postdates every schema migration, so its records need no upgrading
+const journalConverter = versionedConverter<DayJournal>((record) => record as DayJournal);
+
 // Get user's habits collection reference
 const getUserHabitsRef = (userId: string) => {
   if (!db) throw new Error('Firebase not configured');
-  return collection(db, 'users', userId, 'habits');
+  return collection(db, 'users', userId, 'habits').withConverter(habitConverter);
 };
 
 // Get user's entries collection reference
 const getUserEntriesRef = (userId: string) => {
   if (!db) throw new Error('Firebase not configured');
-  return collection(db, 'users', userId, 'entries');
+  return collection(db, 'users', userId, 'entries').withConverter(entryConverter);
 };
 
+// Get user's journal collection reference (one document per day)
+const getUserJournalRef = (userId: string) => {
+  if (!db) throw new Error('Firebase not configured');
+  return collection(db, 'users', userId, 'journal').withConverter(journalConverter);
+};
+
+// Firestore batches are limited to 500 writes, so large jobs are split up
+const BATCH_LIMIT = 500;
+
+async function commitInChunks<T>(items: T[], write: (batch: WriteBatch, item: T) => void) {
+  if (!db) throw new Error('Firebase not configured');
+  for (let i = 0; i < items.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    items.slice(i, i + BATCH_LIMIT).forEach((item) => write(batch, item));
+    await batch.commit();
+  }
+}
+
 // ============ HABITS CRUD ============
 
 export function subscribeToHabits(userId: string, callback: (habits: Habit[]) => void) {
@@ -83,14 +134,18 @@ export function subscribeToHabits(userId: string, callback: (habits: Habit[]) =>
   const q = query(habitsRef, orderBy('order', 'asc'));
 
   return onSnapshot(q, (snapshot) => {
-    const habits: Habit[] = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    })) as Habit[];
+    const habits: Habit[] = snapshot.docs.map((doc) => doc.data());
     callback(habits);
   });
 }
 
+export async function getAllHabits(userId: string): Promise<Habit[]> {
+  if (!db) return [];
+  const q = query(getUserHabitsRef(userId), orderBy('order', 'asc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => doc.data());
+}
+
 export async function createHabit(userId: string, habit: Habit) {
   if (!db) throw new Error('Firebase not configured');
   const habitsRef = getUserHabitsRef(userId);
@@ -103,18 +158,24 @@ export async function updateHabit(userId: string, habitId: string, data: Partial
   await updateDoc(habitRef, data);
 }
 
+// Deletes the habit's entries too. The habit goes last, so a delete that fails
+// part-way leaves it in place to be retried rather than orphaning entries.
 export async function deleteHabit(userId: string, habitId: string) {
   if (!db) throw new Error('Firebase not configured');
+  const entriesSnapshot = await getDocs(query(getUserEntriesRef(userId), where('habitId', '==', habitId)));
+  await commitInChunks(entriesSnapshot.docs, (batch, d) => batch.delete(d.ref));
+
   const habitRef = doc(getUserHabitsRef(userId), habitId);
   await deleteDoc(habitRef);
 }
 
 // ============ ENTRIES CRUD ============
 
-export function subscribeToEntriesForWeek(
+// A null startDate covers everything up to endDate
+export function subscribeToEntriesInRange(
   userId: string,
-  weekStart: string,
-  weekEnd: string,
+  startDate: string | null,
+  endDate: string,
   callback: (entries: DailyEntry[]) => void
 ) {
   if (!db) {
@@ -123,17 +184,12 @@ export function subscribeToEntriesForWeek(
   }
 
   const entriesRef = getUserEntriesRef(userId);
-  const q = query(
-    entriesRef,
-    where('date', '>=', weekStart),
-    where('date', '<=', weekEnd)
-  );
+  const q = startDate
+    ? query(entriesRef, where('date', '>=', startDate), where('date', '<=', endDate))
+    : query(entriesRef, where('date', '<=', endDate));
 
   return onSnapshot(q, (snapshot) => {
-    const entries: DailyEntry[] = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    })) as DailyEntry[];
+    const entries: DailyEntry[] = snapshot.docs.map((doc) => doc.data());
     callback(entries);
   });
 }
@@ -142,16 +198,99 @@ export async function getAllEntries(userId: string): Promise<DailyEntry[]> {
   if (!db) return [];
   const entriesRef = getUserEntriesRef(userId);
   const snapshot = await getDocs(entriesRef);
-  return snapshot.docs.map((doc) => ({
-    id: doc.id,
-    ...doc.data(),
-  })) as DailyEntry[];
+  return snapshot.docs.map((doc) => doc.data());
+}
+
+// The local copy of a document, or undefined if it isn't cached (works offline)
+async function getCachedData<T>(ref: DocumentReference<T>): Promise<T | undefined> {
+  try {
+    const snapshot = await getDocFromCache(ref);
+    return snapshot.exists() ? snapshot.data() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// setDoc only settles once the server acknowledges the write, which never
+// happens offline; the local cache and listeners update straight away, so
+// direct writes don't wait for it and only report a rejection
+function writeWithoutAck<T>(ref: DocumentReference<T>, data: WithFieldValue<T>): void {
+  setDoc(ref, data).catch((error) => console.error('Failed to save to Firestore:', error));
 }
 
+// Direct write, compared against the cached copy so it also works offline
 export async function upsertEntry(userId: string, entry: DailyEntry) {
   if (!db) throw new Error('Firebase not configured');
-  const entryRef = doc(getUserEntriesRef(userId), entry.id);
-  await setDoc(entryRef, entry);
+  const entryRef = doc(getUserEntriesRef(userId), `${entry.habitId}_${entry.date}`);
+
+  const resolution = resolveEntry(await getCachedData(entryRef), entry, 'sync');
+  if (resolution.conflict) logConflicts([resolution.conflict]);
+  if (resolution.changed) {
+    writeWithoutAck(entryRef, resolution.entry);
+  }
+}
+
+// Outbox replay, only run online
+export async function replayEntry(userId: string, entry: DailyEntry) {
+  if (!db) throw new Error('Firebase not configured');
+  const firestore = db;
+  const entryRef = doc(getUserEntriesRef(userId), `${entry.habitId}_${entry.date}`);
+
+  // Read and write in one transaction so a concurrent edit from another device can't slip in between
+  const conflict = await runTransaction(firestore, async (transaction) => {
+    const snapshot = await transaction.get(entryRef);
+    const existing = snapshot.exists() ? snapshot.data() : undefined;
+    const resolution = resolveEntry(existing, entry, 'sync');
+    if (resolution.changed) {
+      transaction.set(entryRef, resolution.entry);
+    }
+    return resolution.conflict;
+  });
+
+  if (conflict) logConflicts([conflict]);
+}
+
+// ============ JOURNAL ============
+
+export function subscribeToJournal(userId: string, callback: (journal: DayJournal[]) => void) {
+  if (!db) {
+    callback([]);
+    return () => {};
+  }
+
+  const q = query(getUserJournalRef(userId), orderBy('date', 'desc'));
+  return onSnapshot(q, (snapshot) => {
+    callback(snapshot.docs.map((doc) => doc.data()));
+  });
+}
+
+export async function getJournal(userId: string): Promise<DayJournal[]> {
+  if (!db) return [];
+  const snapshot = await getDocs(query(getUserJournalRef(userId), orderBy('date', 'desc')));
+  return snapshot.docs.map((doc) => doc.data());
+}
+
+export async function upsertJournal(userId: string, journal: DayJournal) {
+  if (!db) throw new Error('Firebase not configured');
+  const journalRef = doc(getUserJournalRef(userId), journal.date);
+
+  const { journal: resolved, changed } = resolveJournal(await getCachedData(journalRef), journal);
+  if (changed) {
+    writeWithoutAck(journalRef, resolved);
+  }
+}
+
+export async function replayJournal(userId: string, journal: DayJournal) {
+  if (!db) throw new Error('Firebase not configured');
+  const journalRef = doc(getUserJournalRef(userId), journal.date);
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(journalRef);
+    const { journal: resolved, changed } = resolveJournal(snapshot.exists() ? snapshot.data() : undefined, journal);
+    if (changed) {
+      transaction.set(journalRef, resolved);
+    }
+  });
 }
 
 export async function resetWeekData(userId: string, weekStart: string, weekEnd: string) {
@@ -163,44 +302,51 @@ export async function resetWeekData(userId: string, weekStart: string, weekEnd:
     where('date', '<=', weekEnd)
   );
   const snapshot = await getDocs(q);
-  const batch = writeBatch(db);
-  snapshot.docs.forEach((doc) => batch.delete(doc.ref));
-  await batch.commit();
+  await commitInChunks(snapshot.docs, (batch, d) => batch.delete(d.ref));
 }
 
-export async function importData(userId: string, habits: Habit[], entries: DailyEntry[]) {
+export async function importData(userId: string, habits: Habit[], entries: DailyEntry[], journal: DayJournal[] = []) {
   if (!db) throw new Error('Firebase not configured');
-  const batch = writeBatch(db);
 
-  habits.forEach((habit) => {
-    const habitRef = doc(getUserHabitsRef(userId), habit.id);
-    batch.set(habitRef, habit);
+  await commitInChunks(habits, (batch, habit) => {
+    batch.set(doc(getUserHabitsRef(userId), habit.id), habit);
   });
 
-  entries.forEach((entry) => {
-    const entryRef = doc(getUserEntriesRef(userId), entry.id);
-    batch.set(entryRef, entry);
-  });
+  // Only write entries that are newer than what the account already has
+  const snapshot = await getDocs(getUserEntriesRef(userId));
+  const existing = new Map(snapshot.docs.map((d) => [d.id, d.data()]));
+  const resolved = resolveEntries(existing, entries, 'import');
 
-  await batch.commit();
+  await commitInChunks(resolved.entries, (batch, entry) => {
+    batch.set(doc(getUserEntriesRef(userId), entry.id), entry);
+  });
+  logConflicts(resolved.conflicts);
+
+  const journalSnapshot = await getDocs(getUserJournalRef(userId));
+  const storedJournal = new Map(journalSnapshot.docs.map((d) => [d.id, d.data()]));
+  const changedJournal = journal
+    .map((day) => resolveJournal(storedJournal.get(day.date), day))
+    .filter(({ changed }) => changed);
+  await commitInChunks(changedJournal, (batch, { journal: day }) => {
+    batch.set(doc(getUserJournalRef(userId), day.date), day);
+  });
 }
 
 export async function deleteAllHabits(userId: string) {
   if (!db) throw new Error('Firebase not configured');
   const habitsRef = getUserHabitsRef(userId);
   const snapshot = await getDocs(habitsRef);
-  const batch = writeBatch(db);
-  snapshot.docs.forEach((doc) => batch.delete(doc.ref));
-  await batch.commit();
+  await commitInChunks(snapshot.docs, (batch, d) => batch.delete(d.ref));
 }
 
 export async function deleteAllEntries(userId: string) {
   if (!db) throw new Error('Firebase not configured');
   const entriesRef = getUserEntriesRef(userId);
   const snapshot = await getDocs(entriesRef);
-  const batch = writeBatch(db);
-  snapshot.docs.forEach((doc) => batch.delete(doc.ref));
-  await batch.commit();
+  await commitInChunks(snapshot.docs, (batch, d) => batch.delete(d.ref));
+
+  const journalSnapshot = await getDocs(getUserJournalRef(userId));
+  await commitInChunks(journalSnapshot.docs, (journalBatch, d) => journalBatch.delete(d.ref));
 }
 
 // ============ FRIEND DATA ACCESS (READ-ONLY) ============
@@ -210,20 +356,14 @@ export async function getFriendHabits(friendUserId: string): Promise<Habit[]> {
   const habitsRef = getUserHabitsRef(friendUserId);
   const q = query(habitsRef, orderBy('order', 'asc'));
   const snapshot = await getDocs(q);
-  return snapshot.docs.map((doc) => ({
-    id: doc.id,
-    ...doc.data(),
-  })) as Habit[];
+  return snapshot.docs.map((doc) => doc.data());
 }
 
 export async function getFriendEntries(friendUserId: string): Promise<DailyEntry[]> {
   if (!db) return [];
   const entriesRef = getUserEntriesRef(friendUserId);
   const snapshot = await getDocs(entriesRef);
-  return snapshot.docs.map((doc) => ({
-    id: doc.id,
-    ...doc.data(),
-  })) as DailyEntry[];
+  return snapshot.docs.map((doc) => doc.data());
 }
 
 export function subscribeToFriendHabits(friendUserId: string, callback: (habits: Habit[]) => void) {
@@ -236,31 +376,11 @@ export function subscribeToFriendHabits(friendUserId: string, callback: (habits:
   const q = query(habitsRef, orderBy('order', 'asc'));
 
   return onSnapshot(q, (snapshot) => {
-    const habits: Habit[] = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    })) as Habit[];
+    const habits: Habit[] = snapshot.docs.map((doc) => doc.data());
     callback(habits);
   });
 }
 
-export function subscribeToFriendEntries(friendUserId: string, callback: (entries: DailyEntry[]) => void) {
-  if (!db) {
-    callback([]);
-    return () => {};
-  }
-
-  const entriesRef = getUserEntriesRef(friendUserId);
-
-  return onSnapshot(entriesRef, (snapshot) => {
-    const entries: DailyEntry[] = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    })) as DailyEntry[];
-    callback(entries);
-  });
-}
-
 // ============ USER PROFILE ============
 
 export interface UserProfile {
@@ -0,0 +1,482 @@
+import type { Habit, DailyEntry, DayJournal, QueuedOperation, ConflictSource } from '../types';
+import { resolveEntry, resolveJournal, logConflicts } from './conflicts';
+import {
+  subscribeToHabits,
+  subscribeToEntriesInRange,
+  getAllHabits,
+  createHabit,
+  updateHabit,
+  deleteHabit,
+  upsertEntry,
+  getAllEntries,
+  resetWeekData,
+  importData,
+  deleteAllHabits,
+  deleteAllEntries,
+  subscribeToJournal,
+  getJournal,
+  upsertJournal,
+  getFriendHabits,
+  getFriendEntries,
+  subscribeToFriendHabits,
+} from './firebase';
+import {
+  subscribeToHabitsLocal,
+  subscribeToEntriesInRangeLocal,
+  getAllHabitsLocal,
+  createHabitLocal,
+  updateHabitLocal,
+  deleteHabitLocal,
+  upsertEntryLocal,
+  upsertEntriesLocal,
+  getAllEntriesLocal,
+  resetWeekDataLocal,
+  importDataLocal,
+  triggerLocalRefresh,
+  deleteAllHabitsLocal,
+  deleteAllEntriesLocal,
+  subscribeToJournalLocal,
+  getJournalLocal,
+  upsertJournalLocal,
+  upsertJournalsLocal,
+} from './localStorage';
+import {
+  subscribeToHabitsIdb,
+  subscribeToEntriesInRangeIdb,
+  getAllHabitsIdb,
+  createHabitIdb,
+  updateHabitIdb,
+  deleteHabitIdb,
+  upsertEntryIdb,
+  upsertEntriesIdb,
+  getAllEntriesIdb,
+  resetWeekDataIdb,
+  importDataIdb,
+  deleteAllHabitsIdb,
+  deleteAllEntriesIdb,
+  subscribeToJournalIdb,
+  getJournalIdb,
+  upsertJournalIdb,
+  upsertJournalsIdb,
+  getOutboxOperationsIdb,
+  subscribeToOutboxIdb,
+  isIndexedDbAvailable,
+} from './indexedDb';
+import {
+  enqueueOperation,
+  discardOperations,
+  flushOutbox,
+  startOutboxSync,
+  applyPendingHabits,
+  applyPendingEntries,
+  applyPendingJournal,
+} from './syncQueue';
+
+export type Unsubscribe = () => void;
+
+/**
+ * Storage backend used by HabitContext.
+ * Each implementation owns one data source (IndexedDB, localStorage, Firestore,
+ * a friend's read-only data, or memory) so the context never has to branch on the mode.
+ */
+export interface HabitRepository {
+  readonly kind: 'indexeddb' | 'local' | 'firestore' | 'friend' | 'memory';
+  readonly isReadOnly: boolean;
+
+  // Subscriptions
+  subscribeToHabits: (callback: (habits: Habit[]) => void) => Unsubscribe; // Includes archived habits
+  subscribeToEntriesInRange: (
+    startDate: string | null, // null for everything up to endDate
+    endDate: string,
+    callback: (entries: DailyEntry[]) => void
+  ) => Unsubscribe;
+  subscribeToJournal: (callback: (journal: DayJournal[]) => void) => Unsubscribe;
+  getAllHabits: () => Promise<Habit[]>; // Includes archived habits
+  getAllEntries: () => Promise<DailyEntry[]>;
+  getJournal: () => Promise<DayJournal[]>;
+
+  // Habit CRUD
+  createHabit: (habit: Habit) => Promise<void>;
+  updateHabit: (habitId: string, updates: Partial<Habit>) => Promise<void>;
+  deleteHabit: (habitId: string) => Promise<void>;
+
+  // Entry operations
+  upsertEntry: (entry: DailyEntry) => Promise<void>;
+  upsertJournal: (journal: DayJournal) => Promise<void>;
+  upsertEntries: (entries: DailyEntry[]) => Promise<void>; // Many days at once, e.g. generated data
+  upsertJournals: (journal: DayJournal[]) => Promise<void>;
+
+  // Bulk operations
+  resetWeek: (weekStart: string, weekEnd: string) => Promise<void>;
+  importData: (habits: Habit[], entries: DailyEntry[], journal?: DayJournal[]) => Promise<void>;
+  deleteAllHabits: () => Promise<void>;
+  deleteAllEntries: () => Promise<void>; // Also clears the day journal
+
+  // Offline sync (only backends with an outbox implement this)
+  subscribeToPendingWrites?: (callback: (count: number) => void) => Unsubscribe;
+}
+
+// Bulk writes for backends without a batched version: one at a time, in order
+const writeEach = <T>(write: (item: T) => Promise<void>) =>
+  async (items: T[]): Promise<void> => {
+    for (const item of items) {
+      await write(item);
+    }
+  };
+
+// ============ INDEXED DB ============
+
+export function createIndexedDbRepository(): HabitRepository {
+  return {
+    kind: 'indexeddb',
+    isReadOnly: false,
+    subscribeToHabits: subscribeToHabitsIdb,
+    subscribeToEntriesInRange: subscribeToEntriesInRangeIdb,
+    subscribeToJournal: subscribeToJournalIdb,
+    getAllHabits: getAllHabitsIdb,
+    getAllEntries: getAllEntriesIdb,
+    getJournal: getJournalIdb,
+    createHabit: createHabitIdb,
+    updateHabit: updateHabitIdb,
+    deleteHabit: deleteHabitIdb,
+    upsertEntry: upsertEntryIdb,
+    upsertJournal: upsertJournalIdb,
+    upsertEntries: upsertEntriesIdb,
+    upsertJournals: upsertJournalsIdb,
+    resetWeek: resetWeekDataIdb,
+    importData: importDataIdb,
+    deleteAllHabits: deleteAllHabitsIdb,
+    deleteAllEntries: deleteAllEntriesIdb,
+  };
+}
+
+// Storage that lives on this device: IndexedDB where available, else localStorage
+export function createDeviceRepository(): HabitRepository {
+  return isIndexedDbAvailable ? createIndexedDbRepository() : createLocalStorageRepository();
+}
+
+// ============ LOCAL STORAGE ============
+
+// Fallback for browsers without IndexedDB
+export function createLocalStorageRepository(): HabitRepository {
+  // Writes are followed by a manual refresh so subscribers in this tab update too
+  const withRefresh = <A extends unknown[]>(fn: (...args: A) => Promise<void>) =>
+    async (...args: A): Promise<void> => {
+      await fn(...args);
+      triggerLocalRefresh();
+    };
+
+  return {
+    kind: 'local',
+    isReadOnly: false,
+    subscribeToHabits: subscribeToHabitsLocal,
+    subscribeToEntriesInRange: subscribeToEntriesInRangeLocal,
+    subscribeToJournal: subscribeToJournalLocal,
+    getAllHabits: getAllHabitsLocal,
+    getAllEntries: getAllEntriesLocal,
+    getJournal: getJournalLocal,
+    createHabit: withRefresh(createHabitLocal),
+    updateHabit: withRefresh(updateHabitLocal),
+    deleteHabit: withRefresh(deleteHabitLocal),
+    upsertEntry: withRefresh(upsertEntryLocal),
+    upsertJournal: withRefresh(upsertJournalLocal),
+    upsertEntries: withRefresh(upsertEntriesLocal),
+    upsertJournals: withRefresh(upsertJournalsLocal),
+    resetWeek: withRefresh(resetWeekDataLocal),
+    importData: withRefresh(importDataLocal),
+    deleteAllHabits: withRefresh(deleteAllHabitsLocal),
+    deleteAllEntries: withRefresh(deleteAllEntriesLocal),
+  };
+}
+
+// ============ FIRESTORE ============
+
+export function createFirestoreRepository(userId: string): HabitRepository {
+  return {
+    kind: 'firestore',
+    isReadOnly: false,
+    subscribeToHabits: (callback) => subscribeToHabits(userId, callback),
+    subscribeToEntriesInRange: (startDate, endDate, callback) =>
+      subscribeToEntriesInRange(userId, startDate, endDate, callback),
+    subscribeToJournal: (callback) => subscribeToJournal(userId, callback),
+    getAllHabits: () => getAllHabits(userId),
+    getAllEntries: () => getAllEntries(userId),
+    getJournal: () => getJournal(userId),
+    createHabit: (habit) => createHabit(userId, habit),
+    updateHabit: (habitId, updates) => updateHabit(userId, habitId, updates),
+    deleteHabit: (habitId) => deleteHabit(userId, habitId),
+    upsertEntry: (entry) => upsertEntry(userId, entry),
+    upsertJournal: (journal) => upsertJournal(userId, journal),
+    upsertEntries: writeEach((entry: DailyEntry) => upsertEntry(userId, entry)),
+    upsertJournals: writeEach((journal: DayJournal) => upsertJournal(userId, journal)),
+    resetWeek: (weekStart, weekEnd) => resetWeekData(userId, weekStart, weekEnd),
+    importData: (habits, entries, journal) => importData(userId, habits, entries, journal),
+    deleteAllHabits: () => deleteAllHabits(userId),
+    deleteAllEntries: () => deleteAllEntries(userId),
+  };
+}
+
+/**
+ * Firestore with an offline outbox: habit and entry writes are queued in
+ * IndexedDB, shown immediately through an overlay on server data, and
+ * replayed to Firestore when the connection comes back.
+ */
+export function createSyncedFirestoreRepository(userId: string): HabitRepository {
+  const remote = createFirestoreRepository(userId);
+
+  // Re-emit whenever either the server data or the outbox changes
+  const withPendingWrites = <T>(
+    subscribeRemote: (callback: (value: T) => void) => Unsubscribe,
+    applyPending: (value: T, operations: QueuedOperation[]) => T,
+    callback: (value: T) => void
+  ): Unsubscribe => {
+    let remoteValue: T | null = null;
+    let operations: QueuedOperation[] = [];
+    const emit = () => {
+      if (remoteValue !== null) callback(applyPending(remoteValue, operations));
+    };
+
+    const unsubscribeRemote = subscribeRemote((value) => {
+      remoteValue = value;
+      emit();
+    });
+    const unsubscribeOutbox = subscribeToOutboxIdb(userId, (queued) => {
+      operations = queued;
+      emit();
+    });
+
+    return () => {
+      unsubscribeRemote();
+      unsubscribeOutbox();
+    };
+  };
+
+  return {
+    ...remote,
+    subscribeToHabits: (callback) =>
+      withPendingWrites(remote.subscribeToHabits, applyPendingHabits, callback),
+    subscribeToEntriesInRange: (startDate, endDate, callback) =>
+      withPendingWrites(
+        (onEntries) => remote.subscribeToEntriesInRange(startDate, endDate, onEntries),
+        (entries, operations) =>
+          applyPendingEntries(entries, operations).filter(
+            (e) => (!startDate || e.date >= startDate) && e.date <= endDate
+          ),
+        callback
+      ),
+    subscribeToJournal: (callback) =>
+      withPendingWrites(remote.subscribeToJournal, applyPendingJournal, callback),
+    getAllHabits: async () => {
+      const [habits, operations] = await Promise.all([
+        remote.getAllHabits(),
+        getOutboxOperationsIdb(userId),
+      ]);
+      return applyPendingHabits(habits, operations);
+    },
+    getAllEntries: async () => {
+      const [entries, operations] = await Promise.all([
+        remote.getAllEntries(),
+        getOutboxOperationsIdb(userId),
+      ]);
+      return applyPendingEntries(entries, operations);
+    },
+    getJournal: async () => {
+      const [journal, operations] = await Promise.all([
+        remote.getJournal(),
+        getOutboxOperationsIdb(userId),
+      ]);
+      return applyPendingJournal(journal, operations);
+    },
+    createHabit: (habit) => enqueueOperation(userId, { type: 'createHabit', habit }),
+    updateHabit: (habitId, updates) =>
+      enqueueOperation(userId, { type: 'updateHabit', habitId, updates }),
+    deleteHabit: (habitId) => enqueueOperation(userId, { type: 'deleteHabit', habitId }),
+    upsertEntry: (entry) => enqueueOperation(userId, { type: 'upsertEntry', entry }),
+    upsertJournal: (journal) => enqueueOperation(userId, { type: 'upsertJournal', journal }),
+    upsertEntries: writeEach((entry: DailyEntry) => enqueueOperation(userId, { type: 'upsertEntry', entry })),
+    upsertJournals: writeEach((journal: DayJournal) => enqueueOperation(userId, { type: 'upsertJournal', journal })),
+    // Bulk operations write to Firestore directly, so first drop the queued writes they clear
+    resetWeek: async (weekStart, weekEnd) => {
+      await discardOperations(userId, (operation) =>
+        operation.type === 'upsertEntry' && operation.entry.date >= weekStart && operation.entry.date <= weekEnd
+      );
+      await remote.resetWeek(weekStart, weekEnd);
+    },
+    importData: async (habits, entries, journal) => {
+      // Replay what's queued first so the import is merged after it, as it would be online
+      await flushOutbox(userId);
+      await remote.importData(habits, entries, journal);
+    },
+    deleteAllHabits: async () => {
+      await discardOperations(userId, (operation) =>
+        operation.type === 'createHabit' || operation.type === 'updateHabit' || operation.type === 'deleteHabit'
+      );
+      await remote.deleteAllHabits();
+    },
+    deleteAllEntries: async () => {
+      await discardOperations(userId, (operation) =>
+        operation.type === 'upsertEntry' || operation.type === 'upsertJournal'
+      );
+      await remote.deleteAllEntries();
+    },
+    subscribeToPendingWrites: (callback) => {
+      const stopSync = startOutboxSync(userId);
+      const unsubscribeOutbox = subscribeToOutboxIdb(userId, (queued) => callback(queued.length));
+      return () => {
+        stopSync();
+        unsubscribeOutbox();
+      };
+    },
+  };
+}
+
+// ============ FRIEND (READ-ONLY) ============
+
+const readOnly = async (): Promise<void> => {
+  throw new Error("Cannot modify a friend's data");
+};
+
+export function createFriendRepository(friendUserId: string): HabitRepository {
+  return {
+    kind: 'friend',
+    isReadOnly: true,
+    subscribeToHabits: (callback) => subscribeToFriendHabits(friendUserId, callback),
+    // A friend's entries are laid out like our own, so ranges are read the same way
+    subscribeToEntriesInRange: (startDate, endDate, callback) =>
+      subscribeToEntriesInRange(friendUserId, startDate, endDate, callback),
+    // A friend's journal stays private to them
+    subscribeToJournal: (callback) => {
+      callback([]);
+      return () => {};
+    },
+    getAllHabits: () => getFriendHabits(friendUserId),
+    getAllEntries: () => getFriendEntries(friendUserId),
+    getJournal: async () => [],
+    createHabit: readOnly,
+    updateHabit: readOnly,
+    deleteHabit: readOnly,
+    upsertEntry: readOnly,
+    upsertJournal: readOnly,
+    upsertEntries: readOnly,
+    upsertJournals: readOnly,
+    resetWeek: readOnly,
+    importData: readOnly,
+    deleteAllHabits: readOnly,
+    deleteAllEntries: readOnly,
+  };
+}
+
+// ============ IN-MEMORY ============
+
+/**
+ * Repository backed by plain arrays. Used when no other backend is available
+ * and for exercising HabitContext without a browser or Firebase.
+ */
+export function createInMemoryRepository(
+  initial: { habits?: Habit[]; entries?: DailyEntry[]; journal?: DayJournal[] } = {}
+): HabitRepository {
+  let habits: Habit[] = [...(initial.habits ?? [])];
+  let entries: DailyEntry[] = [...(initial.entries ?? [])];
+  const journalByDate = new Map((initial.journal ?? []).map((j) => [j.date, j]));
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const listen = (listener: () => void): Unsubscribe => {
+    listener();
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  };
+
+  const sortedHabits = () => [...habits].sort((a, b) => a.order - b.order);
+
+  const mergeEntry = (entry: DailyEntry, source: ConflictSource) => {
+    const index = entries.findIndex((e) => e.habitId === entry.habitId && e.date === entry.date);
+    const { entry: resolved, conflict } = resolveEntry(entries[index], entry, source);
+    if (conflict) logConflicts([conflict]);
+    if (index !== -1) {
+      entries[index] = resolved;
+    } else {
+      entries.push(resolved);
+    }
+  };
+
+  const mergeJournal = (journal: DayJournal) => {
+    journalByDate.set(journal.date, resolveJournal(journalByDate.get(journal.date), journal).journal);
+  };
+  const sortedJournal = () =>
+    Array.from(journalByDate.values()).sort((a, b) => b.date.localeCompare(a.date));
+
+  return {
+    kind: 'memory',
+    isReadOnly: false,
+    subscribeToHabits: (callback) => listen(() => callback(sortedHabits())),
+    subscribeToEntriesInRange: (startDate, endDate, callback) =>
+      listen(() =>
+        callback(
+          entries
+            .filter((e) => (!startDate || e.date >= startDate) && e.date <= endDate)
+            .sort((a, b) => a.date.localeCompare(b.date))
+        )
+      ),
+    subscribeToJournal: (callback) => listen(() => callback(sortedJournal())),
+    getAllHabits: async () => sortedHabits(),
+    getAllEntries: async () => [...entries].sort((a, b) => b.date.localeCompare(a.date)),
+    getJournal: async () => sortedJournal(),
+    createHabit: async (habit) => {
+      habits = [...habits, habit];
+      notify();
+    },
+    updateHabit: async (habitId, updates) => {
+      habits = habits.map((h) => (h.id === habitId ? { ...h, ...updates } : h));
+      notify();
+    },
+    deleteHabit: async (habitId) => {
+      habits = habits.filter((h) => h.id !== habitId);
+      entries = entries.filter((e) => e.habitId !== habitId);
+      notify();
+    },
+    upsertEntry: async (entry) => {
+      mergeEntry(entry, 'edit');
+      notify();
+    },
+    upsertJournal: async (journal) => {
+      mergeJournal(journal);
+      notify();
+    },
+    upsertEntries: async (list) => {
+      list.forEach((entry) => mergeEntry(entry, 'edit'));
+      notify();
+    },
+    upsertJournals: async (list) => {
+      list.forEach(mergeJournal);
+      notify();
+    },
+    resetWeek: async (weekStart, weekEnd) => {
+      entries = entries.filter((e) => e.date < weekStart || e.date > weekEnd);
+      notify();
+    },
+    importData: async (importedHabits, importedEntries, importedJournal = []) => {
+      for (const habit of importedHabits) {
+        const index = habits.findIndex((h) => h.id === habit.id);
+        habits = index !== -1
+          ? habits.map((h, i) => (i === index ? habit : h))
+          : [...habits, habit];
+      }
+      importedEntries.forEach((entry) => mergeEntry(entry, 'import'));
+      importedJournal.forEach(mergeJournal);
+      notify();
+    },
+    deleteAllHabits: async () => {
+      habits = [];
+      entries = [];
+      journalByDate.clear();
+      notify();
+    },
+    deleteAllEntries: async () => {
+      entries = [];
+      journalByDate.clear();
+      notify();
+    },
+  };
+}
@@ -0,0 +1,464 @@
+import { v4 as uuidv4 } from 'uuid';
+import { isValid, parse } from 'date-fns';
+import type { Habit, DailyEntry, ExportData, HabitType, HabitSchedule, GoalPeriod } from '../types';
+import { parseCSV, formatDate, HABIT_COLORS, HABIT_ICONS } from './utils';
+import { SCHEMA_VERSION } from './migrations';
+
+// Adapters turn other file formats into ExportData, so every import goes
+// through the same validation, preview and merge as a JSON backup.
+
+export type ImportFormat = 'habit-diary-json' | 'long-csv' | 'loop-csv' | 'habitica-json';
+
+export const IMPORT_FORMATS: Record<ImportFormat, { label: string; description: string }> = {
+  'habit-diary-json': {
+    label: 'Habit Diary backup (JSON)',
+    description: 'A file from Export as JSON',
+  },
+  'long-csv': {
+    label: 'CSV, one row per habit per day',
+    description: 'Habit Diary CSV exports or any spreadsheet with date, habit and value columns',
+  },
+  'loop-csv': {
+    label: 'Loop Habit Tracker (Checkmarks.csv)',
+    description: 'The Checkmarks.csv file from the Loop CSV export, one column per habit',
+  },
+  'habitica-json': {
+    label: 'Habitica data export (JSON)',
+    description: 'Dailies become yes/no habits, habits count their + clicks per day',
+  },
+};
+
+// ============ SHARED HELPERS ============
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function toNumber(value: string | undefined): number {
+  // Empty cells become NaN so validation reports them instead of storing 0
+  return value === undefined || value.trim() === '' ? NaN : Number(value);
+}
+
+/**
+ * Matches imported habit names to existing habits (case-insensitive) and
+ * creates the ones that don't exist yet, appended after the existing order.
+ */
+function createHabitCollector(existingHabits: Habit[]) {
+  const habitsByName = new Map(existingHabits.map((h) => [normalizeName(h.name), h]));
+  const newHabits: Habit[] = [];
+  const now = new Date().toISOString();
+
+  const getOrCreate = (
+    name: string,
+    defaults: () => Pick<Habit, 'type' | 'weeklyGoal' | 'unit'> & Partial<Pick<Habit, 'schedule' | 'goalPeriod'>>
+  ): Habit => {
+    const existing = habitsByName.get(normalizeName(name));
+    if (existing) return existing;
+
+    const order = existingHabits.length + newHabits.length;
+    const habit: Habit = {
+      id: uuidv4(),
+      name: name.trim(),
+      goalPeriod: { type: 'week' },
+      schedule: { type: 'daily' },
+      ...defaults(),
+      color: HABIT_COLORS[order % HABIT_COLORS.length],
+      icon: HABIT_ICONS[order % HABIT_ICONS.length],
+      createdAt: now,
+      archived: false,
+      order,
+    };
+    habitsByName.set(normalizeName(name), habit);
+    newHabits.push(habit);
+    return habit;
+  };
+
+  return { getOrCreate, newHabits, now };
+}
+
+function toExportData(habits: Habit[], entries: DailyEntry[], now: string): ExportData {
+  return { version: SCHEMA_VERSION, exportedAt: now, habits, entries };
+}
+
+function createEntry(habit: Habit, date: string, value: number, now: string): DailyEntry {
+  return {
+    id: `${habit.id}_${date}`,
+    habitId: habit.id,
+    date,
+    value,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// ============ LONG-FORMAT CSV ============
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'dd/MM/yyyy', 'dd.MM.yyyy'];
+
+// Column indexes into the CSV header; -1 means the column isn't in the file
+export interface ColumnMapping {
+  date: number;
+  habit: number;
+  value: number;
+  type: number;
+  goal: number;
+  goalPeriod: number;
+  periodLength: number;
+  schedule: number;
+  unit: number;
+  dateFormat: string;
+}
+
+export type MappedColumn = Exclude<keyof ColumnMapping, 'dateFormat'>;
+
+export const REQUIRED_COLUMNS: MappedColumn[] = ['date', 'habit', 'value'];
+
+const COLUMN_ALIASES: Record<MappedColumn, string[]> = {
+  date: ['date', 'day'],
+  habit: ['habit', 'name', 'habit name', 'task'],
+  value: ['value', 'count', 'amount', 'quantity', 'done', 'completed'],
+  type: ['type'],
+  goal: ['goal', 'weekly goal', 'target'],
+  goalPeriod: ['goal period', 'period'],
+  periodLength: ['period length', 'period days'],
+  schedule: ['schedule'],
+  unit: ['unit', 'units'],
+};
+
+// Spreadsheets often use words or ticks for yes/no columns
+const TRUE_WORDS = ['yes', 'y', 'true', 'x', '✓', '✔', 'done'];
+const FALSE_WORDS = ['no', 'n', 'false'];
+
+function parseValue(raw: string | undefined): number {
+  const text = raw?.trim().toLowerCase() ?? '';
+  if (TRUE_WORDS.includes(text)) return 1;
+  if (FALSE_WORDS.includes(text)) return 0;
+  return toNumber(raw);
+}
+
+// The reverse of formatScheduleCell; anything else is left for validation to report
+function parseSchedule(raw: string): HabitSchedule {
+  const [type, ...args] = raw.trim().split(/\s+/);
+  if (type === 'weekdays') return { type, days: args.map(Number) };
+  if (type === 'timesPerWeek') return { type, times: toNumber(args[0]) };
+  return { type } as HabitSchedule;
+}
+
+function parseGoalPeriod(raw: string, length: string | undefined): GoalPeriod {
+  const type = raw.trim().toLowerCase();
+  if (type === 'rolling') return { type, days: toNumber(length) };
+  return { type } as GoalPeriod;
+}
+
+function parseDay(raw: string, dateFormat: string): string {
+  const date = parse(raw.trim(), dateFormat, new Date());
+  // Leave unparseable dates as they are so validation can point at them
+  return isValid(date) ? formatDate(date) : raw;
+}
+
+export function getCSVHeader(text: string): string[] {
+  return parseCSV(text)[0] ?? [];
+}
+
+// The first date format that reads a sample of the column
+export function guessDateFormat(text: string, column: number): string {
+  const [, ...rows] = parseCSV(text);
+  const sample = rows.slice(0, 20).map((row) => row[column]?.trim() ?? '');
+  return DATE_FORMATS.find((format) =>
+    sample.every((value) => isValid(parse(value, format, new Date())))
+  ) ?? DATE_FORMATS[0];
+}
+
+export function guessColumnMapping(text: string): ColumnMapping {
+  const header = getCSVHeader(text);
+  const names = header.map(normalizeName);
+  const find = (column: MappedColumn) =>
+    names.findIndex((name) => COLUMN_ALIASES[column].includes(name));
+
+  const date = find('date');
+
+  return {
+    date,
+    habit: find('habit'),
+    value: find('value'),
+    type: find('type'),
+    goal: find('goal'),
+    goalPeriod: find('goalPeriod'),
+    periodLength: find('periodLength'),
+    schedule: find('schedule'),
+    unit: find('unit'),
+    dateFormat: date !== -1 ? guessDateFormat(text, date) : DATE_FORMATS[0],
+  };
+}
+
+/**
+ * Read a CSV with one row per habit per day, including the layout written by
+ * exportToCSV (Date,Habit,Type,Value,Goal,Goal period,Period length,Schedule,Unit,Note).
+ *
+ * New habits take type, goal, goal period, schedule and unit from their first
+ * row when those columns are mapped. Otherwise a habit whose values are all 0
+ * or 1 becomes yes/no, with a weekly goal due every day.
+ */
+export function longCsvToExportData(
+  text: string,
+  mapping: ColumnMapping,
+  existingHabits: Habit[]
+): ExportData {
+  const missing = REQUIRED_COLUMNS.filter((column) => mapping[column] === -1);
+  if (missing.length > 0) {
+    throw new Error(`Choose a column for: ${missing.join(', ')}`);
+  }
+
+  const [, ...rows] = parseCSV(text);
+  const cell = (row: string[], column: MappedColumn) =>
+    mapping[column] === -1 ? undefined : row[mapping[column]]?.trim();
+
+  const rowsByHabit = new Map<string, string[][]>();
+  for (const row of rows) {
+    const key = normalizeName(cell(row, 'habit') ?? '');
+    rowsByHabit.set(key, [...(rowsByHabit.get(key) ?? []), row]);
+  }
+
+  const { getOrCreate, newHabits, now } = createHabitCollector(existingHabits);
+  const entries: DailyEntry[] = [];
+
+  for (const habitRows of rowsByHabit.values()) {
+    const [first] = habitRows;
+    const habit = getOrCreate(cell(first, 'habit') ?? '', () => {
+      const isYesNo = habitRows.every((row) => [0, 1].includes(parseValue(cell(row, 'value'))));
+      const type = (cell(first, 'type') || (isYesNo ? 'binary' : 'numeric')) as HabitType;
+      const goal = cell(first, 'goal');
+      const goalPeriod = cell(first, 'goalPeriod');
+      const schedule = cell(first, 'schedule');
+      return {
+        type,
+        weeklyGoal: goal ? toNumber(goal) : 7,
+        ...(goalPeriod ? { goalPeriod: parseGoalPeriod(goalPeriod, cell(first, 'periodLength')) } : {}),
+        ...(schedule ? { schedule: parseSchedule(schedule) } : {}),
+        unit: cell(first, 'unit') ?? (type === 'binary' ? 'days' : ''),
+      };
+    });
+
+    for (const row of habitRows) {
+      const date = parseDay(cell(row, 'date') ?? '', mapping.dateFormat);
+      entries.push(createEntry(habit, date, parseValue(cell(row, 'value')), now));
+    }
+  }
+
+  return toExportData(newHabits, entries, now);
+}
+
+// ============ LOOP HABIT TRACKER ============
+
+// Checkmarks.csv codes for yes/no habits
+const LOOP_YES_MANUAL = '2';
+const LOOP_NO = '0';
+const LOOP_UNKNOWN = '-1';
+
+// Habit type for each Checkmarks.csv column, by the column's habit name
+export type LoopHabitTypes = Record<string, 'binary' | 'numeric'>;
+
+// Habits.csv from the same Loop export names each habit's type (YES_NO or NUMERICAL)
+function readLoopHabitsCsv(text: string): Map<string, 'binary' | 'numeric'> {
+  const [header, ...rows] = parseCSV(text);
+  const names = (header ?? []).map(normalizeName);
+  const nameColumn = names.indexOf('name');
+  const typeColumn = names.indexOf('type');
+  const types = new Map<string, 'binary' | 'numeric'>();
+  if (nameColumn === -1 || typeColumn === -1) return types;
+
+  for (const row of rows) {
+    const type = normalizeName(row[typeColumn] ?? '');
+    if (type === 'numerical' || type === '1') {
+      types.set(normalizeName(row[nameColumn] ?? ''), 'numeric');
+    } else if (type === 'yes_no' || type === '0') {
+      types.set(normalizeName(row[nameColumn] ?? ''), 'binary');
+    }
+  }
+  return types;
+}
+
+/**
+ * Guess each Checkmarks.csv habit's type, shown in the import preview so the
+ * user can correct it. Habits.csv is used when given; otherwise a column is
+ * yes/no only if it holds nothing but 0 and 2 (ignoring unknown days, -1),
+ * since a numeric habit's values can look like any other checkmark code.
+ */
+export function guessLoopHabitTypes(text: string, habitsCsv = ''): LoopHabitTypes {
+  const [header = [], ...rows] = parseCSV(text);
+  const knownTypes = readLoopHabitsCsv(habitsCsv);
+
+  return Object.fromEntries(header.slice(1).map((name, i) => {
+    const values = rows.map((row) => row[i + 1]?.trim() ?? '');
+    const isYesNo = values.every((value) => ['', LOOP_UNKNOWN, LOOP_NO, LOOP_YES_MANUAL].includes(value));
+    return [name, knownTypes.get(normalizeName(name)) ?? (isYesNo ? 'binary' : 'numeric')];
+  }));
+}
+
+/**
+ * Read Loop's Checkmarks.csv: a Date column, then one column per habit.
+ *
+ * Yes/no habits only count days checked by hand (2); days Loop fills in from
+ * the habit's frequency (1), skips (3) and unknown days (-1) are not entries.
+ * Numeric habits count any value above 0.
+ */
+export function loopCsvToExportData(
+  text: string,
+  existingHabits: Habit[],
+  habitTypes: LoopHabitTypes = guessLoopHabitTypes(text)
+): ExportData {
+  const [header, ...rows] = parseCSV(text);
+  if (!header || normalizeName(header[0]) !== 'date') {
+    throw new Error('Expected a Loop Checkmarks.csv with a Date column first');
+  }
+
+  const { getOrCreate, newHabits, now } = createHabitCollector(existingHabits);
+  const entries: DailyEntry[] = [];
+
+  header.slice(1).forEach((name, i) => {
+    const column = i + 1;
+    const values = rows.map((row) => row[column]?.trim() ?? '');
+    const isYesNo = habitTypes[name] !== 'numeric';
+    const habit = getOrCreate(name, () => ({
+      type: isYesNo ? 'binary' : 'numeric',
+      weeklyGoal: 7,
+      unit: isYesNo ? 'days' : '',
+    }));
+
+    rows.forEach((row, rowIndex) => {
+      const value = values[rowIndex];
+      const date = row[0]?.trim() ?? '';
+      if (isYesNo) {
+        if (value === LOOP_YES_MANUAL) entries.push(createEntry(habit, date, 1, now));
+      } else if (toNumber(value) > 0) {
+        entries.push(createEntry(habit, date, toNumber(value), now));
+      }
+    });
+  });
+
+  return toExportData(newHabits, entries, now);
+}
+
+// ============ HABITICA ============
+
+interface HabiticaHistoryItem {
+  date: number | string;
+  completed?: boolean;
+  scoredUp?: number;
+}
+
+interface HabiticaTask {
+  text?: string;
+  type?: string;
+  frequency?: string;
+  repeat?: Record<string, boolean>;
+  history?: HabiticaHistoryItem[];
+}
+
+// Habitica's repeat keys, mapped to Date#getDay numbers
+const HABITICA_WEEKDAYS: Record<string, number> = { su: 0, m: 1, t: 2, w: 3, th: 4, f: 5, s: 6 };
+
+function habiticaDay(date: number | string): string {
+  const parsed = new Date(date);
+  return isValid(parsed) ? formatDate(parsed) : String(date);
+}
+
+/**
+ * Read a Habitica user data export.
+ *
+ * Dailies become yes/no habits with an entry for each completed day, keeping
+ * their weekdays when they repeat weekly; history items without a completion
+ * flag (older exports) are skipped. Habitica habits
+ * become numeric habits counting the + clicks per day. To-dos and rewards are
+ * ignored.
+ */
+export function habiticaJsonToExportData(text: string, existingHabits: Habit[]): ExportData {
+  const data = JSON.parse(text);
+  const tasks: HabiticaTask[] = Array.isArray(data.tasks)
+    ? data.tasks
+    : [
+        ...(data.tasks?.dailys ?? []).map((t: HabiticaTask) => ({ ...t, type: 'daily' })),
+        ...(data.tasks?.habits ?? []).map((t: HabiticaTask) => ({ ...t, type: 'habit' })),
+      ];
+  if (tasks.length === 0) {
+    throw new Error('No Habitica dailies or habits found in file');
+  }
+
+  const { getOrCreate, newHabits, now } = createHabitCollector(existingHabits);
+  const valuesByEntry = new Map<string, { habit: Habit; date: string; value: number }>();
+
+  for (const task of tasks) {
+    if (task.type !== 'daily' && task.type !== 'habit') continue;
+    const isDaily = task.type === 'daily';
+
+    const habit = getOrCreate(task.text ?? '', () => {
+      if (!isDaily) return { type: 'numeric', weeklyGoal: 7, unit: 'times' };
+
+      const days = Object.entries(HABITICA_WEEKDAYS)
+        .filter(([key]) => task.repeat?.[key])
+        .map(([, day]) => day);
+      return task.frequency === 'weekly' && days.length > 0 && days.length < 7
+        ? { type: 'binary', weeklyGoal: days.length, schedule: { type: 'weekdays', days }, unit: 'days' }
+        : { type: 'binary', weeklyGoal: 7, unit: 'days' };
+    });
+
+    for (const item of task.history ?? []) {
+      const value = isDaily ? (item.completed ? 1 : 0) : item.scoredUp ?? 0;
+      if (value <= 0) continue;
+
+      // Habitica can log several history items for one day
+      const date = habiticaDay(item.date);
+      const key = `${habit.id}_${date}`;
+      const current = valuesByEntry.get(key);
+      valuesByEntry.set(key, {
+        habit,
+        date,
+        value: isDaily ? 1 : (current?.value ?? 0) + value,
+      });
+    }
+  }
+
+  const entries = Array.from(valuesByEntry.values(), ({ habit, date, value }) =>
+    createEntry(habit, date, value, now)
+  );
+  return toExportData(newHabits, entries, now);
+}
+
+// ============ DETECTION ============
+
+// Best guess from the file contents; the user can still pick another format
+export function detectImportFormat(text: string): ImportFormat {
+  try {
+    const data = JSON.parse(text);
+    return data && typeof data === 'object' && 'tasks' in data ? 'habitica-json' : 'habit-diary-json';
+  } catch {
+    // Not JSON, so some kind of CSV
+  }
+
+  const mapping = guessColumnMapping(text);
+  if (mapping.habit === -1 && mapping.date === 0) return 'loop-csv';
+  return 'long-csv';
+}
+
+/**
+ * Convert a file to the JSON backup format that importFromJSON reads.
+ * Habit Diary backups are passed through untouched.
+ */
+export function toImportJSON(
+  format: ImportFormat,
+  text: string,
+  existingHabits: Habit[],
+  mapping?: ColumnMapping,
+  loopHabitTypes?: LoopHabitTypes
+): string {
+  switch (format) {
+    case 'habit-diary-json':
+      return text;
+    case 'long-csv':
+      return JSON.stringify(longCsvToExportData(text, mapping ?? guessColumnMapping(text), existingHabits));
+    case 'loop-csv':
+      return JSON.stringify(loopCsvToExportData(text, existingHabits, loopHabitTypes));
+    case 'habitica-json':
+      return JSON.stringify(habiticaJsonToExportData(text, existingHabits));
+  }
+}
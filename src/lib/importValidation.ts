@@ -0,0 +1,253 @@
+import { isValid, parseISO } from 'date-fns';
+import type { Habit, DailyEntry, DayJournal, ImportIssue, ImportCounts, ImportPreview } from '../types';
+import { migrateHabit, migrateEntry, getSchemaVersion, SCHEMA_VERSION } from './migrations';
+import { resolveEntry } from './conflicts';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const HABIT_TYPES = ['binary', 'numeric', 'limit', 'duration'];
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = (v) => typeof v === 'string';
+const isNonEmptyString: FieldCheck = (v) => typeof v === 'string' && v.trim() !== '';
+const isNonNegativeNumber: FieldCheck = (v) => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+const isTimestamp: FieldCheck = (v) => typeof v === 'string' && isValid(parseISO(v));
+const isDay: FieldCheck = (v) => typeof v === 'string' && DATE_PATTERN.test(v) && isValid(parseISO(v));
+const isThreshold: FieldCheck = (v) => typeof v === 'number' && v > 0 && v <= 1;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isSchedule: FieldCheck = (v) => {
+  if (!isObject(v)) return false;
+  if (v.type === 'daily') return true;
+  if (v.type === 'weekdays') {
+    return Array.isArray(v.days) && v.days.length > 0 &&
+      v.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+  }
+  if (v.type === 'timesPerWeek') {
+    return Number.isInteger(v.times) && (v.times as number) >= 1 && (v.times as number) <= 7;
+  }
+  return false;
+};
+
+const isSessionList: FieldCheck = (v) =>
+  Array.isArray(v) && v.every((session) => isObject(session) && isTimestamp(session.start) && isTimestamp(session.end));
+
+const isEventList: FieldCheck = (v) =>
+  Array.isArray(v) && v.every((event) =>
+    isObject(event) && isNonEmptyString(event.id) && isTimestamp(event.time) &&
+    typeof event.amount === 'number' && Number.isFinite(event.amount) &&
+    (event.note === undefined || isString(event.note))
+  );
+
+const isRevisionList: FieldCheck = (v) =>
+  Array.isArray(v) && v.every((revision) =>
+    isObject(revision) && isTimestamp(revision.changedAt) &&
+    isNonNegativeNumber(revision.before) && isNonNegativeNumber(revision.after)
+  );
+
+const isGoalPeriod: FieldCheck = (v) => {
+  if (!isObject(v)) return false;
+  if (v.type === 'rolling') {
+    return Number.isInteger(v.days) && (v.days as number) >= 1 && (v.days as number) <= 365;
+  }
+  return ['day', 'week', 'month'].includes(v.type as string);
+};
+
+const isGoalHistory: FieldCheck = (v) =>
+  Array.isArray(v) && v.every((version) =>
+    isObject(version) && isDay(version.effectiveFrom) &&
+    HABIT_TYPES.includes(version.type as string) &&
+    isNonNegativeNumber(version.weeklyGoal) && (version.weeklyGoal as number) > 0 &&
+    isGoalPeriod(version.goalPeriod) && isSchedule(version.schedule) && isString(version.unit)
+  );
+
+function checkFields(
+  record: Record<string, unknown>,
+  checks: Record<string, [FieldCheck, string]>
+): string[] {
+  return Object.entries(checks)
+    .filter(([field, [check]]) => !check(record[field]))
+    .map(([field, [, expected]]) => `${field} must be ${expected}`);
+}
+
+// ============ RECORD VALIDATION ============
+
+export function validateHabit(habit: Record<string, unknown>): string[] {
+  return checkFields(habit, {
+    id: [isNonEmptyString, 'a non-empty string'],
+    name: [isNonEmptyString, 'a non-empty string'],
+    type: [(v) => HABIT_TYPES.includes(v as string), `one of ${HABIT_TYPES.join(', ')}`],
+    weeklyGoal: [(v) => isNonNegativeNumber(v) && (v as number) > 0, 'a positive number'],
+    goalPeriod: [isGoalPeriod, 'day, week, month or rolling with 1-365 days'],
+    schedule: [isSchedule, 'daily, a list of weekdays (0-6) or 1-7 times per week'],
+    unit: [isString, 'a string'],
+    quickAmount: [(v) => v === undefined || (isNonNegativeNumber(v) && (v as number) > 0), 'a positive number if set'],
+    completionThreshold: [(v) => v === undefined || isThreshold(v), 'a number above 0 and at most 1 if set'],
+    goalHistory: [(v) => v === undefined || isGoalHistory(v), 'a list of dated goal settings if set'],
+    color: [isString, 'a string'],
+    icon: [isString, 'a string'],
+    createdAt: [isTimestamp, 'an ISO timestamp'],
+    updatedAt: [(v) => v === undefined || isTimestamp(v), 'an ISO timestamp if set'],
+    archived: [(v) => typeof v === 'boolean', 'true or false'],
+    archivedAt: [(v) => v === undefined || v === null || isTimestamp(v), 'an ISO timestamp or null if set'],
+    deletedAt: [(v) => v === undefined || v === null || isTimestamp(v), 'an ISO timestamp or null if set'],
+    order: [(v) => typeof v === 'number' && Number.isFinite(v), 'a number'],
+  });
+}
+
+export function validateEntry(entry: Record<string, unknown>, habit: Habit | undefined): string[] {
+  const errors = checkFields(entry, {
+    habitId: [isNonEmptyString, 'a non-empty string'],
+    date: [isDay, 'a date in YYYY-MM-DD format'],
+    value: [isNonNegativeNumber, 'a non-negative number'],
+    targetAtEntry: [(v) => v === undefined || isNonNegativeNumber(v), 'a non-negative number if set'],
+    thresholdAtEntry: [(v) => v === undefined || isThreshold(v), 'a number above 0 and at most 1 if set'],
+    sessions: [(v) => v === undefined || isSessionList(v), 'a list of sessions with start and end timestamps if set'],
+    events: [(v) => v === undefined || isEventList(v), 'a list of events with an id, time and amount if set'],
+    note: [(v) => v === undefined || isString(v), 'a string if set'],
+    loggedLate: [(v) => v === undefined || typeof v === 'boolean', 'true or false if set'],
+    skipReason: [(v) => v === undefined || isString(v), 'a string if set'],
+    history: [(v) => v === undefined || isRevisionList(v), 'a list of changes with a timestamp and before/after values if set'],
+    createdAt: [isTimestamp, 'an ISO timestamp'],
+    updatedAt: [isTimestamp, 'an ISO timestamp'],
+  });
+
+  if (isNonEmptyString(entry.habitId) && !habit) {
+    errors.push(`habit ${String(entry.habitId)} does not exist`);
+  } else if (habit?.type === 'binary' && entry.value !== 0 && entry.value !== 1) {
+    errors.push('value must be 0 or 1 for a yes/no habit');
+  }
+  return errors;
+}
+
+export function validateJournal(journal: Record<string, unknown>): string[] {
+  return checkFields(journal, {
+    date: [isDay, 'a date in YYYY-MM-DD format'],
+    mood: [(v) => v === null || (Number.isInteger(v) && (v as number) >= 1 && (v as number) <= 5), 'a whole number from 1 to 5, or null'],
+    tags: [(v) => Array.isArray(v) && v.every(isNonEmptyString), 'a list of non-empty strings'],
+    note: [isString, 'a string'],
+    vacation: [(v) => v === undefined || typeof v === 'boolean', 'true or false if set'],
+    frozen: [(v) => v === undefined || typeof v === 'boolean', 'true or false if set'],
+    createdAt: [isTimestamp, 'an ISO timestamp'],
+    updatedAt: [isTimestamp, 'an ISO timestamp'],
+  });
+}
+
+// ============ PREVIEW ============
+
+function emptyCounts(): ImportCounts {
+  return { added: 0, overwritten: 0, unchanged: 0, skipped: 0, invalid: 0 };
+}
+
+function isSameRecord(a: object, b: object): boolean {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  // Stringify so nested values such as a habit's schedule compare by content
+  return Array.from(keys).every((key) => JSON.stringify(left[key]) === JSON.stringify(right[key]));
+}
+
+/**
+ * Validate an import file and work out what importing it would change,
+ * without writing anything. Entries are compared with the same
+ * last-writer-wins policy that storage applies on write.
+ *
+ * Entries may refer to habits in the file or to habits already stored.
+ */
+export function previewImport(
+  data: unknown,
+  existingHabits: Habit[],
+  existingEntries: DailyEntry[]
+): ImportPreview {
+  const issues: ImportIssue[] = [];
+  const habitCounts = emptyCounts();
+  const entryCounts = emptyCounts();
+  const habits: Habit[] = [];
+  const entries: DailyEntry[] = [];
+  const journal: DayJournal[] = [];
+
+  if (!isObject(data) || !Array.isArray(data.habits) || !Array.isArray(data.entries)) {
+    issues.push({ record: 'file', index: -1, message: 'Expected an object with habits and entries arrays' });
+    return { version: SCHEMA_VERSION, habits, entries, journal, issues, habitCounts, entryCounts };
+  }
+
+  let version: number;
+  try {
+    // Also rejects files from a newer version of the app
+    version = getSchemaVersion(data.version);
+  } catch (err) {
+    issues.push({ record: 'file', index: -1, message: err instanceof Error ? err.message : String(err) });
+    return { version: SCHEMA_VERSION, habits, entries, journal, issues, habitCounts, entryCounts };
+  }
+
+  const storedHabits = new Map(existingHabits.map((h) => [h.id, h]));
+  const importedHabits = new Map<string, Habit>();
+
+  data.habits.forEach((raw: unknown, index: number) => {
+    const habit = isObject(raw) ? migrateHabit(raw, version) : undefined;
+    const errors = habit ? validateHabit(habit as unknown as Record<string, unknown>) : ['must be an object'];
+    if (habit && errors.length === 0 && importedHabits.has(habit.id)) {
+      errors.push('duplicate habit id in file');
+    }
+    if (!habit || errors.length > 0) {
+      issues.push({ record: 'habit', index, id: habit?.id, message: errors.join('; ') });
+      habitCounts.invalid++;
+      return;
+    }
+
+    importedHabits.set(habit.id, habit);
+    habits.push(habit);
+    const stored = storedHabits.get(habit.id);
+    if (!stored) habitCounts.added++;
+    else if (isSameRecord(stored, habit)) habitCounts.unchanged++;
+    else habitCounts.overwritten++;
+  });
+
+  const storedEntries = new Map(existingEntries.map((e) => [`${e.habitId}_${e.date}`, e]));
+  const importedEntryIds = new Set<string>();
+
+  data.entries.forEach((raw: unknown, index: number) => {
+    const entry = isObject(raw) ? migrateEntry(raw, version) : undefined;
+    const habit = entry && (importedHabits.get(entry.habitId) ?? storedHabits.get(entry.habitId));
+    const errors = entry ? validateEntry(entry as unknown as Record<string, unknown>, habit) : ['must be an object'];
+    if (entry && errors.length === 0 && importedEntryIds.has(entry.id)) {
+      errors.push('duplicate entry for the same habit and day');
+    }
+    if (!entry || errors.length > 0) {
+      issues.push({ record: 'entry', index, id: entry?.id, message: errors.join('; ') });
+      entryCounts.invalid++;
+      return;
+    }
+
+    importedEntryIds.add(entry.id);
+    entries.push(entry);
+    const stored = storedEntries.get(entry.id);
+    const { changed } = resolveEntry(stored, entry, 'import');
+    if (!stored) entryCounts.added++;
+    else if (isSameRecord(stored, { ...stored, ...entry })) entryCounts.unchanged++;
+    else if (changed) entryCounts.overwritten++;
+    else entryCounts.skipped++;
+  });
+
+  // Exports made before the journal existed have none
+  const rawJournal: unknown[] = Array.isArray(data.journal) ? data.journal : [];
+  const importedJournalDates = new Set<string>();
+  rawJournal.forEach((raw, index) => {
+    const errors = isObject(raw) ? validateJournal(raw) : ['must be an object'];
+    const day = isObject(raw) ? ({ ...raw, id: raw.date } as unknown as DayJournal) : undefined;
+    if (day && errors.length === 0 && importedJournalDates.has(day.date)) {
+      errors.push('duplicate journal entry for the same day');
+    }
+    if (!day || errors.length > 0) {
+      issues.push({ record: 'journal', index, id: day?.date, message: errors.join('; ') });
+      return;
+    }
+    importedJournalDates.add(day.date);
+    journal.push(day);
+  });
+
+  return { version, habits, entries, journal, issues, habitCounts, entryCounts };
+}
@@ -0,0 +1,420 @@
+import type { Habit, DailyEntry, DayJournal, EntryConflict, OutboxOperation, QueuedOperation } from '../types';
+import { getLocalStorageSnapshot } from './localStorage';
+import { resolveEntry, resolveEntries, resolveJournal, logConflicts } from './conflicts';
+import { SCHEMA_VERSION, migrateHabit, migrateEntry, needsMigration } from './migrations';
+
+const DB_NAME = 'habit-diary';
+const DB_VERSION = 3;
+const CHANGE_CHANNEL = 'habit-diary-idb';
+
+const HABITS_STORE = 'habits';
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+const OUTBOX_STORE = 'outbox';
+const JOURNAL_STORE = 'journal';
+
+const LEGACY_MIGRATION_KEY = 'migratedFromLocalStorage';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+export const isIndexedDbAvailable = typeof indexedDB !== 'undefined';
+
+// ============ CONNECTION ============
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+function upgradeDatabase(db: IDBDatabase, oldVersion: number, tx: IDBTransaction | null): void {
+  if (!db.objectStoreNames.contains(HABITS_STORE)) {
+    db.createObjectStore(HABITS_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+    const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+    entries.createIndex('habitId', 'habitId');
+    entries.createIndex('date', 'date');
+  }
+  if (!db.objectStoreNames.contains(META_STORE)) {
+    db.createObjectStore(META_STORE, { keyPath: 'key' });
+  }
+  if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+    const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+    outbox.createIndex('userId', 'userId');
+  }
+  if (!db.objectStoreNames.contains(JOURNAL_STORE)) {
+    db.createObjectStore(JOURNAL_STORE, { keyPath: 'id' });
+  }
+  // A brand-new database holds no old records to migrate
+  if (oldVersion === 0) {
+    tx?.objectStore(META_STORE).put({ key: SCHEMA_VERSION_KEY, value: SCHEMA_VERSION });
+  }
+}
+
+/**
+ * Copy the legacy `habit-forge-data` blob into IndexedDB once.
+ * The blob is left in place as a backup; a meta flag prevents re-importing it.
+ */
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+  const tx = db.transaction([HABITS_STORE, ENTRIES_STORE, META_STORE], 'readwrite');
+  const meta = tx.objectStore(META_STORE);
+  const done = await requestToPromise(meta.get(LEGACY_MIGRATION_KEY));
+
+  if (!done) {
+    const legacy = getLocalStorageSnapshot();
+    const habits = tx.objectStore(HABITS_STORE);
+    const entries = tx.objectStore(ENTRIES_STORE);
+    legacy.habits.forEach((habit) => habits.put(habit));
+    legacy.entries.forEach((entry) =>
+      entries.put({ ...entry, id: `${entry.habitId}_${entry.date}` })
+    );
+    meta.put({ key: LEGACY_MIGRATION_KEY, value: new Date().toISOString() });
+  }
+
+  await transactionDone(tx);
+}
+
+/**
+ * Upgrade stored records to the current schema version.
+ * DB_VERSION covers stores and indexes; this covers the shape of the records in them.
+ */
+async function migrateRecords(db: IDBDatabase): Promise<void> {
+  const tx = db.transaction([HABITS_STORE, ENTRIES_STORE, META_STORE], 'readwrite');
+  const meta = tx.objectStore(META_STORE);
+  const stored = await requestToPromise<{ key: string; value: number } | undefined>(
+    meta.get(SCHEMA_VERSION_KEY)
+  );
+
+  if (needsMigration(stored?.value)) {
+    const habits = tx.objectStore(HABITS_STORE);
+    const entries = tx.objectStore(ENTRIES_STORE);
+    const [storedHabits, storedEntries] = await Promise.all([
+      requestToPromise<Habit[]>(habits.getAll()),
+      requestToPromise<DailyEntry[]>(entries.getAll()),
+    ]);
+    storedHabits.forEach((habit) => habits.put(migrateHabit(habit, stored?.value)));
+    storedEntries.forEach((entry) => entries.put(migrateEntry(entry, stored?.value)));
+    meta.put({ key: SCHEMA_VERSION_KEY, value: SCHEMA_VERSION });
+  }
+
+  await transactionDone(tx);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = (async () => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (e) => upgradeDatabase(request.result, e.oldVersion, request.transaction);
+      const db = await requestToPromise(request);
+      await migrateFromLocalStorage(db);
+      await migrateRecords(db);
+      return db;
+    })();
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// ============ CHANGE NOTIFICATION ============
+
+// IndexedDB has no change events, so writes announce themselves:
+// an EventTarget for this tab and a BroadcastChannel for other tabs.
+// Outbox changes use their own topic so they don't reload habit data.
+type ChangeTopic = 'data' | 'outbox';
+
+const changeTarget = new EventTarget();
+const changeChannel = typeof BroadcastChannel !== 'undefined'
+  ? new BroadcastChannel(CHANGE_CHANNEL)
+  : null;
+
+changeChannel?.addEventListener('message', (e: MessageEvent<ChangeTopic>) => {
+  changeTarget.dispatchEvent(new Event(e.data));
+});
+
+function notifyChange(topic: ChangeTopic = 'data'): void {
+  changeTarget.dispatchEvent(new Event(topic));
+  changeChannel?.postMessage(topic);
+}
+
+function subscribe<T>(
+  load: () => Promise<T>,
+  callback: (value: T) => void,
+  topic: ChangeTopic = 'data'
+): () => void {
+  let active = true;
+  const refresh = () => {
+    load()
+      .then((value) => {
+        if (active) callback(value);
+      })
+      .catch((error) => console.error('Error reading from IndexedDB:', error));
+  };
+
+  refresh();
+  changeTarget.addEventListener(topic, refresh);
+  return () => {
+    active = false;
+    changeTarget.removeEventListener(topic, refresh);
+  };
+}
+
+// ============ HABIT OPERATIONS ============
+
+export async function createHabitIdb(habit: Habit): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction(HABITS_STORE, 'readwrite');
+  tx.objectStore(HABITS_STORE).put(habit);
+  await transactionDone(tx);
+  notifyChange();
+}
+
+export async function updateHabitIdb(habitId: string, updates: Partial<Habit>): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction(HABITS_STORE, 'readwrite');
+  const store = tx.objectStore(HABITS_STORE);
+  const existing = await requestToPromise<Habit | undefined>(store.get(habitId));
+  if (existing) {
+    store.put({ ...existing, ...updates });
+  }
+  await transactionDone(tx);
+  notifyChange();
+}
+
+export async function deleteHabitIdb(habitId: string): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction([HABITS_STORE, ENTRIES_STORE], 'readwrite');
+  tx.objectStore(HABITS_STORE).delete(habitId);
+
+  const entryKeys = await requestToPromise(
+    tx.objectStore(ENTRIES_STORE).index('habitId').getAllKeys(habitId)
+  );
+  const entries = tx.objectStore(ENTRIES_STORE);
+  entryKeys.forEach((key) => entries.delete(key));
+
+  await transactionDone(tx);
+  notifyChange();
+}
+
+// Includes archived habits (used for migration and export)
+export async function getAllHabitsIdb(): Promise<Habit[]> {
+  const db = await getDatabase();
+  const habits = await requestToPromise<Habit[]>(
+    db.transaction(HABITS_STORE).objectStore(HABITS_STORE).getAll()
+  );
+  return habits.sort((a, b) => a.order - b.order);
+}
+
+export async function getHabitsIdb(): Promise<Habit[]> {
+  const habits = await getAllHabitsIdb();
+  return habits.filter((h) => !h.archived);
+}
+
+// Includes archived habits, which still count in historical stats
+export function subscribeToHabitsIdb(callback: (habits: Habit[]) => void): () => void {
+  return subscribe(getAllHabitsIdb, callback);
+}
+
+// ============ ENTRY OPERATIONS ============
+
+async function putEntries(store: IDBObjectStore, entries: DailyEntry[]): Promise<{ changed: boolean; conflicts: EntryConflict[] }> {
+  let changed = false;
+  const conflicts: EntryConflict[] = [];
+  for (const entry of entries) {
+    const existing = await requestToPromise<DailyEntry | undefined>(
+      store.get(`${entry.habitId}_${entry.date}`)
+    );
+    const resolution = resolveEntry(existing, entry, 'edit');
+    if (resolution.changed) {
+      store.put(resolution.entry);
+      changed = true;
+    }
+    if (resolution.conflict) conflicts.push(resolution.conflict);
+  }
+  return { changed, conflicts };
+}
+
+export async function upsertEntryIdb(entry: DailyEntry): Promise<void> {
+  return upsertEntriesIdb([entry]);
+}
+
+// All in one transaction, with one change notification for the batch
+export async function upsertEntriesIdb(entries: DailyEntry[]): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction(ENTRIES_STORE, 'readwrite');
+  const { changed, conflicts } = await putEntries(tx.objectStore(ENTRIES_STORE), entries);
+
+  await transactionDone(tx);
+  logConflicts(conflicts);
+  if (changed) notifyChange();
+}
+
+/**
+ * Entries with dates in [startDate, endDate], read through the `date` index
+ * so only the requested range is loaded. A null startDate reads from the first entry.
+ */
+export async function getEntriesInRangeIdb(startDate: string | null, endDate: string): Promise<DailyEntry[]> {
+  const db = await getDatabase();
+  const index = db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).index('date');
+  const range = startDate ? IDBKeyRange.bound(startDate, endDate) : IDBKeyRange.upperBound(endDate);
+  // The index is already ordered by date
+  return requestToPromise<DailyEntry[]>(index.getAll(range));
+}
+
+export async function getAllEntriesIdb(): Promise<DailyEntry[]> {
+  const db = await getDatabase();
+  const entries = await requestToPromise<DailyEntry[]>(
+    db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll()
+  );
+  return entries.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export function subscribeToEntriesInRangeIdb(
+  startDate: string | null,
+  endDate: string,
+  callback: (entries: DailyEntry[]) => void
+): () => void {
+  return subscribe(() => getEntriesInRangeIdb(startDate, endDate), callback);
+}
+
+// ============ JOURNAL OPERATIONS ============
+
+// Keyed by date, so each incoming day is resolved against the stored one
+async function putJournalDays(store: IDBObjectStore, days: DayJournal[]): Promise<void> {
+  for (const journal of days) {
+    const existing = await requestToPromise<DayJournal | undefined>(store.get(journal.date));
+    const { journal: resolved, changed } = resolveJournal(existing, journal);
+    if (changed) store.put(resolved);
+  }
+}
+
+export async function upsertJournalIdb(journal: DayJournal): Promise<void> {
+  return upsertJournalsIdb([journal]);
+}
+
+export async function upsertJournalsIdb(journal: DayJournal[]): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction(JOURNAL_STORE, 'readwrite');
+  await putJournalDays(tx.objectStore(JOURNAL_STORE), journal);
+  await transactionDone(tx);
+  notifyChange();
+}
+
+export async function getJournalIdb(): Promise<DayJournal[]> {
+  const db = await getDatabase();
+  const journal = await requestToPromise<DayJournal[]>(
+    db.transaction(JOURNAL_STORE).objectStore(JOURNAL_STORE).getAll()
+  );
+  return journal.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export function subscribeToJournalIdb(callback: (journal: DayJournal[]) => void): () => void {
+  return subscribe(getJournalIdb, callback);
+}
+
+// ============ BULK OPERATIONS ============
+
+export async function importDataIdb(habits: Habit[], entries: DailyEntry[], journal: DayJournal[] = []): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction([HABITS_STORE, ENTRIES_STORE, JOURNAL_STORE], 'readwrite');
+  const habitStore = tx.objectStore(HABITS_STORE);
+  const entryStore = tx.objectStore(ENTRIES_STORE);
+
+  // Records are keyed by id, so put() both updates existing and adds new ones
+  habits.forEach((habit) => habitStore.put(habit));
+
+  const stored = await requestToPromise<DailyEntry[]>(entryStore.getAll());
+  const resolved = resolveEntries(new Map(stored.map((e) => [e.id, e])), entries, 'import');
+  resolved.entries.forEach((entry) => entryStore.put(entry));
+  await putJournalDays(tx.objectStore(JOURNAL_STORE), journal);
+
+  await transactionDone(tx);
+  logConflicts(resolved.conflicts);
+  notifyChange();
+}
+
+export async function resetWeekDataIdb(weekStart: string, weekEnd: string): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction(ENTRIES_STORE, 'readwrite');
+  const store = tx.objectStore(ENTRIES_STORE);
+  const keys = await requestToPromise(
+    store.index('date').getAllKeys(IDBKeyRange.bound(weekStart, weekEnd))
+  );
+  keys.forEach((key) => store.delete(key));
+  await transactionDone(tx);
+  notifyChange();
+}
+
+export async function deleteAllHabitsIdb(): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction([HABITS_STORE, ENTRIES_STORE, JOURNAL_STORE], 'readwrite');
+  tx.objectStore(HABITS_STORE).clear();
+  tx.objectStore(ENTRIES_STORE).clear();
+  tx.objectStore(JOURNAL_STORE).clear();
+  await transactionDone(tx);
+  notifyChange();
+}
+
+export async function deleteAllEntriesIdb(): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction([ENTRIES_STORE, JOURNAL_STORE], 'readwrite');
+  tx.objectStore(ENTRIES_STORE).clear();
+  tx.objectStore(JOURNAL_STORE).clear();
+  await transactionDone(tx);
+  notifyChange();
+}
+
+// ============ SYNC OUTBOX ============
+
+export async function addOutboxOperationIdb(userId: string, operation: OutboxOperation): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  tx.objectStore(OUTBOX_STORE).add({ ...operation, userId, queuedAt: new Date().toISOString() });
+  await transactionDone(tx);
+  notifyChange('outbox');
+}
+
+export async function getOutboxOperationsIdb(userId: string): Promise<QueuedOperation[]> {
+  const db = await getDatabase();
+  const index = db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE).index('userId');
+  const operations = await requestToPromise<QueuedOperation[]>(index.getAll(userId));
+  return operations.sort((a, b) => a.seq - b.seq);
+}
+
+export async function deleteOutboxOperationIdb(seq: number): Promise<void> {
+  const db = await getDatabase();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  tx.objectStore(OUTBOX_STORE).delete(seq);
+  await transactionDone(tx);
+  notifyChange('outbox');
+}
+
+export async function deleteOutboxOperationsIdb(seqs: number[]): Promise<void> {
+  if (seqs.length === 0) return;
+  const db = await getDatabase();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  const store = tx.objectStore(OUTBOX_STORE);
+  seqs.forEach((seq) => store.delete(seq));
+  await transactionDone(tx);
+  notifyChange('outbox');
+}
+
+export function subscribeToOutboxIdb(
+  userId: string,
+  callback: (operations: QueuedOperation[]) => void
+): () => void {
+  return subscribe(() => getOutboxOperationsIdb(userId), callback, 'outbox');
+}
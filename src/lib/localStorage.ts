@@ -1,32 +1,52 @@
-import type { Habit, DailyEntry } from '../types';
+import type { Habit, DailyEntry, DayJournal, EntryConflict } from '../types';
+import { resolveEntry, resolveEntries, resolveJournal, logConflicts } from './conflicts';
+import { SCHEMA_VERSION, migrateData, needsMigration } from './migrations';
 
 const STORAGE_KEY = 'habit-forge-data';
 
-interface StorageData {
+export interface StorageData {
+  version?: number; // Schema version, missing on blobs written before versioning
   habits: Habit[];
   entries: DailyEntry[];
+  journal?: DayJournal[]; // Missing on blobs written before the journal existed
 }
 
 function getStorageData(): StorageData {
+  let data: StorageData | null = null;
   try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    if (data) {
-      return JSON.parse(data);
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      data = JSON.parse(raw);
     }
   } catch (error) {
     console.error('Error reading from localStorage:', error);
   }
-  return { habits: [], entries: [] };
+  if (!data) return { habits: [], entries: [] };
+
+  // Outside the try: a blob from a newer version must not be treated as empty and overwritten
+  if (needsMigration(data.version)) {
+    const upgraded = { ...data, version: SCHEMA_VERSION, ...migrateData(data) };
+    setStorageData(upgraded);
+    return upgraded;
+  }
+  return data;
 }
 
 function setStorageData(data: StorageData): void {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...data, version: SCHEMA_VERSION }));
   } catch (error) {
+    // Surface quota errors to the caller instead of silently dropping the write
     console.error('Error writing to localStorage:', error);
+    throw error;
   }
 }
 
+// Read the whole blob, e.g. to migrate it into IndexedDB
+export function getLocalStorageSnapshot(): StorageData {
+  return getStorageData();
+}
+
 // ============ HABIT OPERATIONS ============
 
 export async function createHabitLocal(habit: Habit): Promise<void> {
@@ -58,17 +78,24 @@ export async function getHabitsLocal(): Promise<Habit[]> {
     .sort((a, b) => a.order - b.order);
 }
 
+// Includes archived habits (used for migration and export)
+export async function getAllHabitsLocal(): Promise<Habit[]> {
+  const data = getStorageData();
+  return data.habits.sort((a, b) => a.order - b.order);
+}
+
+// Includes archived habits, which still count in historical stats
 export function subscribeToHabitsLocal(callback: (habits: Habit[]) => void): () => void {
   // Initial load
   const data = getStorageData();
-  const habits = data.habits.filter((h) => !h.archived).sort((a, b) => a.order - b.order);
+  const habits = data.habits.sort((a, b) => a.order - b.order);
   callback(habits);
 
   // Listen for storage events from other tabs
   const handleStorageChange = (e: StorageEvent) => {
     if (e.key === STORAGE_KEY) {
       const newData = getStorageData();
-      const newHabits = newData.habits.filter((h) => !h.archived).sort((a, b) => a.order - b.order);
+      const newHabits = newData.habits.sort((a, b) => a.order - b.order);
       callback(newHabits);
     }
   };
@@ -80,64 +107,65 @@ export function subscribeToHabitsLocal(callback: (habits: Habit[]) => void): ()
 // ============ ENTRY OPERATIONS ============
 
 export async function upsertEntryLocal(entry: DailyEntry): Promise<void> {
+  return upsertEntriesLocal([entry]);
+}
+
+// Reads and writes the stored data once for the whole batch
+export async function upsertEntriesLocal(entries: DailyEntry[]): Promise<void> {
   const data = getStorageData();
-  const existingIndex = data.entries.findIndex(
-    (e) => e.habitId === entry.habitId && e.date === entry.date
-  );
-
-  if (existingIndex !== -1) {
-    // Keep the original targetAtEntry if not provided in update (preserve historical target)
-    const existingTarget = data.entries[existingIndex].targetAtEntry;
-    data.entries[existingIndex] = {
-      ...data.entries[existingIndex],
-      value: entry.value,
-      targetAtEntry: entry.targetAtEntry ?? existingTarget,
-      updatedAt: new Date().toISOString(),
-    };
-  } else {
-    data.entries.push({
-      ...entry,
-      id: `${entry.habitId}_${entry.date}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    });
+  const positions = new Map(data.entries.map((e, i) => [`${e.habitId}_${e.date}`, i]));
+  const conflicts: EntryConflict[] = [];
+  let changed = false;
+
+  for (const entry of entries) {
+    const key = `${entry.habitId}_${entry.date}`;
+    const position = positions.get(key);
+    const resolution = resolveEntry(position !== undefined ? data.entries[position] : undefined, entry, 'edit');
+    if (resolution.conflict) conflicts.push(resolution.conflict);
+    if (!resolution.changed) continue;
+
+    changed = true;
+    if (position !== undefined) {
+      data.entries[position] = resolution.entry;
+    } else {
+      positions.set(key, data.entries.length);
+      data.entries.push(resolution.entry);
+    }
   }
 
-  setStorageData(data);
+  logConflicts(conflicts);
+  if (changed) setStorageData(data);
 }
 
-export async function getEntriesForWeekLocal(weekStart: string, weekEnd: string): Promise<DailyEntry[]> {
+// A null startDate reads from the first entry
+function getStoredEntriesInRange(startDate: string | null, endDate: string): DailyEntry[] {
   const data = getStorageData();
   return data.entries
-    .filter((e) => e.date >= weekStart && e.date <= weekEnd)
+    .filter((e) => (!startDate || e.date >= startDate) && e.date <= endDate)
     .sort((a, b) => a.date.localeCompare(b.date));
 }
 
+export async function getEntriesInRangeLocal(startDate: string | null, endDate: string): Promise<DailyEntry[]> {
+  return getStoredEntriesInRange(startDate, endDate);
+}
+
 export async function getAllEntriesLocal(): Promise<DailyEntry[]> {
   const data = getStorageData();
   return data.entries.sort((a, b) => b.date.localeCompare(a.date));
 }
 
-export function subscribeToEntriesForWeekLocal(
-  weekStart: string,
-  weekEnd: string,
+export function subscribeToEntriesInRangeLocal(
+  startDate: string | null,
+  endDate: string,
   callback: (entries: DailyEntry[]) => void
 ): () => void {
   // Initial load
-  const data = getStorageData();
-  const entries = data.entries
-    .filter((e) => e.date >= weekStart && e.date <= weekEnd)
-    .sort((a, b) => a.date.localeCompare(b.date));
-  callback(entries);
+  callback(getStoredEntriesInRange(startDate, endDate));
 
   // Listen for storage events
   const handleStorageChange = (e: StorageEvent) => {
     if (e.key === STORAGE_KEY) {
-      const newData = getStorageData();
-      const newEntries = newData.entries
-        .filter((e) => e.date >= weekStart && e.date <= weekEnd)
-        .sort((a, b) => a.date.localeCompare(b.date));
-      callback(newEntries);
+      callback(getStoredEntriesInRange(startDate, endDate));
     }
   };
 
@@ -145,9 +173,46 @@ export function subscribeToEntriesForWeekLocal(
   return () => window.removeEventListener('storage', handleStorageChange);
 }
 
+// ============ JOURNAL OPERATIONS ============
+
+function mergeJournalDays(stored: DayJournal[], incoming: DayJournal[]): DayJournal[] {
+  const byDate = new Map(stored.map((j) => [j.date, j]));
+  incoming.forEach((journal) => byDate.set(journal.date, resolveJournal(byDate.get(journal.date), journal).journal));
+  return Array.from(byDate.values());
+}
+
+export async function upsertJournalLocal(journal: DayJournal): Promise<void> {
+  return upsertJournalsLocal([journal]);
+}
+
+export async function upsertJournalsLocal(journal: DayJournal[]): Promise<void> {
+  const data = getStorageData();
+  data.journal = mergeJournalDays(data.journal ?? [], journal);
+  setStorageData(data);
+}
+
+export async function getJournalLocal(): Promise<DayJournal[]> {
+  const data = getStorageData();
+  return (data.journal ?? []).sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export function subscribeToJournalLocal(callback: (journal: DayJournal[]) => void): () => void {
+  const refresh = () => {
+    getJournalLocal().then(callback);
+  };
+  refresh();
+
+  const handleStorageChange = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) refresh();
+  };
+
+  window.addEventListener('storage', handleStorageChange);
+  return () => window.removeEventListener('storage', handleStorageChange);
+}
+
 // ============ BULK OPERATIONS ============
 
-export async function importDataLocal(habits: Habit[], entries: DailyEntry[]): Promise<void> {
+export async function importDataLocal(habits: Habit[], entries: DailyEntry[], journal: DayJournal[] = []): Promise<void> {
   const data = getStorageData();
   
   // Merge habits (update existing, add new)
@@ -160,19 +225,15 @@ export async function importDataLocal(habits: Habit[], entries: DailyEntry[]): P
     }
   });
 
-  // Merge entries (update existing, add new)
-  entries.forEach((entry) => {
-    const existingIndex = data.entries.findIndex(
-      (e) => e.habitId === entry.habitId && e.date === entry.date
-    );
-    if (existingIndex !== -1) {
-      data.entries[existingIndex] = entry;
-    } else {
-      data.entries.push(entry);
-    }
-  });
+  // Merge entries, keeping whichever version of each day was written last
+  const existing = new Map(data.entries.map((e) => [`${e.habitId}_${e.date}`, e]));
+  const resolved = resolveEntries(existing, entries, 'import');
+  resolved.entries.forEach((entry) => existing.set(entry.id, entry));
+  data.entries = Array.from(existing.values());
+  data.journal = mergeJournalDays(data.journal ?? [], journal);
 
   setStorageData(data);
+  logConflicts(resolved.conflicts);
 }
 
 export async function resetWeekDataLocal(weekStart: string, weekEnd: string): Promise<void> {
@@ -182,12 +243,13 @@ export async function resetWeekDataLocal(weekStart: string, weekEnd: string): Pr
 }
 
 export async function deleteAllHabitsLocal(): Promise<void> {
-  setStorageData({ habits: [], entries: [] });
+  setStorageData({ habits: [], entries: [], journal: [] });
 }
 
 export async function deleteAllEntriesLocal(): Promise<void> {
   const data = getStorageData();
   data.entries = [];
+  data.journal = [];
   setStorageData(data);
 }
 
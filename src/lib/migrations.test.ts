@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION, migrateData, migrateEntry, needsMigration, getSchemaVersion } from './migrations';
+
+describe('migrateData', () => {
+  it('upgrades unversioned data to the current shape', () => {
+    const { habits, entries } = migrateData({
+      habits: [{ id: 'h1', name: 'Read', type: 'binary', weeklyGoal: 5, unit: 'days' }],
+      entries: [{ habitId: 'h1', date: '2024-03-04', value: 1, createdAt: '2024-03-04T08:00:00.000Z' }],
+    });
+
+    expect(habits[0]).toMatchObject({
+      archived: false,
+      order: 0,
+      createdAt: new Date(0).toISOString(),
+      schedule: { type: 'daily' },
+      goalPeriod: { type: 'week' },
+    });
+    expect(entries[0]).toMatchObject({
+      id: 'h1_2024-03-04',
+      updatedAt: '2024-03-04T08:00:00.000Z',
+      thresholdAtEntry: 0.8,
+    });
+  });
+
+  it('keeps fields the data already has', () => {
+    const { habits } = migrateData({
+      version: 2,
+      habits: [{ id: 'h1', schedule: { type: 'weekdays', days: [1, 3] }, archived: true, order: 4 }],
+      entries: [],
+    });
+
+    expect(habits[0]).toMatchObject({ schedule: { type: 'weekdays', days: [1, 3] }, archived: true, order: 4 });
+  });
+
+  it('leaves current data untouched', () => {
+    const entry = { id: 'h1_2024-03-04', habitId: 'h1', date: '2024-03-04', value: 1 };
+    expect(migrateEntry(entry, SCHEMA_VERSION)).toEqual(entry);
+  });
+});
+
+describe('getSchemaVersion', () => {
+  it('rejects data from a newer version', () => {
+    expect(() => getSchemaVersion(SCHEMA_VERSION + 1)).toThrow(/newer version/);
+    expect(() => migrateData({ version: SCHEMA_VERSION + 1, habits: [], entries: [] })).toThrow();
+  });
+
+  it('rejects malformed versions', () => {
+    expect(() => getSchemaVersion('2')).toThrow(/Invalid schema version/);
+    expect(() => getSchemaVersion(0)).toThrow(/Invalid schema version/);
+  });
+});
+
+describe('needsMigration', () => {
+  it('is true for anything older than the current version', () => {
+    expect(needsMigration(undefined)).toBe(true);
+    expect(needsMigration(SCHEMA_VERSION - 1)).toBe(true);
+    expect(needsMigration(SCHEMA_VERSION)).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import type { Habit, DailyEntry } from '../types';
+
+/**
+ * Version of the Habit / DailyEntry shape this build reads and writes.
+ *
+ * To change the shape, bump this and add a step to MIGRATIONS that upgrades
+ * records from the previous version. Stored data and old backups are then
+ * upgraded one step at a time when they are read.
+ */
+export const SCHEMA_VERSION = 5;
+
+// Data written before versioning existed is treated as version 1,
+// the shape the first exports already labelled as `version: 1`
+const UNVERSIONED = 1;
+
+type StoredRecord = Record<string, unknown>;
+
+interface Migration {
+  habit?: (habit: StoredRecord) => StoredRecord;
+  entry?: (entry: StoredRecord) => StoredRecord;
+}
+
+// Keyed by the version each step upgrades from
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 -> v2: fill fields that storage and conflict resolution rely on
+  1: {
+    habit: (habit) => ({
+      archived: false,
+      order: 0,
+      createdAt: new Date(0).toISOString(),
+      ...habit,
+    }),
+    entry: (entry) => {
+      const createdAt = entry.createdAt ?? entry.updatedAt ?? new Date(0).toISOString();
+      return {
+        ...entry,
+        // Entry ids have always been derived from habit and day; older blobs omitted them
+        id: `${entry.habitId}_${entry.date}`,
+        createdAt,
+        updatedAt: entry.updatedAt ?? createdAt,
+      };
+    },
+  },
+  // v2 -> v3: habits without a schedule were due every day
+  2: {
+    habit: (habit) => ({ schedule: { type: 'daily' }, ...habit }),
+  },
+  // v3 -> v4: goals were always weekly before goal periods existed
+  3: {
+    habit: (habit) => ({ goalPeriod: { type: 'week' }, ...habit }),
+  },
+  // v4 -> v5: every day used to count as done at 80% of its goal
+  // (binary and limit entries ignore the threshold)
+  4: {
+    entry: (entry) => ({ thresholdAtEntry: 0.8, ...entry }),
+  },
+};
+
+// Normalise a stored version, rejecting data this build doesn't understand
+export function getSchemaVersion(version: unknown): number {
+  if (version === undefined || version === null) return UNVERSIONED;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid schema version: ${String(version)}`);
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Data is from a newer version of the app (schema v${version}). Please update to load it.`);
+  }
+  return version;
+}
+
+function migrateRecord(
+  record: StoredRecord,
+  fromVersion: unknown,
+  kind: keyof Migration
+): StoredRecord {
+  let result = record;
+  for (let version = getSchemaVersion(fromVersion); version < SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[version]?.[kind];
+    if (step) result = step(result);
+  }
+  return result;
+}
+
+export function migrateHabit(record: object, fromVersion: unknown): Habit {
+  return migrateRecord(record as StoredRecord, fromVersion, 'habit') as unknown as Habit;
+}
+
+export function migrateEntry(record: object, fromVersion: unknown): DailyEntry {
+  return migrateRecord(record as StoredRecord, fromVersion, 'entry') as unknown as DailyEntry;
+}
+
+export function needsMigration(version: unknown): boolean {
+  return getSchemaVersion(version) < SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a whole data set (localStorage blob or imported JSON) to the current shape.
+ * Throws for files written by a newer version rather than guessing at their fields.
+ */
+export function migrateData(data: {
+  version?: unknown;
+  habits: object[];
+  entries: object[];
+}): { habits: Habit[]; entries: DailyEntry[] } {
+  // Checked up front so an empty file from a newer version is rejected too
+  getSchemaVersion(data.version);
+  return {
+    habits: data.habits.map((habit) => migrateHabit(habit, data.version)),
+    entries: data.entries.map((entry) => migrateEntry(entry, data.version)),
+  };
+}
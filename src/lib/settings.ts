@@ -0,0 +1,55 @@
+const EDIT_WINDOW_KEY = 'habit-diary-edit-window';
+
+// How many days back entries can be edited; null means any past day
+export type EditWindow = number | null;
+
+export const DEFAULT_EDIT_WINDOW = 1;
+
+export const EDIT_WINDOW_OPTIONS: { value: EditWindow; label: string }[] = [
+  { value: 1, label: 'Yesterday' },
+  { value: 3, label: '3 days' },
+  { value: 7, label: '7 days' },
+  { value: null, label: 'Unlimited' },
+];
+
+// ============ EDIT WINDOW ============
+
+// Kept per device, like running timers
+const settingsTarget = new EventTarget();
+
+export function getEditWindow(): EditWindow {
+  try {
+    const data = localStorage.getItem(EDIT_WINDOW_KEY);
+    if (data) {
+      const parsed = JSON.parse(data);
+      if (parsed === null || (Number.isInteger(parsed) && parsed >= 1)) return parsed;
+    }
+  } catch (error) {
+    console.error('Error reading edit window:', error);
+  }
+  return DEFAULT_EDIT_WINDOW;
+}
+
+export function setEditWindow(editWindow: EditWindow): void {
+  try {
+    localStorage.setItem(EDIT_WINDOW_KEY, JSON.stringify(editWindow));
+  } catch (error) {
+    console.error('Error writing edit window:', error);
+  }
+  settingsTarget.dispatchEvent(new Event('change'));
+}
+
+export function subscribeToEditWindow(callback: (editWindow: EditWindow) => void): () => void {
+  const refresh = () => callback(getEditWindow());
+  const handleStorageChange = (e: StorageEvent) => {
+    if (e.key === EDIT_WINDOW_KEY) refresh();
+  };
+
+  refresh();
+  settingsTarget.addEventListener('change', refresh);
+  window.addEventListener('storage', handleStorageChange);
+  return () => {
+    settingsTarget.removeEventListener('change', refresh);
+    window.removeEventListener('storage', handleStorageChange);
+  };
+}
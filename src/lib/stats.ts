@@ -0,0 +1,365 @@
+import { eachDayOfInterval, parseISO, addDays, subDays } from 'date-fns';
+import type { Habit, DailyEntry, DayJournal, DayResult, HabitRangeStats, RangeStats, OverallStats } from '../types';
+import {
+  formatDate,
+  getWeekStart,
+  getWeekEnd,
+  getPeriodRange,
+  getCompletedDates,
+  getExcusedDates,
+  getHabitOnDate,
+  isHabitActiveOn,
+  isHabitDueOn,
+  getDayCompletion,
+  getRangeTargets,
+  getPacingStatus,
+  calculatePeriodStats,
+} from './utils';
+import { createEntryIndex, getHabitEntries, getIndexedEntry, type EntryIndex } from './entryIndex';
+
+// ============ STATS ENGINE ============
+//
+// Every completion rate, perfect day and activity level shown in the app comes from here:
+// - A habit counts on a day if it existed, the day wasn't excused (skipped, vacation or
+//   freeze), and it was due (see isHabitDueOn) or something was logged anyway. Month and
+//   rolling goals have no single due day, so they count on every day.
+// - Its credit for a counted day runs from 0 to 1: the share of the daily goal reached (see
+//   getDayCompletion), or for month and rolling goals, 1 if the goal was on pace that day.
+// - A completion rate is credit over counted days, leaving out days after today.
+// - A day is perfect when every habit due met its daily goal, and off when none was due.
+// - A habit is on track over a range while its total keeps pace with the range's goal.
+
+export interface StatsEngine {
+  getDayResult: (date: Date) => DayResult;
+  // Average credit of the habits counting on the day, or null if none did
+  getDailyCompletion: (date: Date) => number | null;
+  getHabitStats: (habit: Habit, start: Date, end: Date, asOf?: Date) => HabitRangeStats;
+  getRangeStats: (start: Date, end: Date, asOf?: Date) => RangeStats;
+}
+
+function isPeriodGoalOn(habit: Habit, date: Date): boolean {
+  const { goalPeriod } = getHabitOnDate(habit, date);
+  return goalPeriod.type === 'month' || goalPeriod.type === 'rolling';
+}
+
+export function createStatsEngine(habits: Habit[], index: EntryIndex, journal: DayJournal[] = []): StatsEngine {
+  const entriesByHabit = new Map(habits.map((h) => [h.id, getHabitEntries(index, h.id)]));
+  // Dates each habit hit its daily target, using targetAtEntry for historical accuracy
+  const completedByHabit = new Map(habits.map((h) => [h.id, getCompletedDates(h, entriesByHabit.get(h.id)!)]));
+  const excusedByHabit = new Map(habits.map((h) => [h.id, getExcusedDates(h, entriesByHabit.get(h.id)!, journal)]));
+  const credits = new Map<string, number>();
+
+  const countsOn = (habit: Habit, date: Date): boolean => {
+    const dateStr = formatDate(date);
+    if (!isHabitActiveOn(habit, date) || excusedByHabit.get(habit.id)!.has(dateStr)) return false;
+    if (isPeriodGoalOn(habit, date)) return true;
+    return isHabitDueOn(habit, date, completedByHabit.get(habit.id)!, excusedByHabit.get(habit.id)) ||
+      (getIndexedEntry(index, habit.id, dateStr)?.value ?? 0) > 0;
+  };
+
+  const getCredit = (habit: Habit, date: Date): number => {
+    const dateStr = formatDate(date);
+    const key = `${habit.id}_${dateStr}`;
+    let credit = credits.get(key);
+    if (credit === undefined) {
+      if (isPeriodGoalOn(habit, date)) {
+        const { status } = calculatePeriodStats(habit, entriesByHabit.get(habit.id)!, date, date);
+        credit = status === 'complete' || status === 'on-track' ? 1 : 0;
+      } else {
+        credit = getDayCompletion(habit, getIndexedEntry(index, habit.id, dateStr));
+      }
+      credits.set(key, credit);
+    }
+    return credit;
+  };
+
+  const getDayResult = (date: Date): DayResult => {
+    const dateStr = formatDate(date);
+    const habitsExistingOnDay = habits.filter((habit) => isHabitActiveOn(habit, date));
+
+    // If no habits existed on this day, it's not a perfect day
+    if (habitsExistingOnDay.length === 0) return 'missed';
+
+    const habitsDueOnDay = habitsExistingOnDay.filter(
+      (habit) => isHabitDueOn(habit, date, completedByHabit.get(habit.id)!, excusedByHabit.get(habit.id))
+    );
+    if (habitsDueOnDay.length === 0) return 'off';
+
+    return habitsDueOnDay.every((habit) => completedByHabit.get(habit.id)!.has(dateStr)) ? 'perfect' : 'missed';
+  };
+
+  const getDailyCompletion = (date: Date): number | null => {
+    const counted = habits.filter((habit) => countsOn(habit, date));
+    if (counted.length === 0) return null;
+    return counted.reduce((sum, habit) => sum + getCredit(habit, date), 0) / counted.length;
+  };
+
+  const getHabitStats = (habit: Habit, start: Date, end: Date, asOf: Date = new Date()): HabitRangeStats => {
+    const asOfStr = formatDate(asOf);
+    const days = eachDayOfInterval({ start, end });
+    const excusedDates = excusedByHabit.get(habit.id)!;
+    const rangeEntries = entriesByHabit.get(habit.id)!.filter(
+      (e) => e.date >= formatDate(start) && e.date <= formatDate(end)
+    );
+
+    const activeDays = days.filter((d) => isHabitActiveOn(habit, d) && !excusedDates.has(formatDate(d))).length;
+    const countedDays = days.filter((d) => formatDate(d) <= asOfStr && countsOn(habit, d));
+    const credit = countedDays.reduce((sum, d) => sum + getCredit(habit, d), 0);
+    const total = rangeEntries.reduce((sum, e) => sum + e.value, 0);
+
+    const targets = getRangeTargets(habit, start, end, asOf, excusedDates);
+    const status = getPacingStatus(getHabitOnDate(habit, end), total, targets);
+
+    return {
+      habit,
+      total,
+      goal: targets.goal,
+      countedDays: countedDays.length,
+      credit,
+      completionRate: countedDays.length > 0 ? (credit / countedDays.length) * 100 : 0,
+      countsPace: isPeriodGoalOn(habit, end),
+      isOnTrack: status === 'complete' || status === 'on-track',
+      lateDays: rangeEntries.filter((e) => e.loggedLate && e.value > 0).length,
+      activeDays,
+      dailyAverage: activeDays > 0 ? Math.round((total / activeDays) * 10) / 10 : 0,
+      notApplicable: targets.goal === 0,
+    };
+  };
+
+  const getRangeStats = (start: Date, end: Date, asOf: Date = new Date()): RangeStats => {
+    const asOfStr = formatDate(asOf);
+    const days = eachDayOfInterval({ start, end });
+
+    const habitStats = habits
+      .map((habit) => getHabitStats(habit, start, end, asOf))
+      .filter((stat) => !stat.habit.archived || !stat.notApplicable); // Archived habits only where they have history
+    const applicableStats = habitStats.filter((stat) => !stat.notApplicable);
+    const countedDays = applicableStats.reduce((sum, stat) => sum + stat.countedDays, 0);
+    const credit = applicableStats.reduce((sum, stat) => sum + stat.credit, 0);
+
+    return {
+      habitStats,
+      totalDays: days.length,
+      perfectDays: days.filter((d) => formatDate(d) <= asOfStr && getDayResult(d) === 'perfect').length,
+      countedDays,
+      credit,
+      completionRate: countedDays > 0 ? (credit / countedDays) * 100 : 0,
+      habitsOnTrack: applicableStats.filter((stat) => stat.isOnTrack).length,
+    };
+  };
+
+  return { getDayResult, getDailyCompletion, getHabitStats, getRangeStats };
+}
+
+/**
+ * Earliest day whose entries affect the stats of days from `start` on: the
+ * start of the goal period (and, for times-per-week schedules, the week)
+ * each habit had on that day.
+ */
+export function getStatsHistoryStart(habits: Habit[], start: Date): Date {
+  let earliest = getWeekStart(start);
+  for (const habit of habits) {
+    const periodStart = getPeriodRange(getHabitOnDate(habit, start), start).start;
+    if (periodStart < earliest) earliest = periodStart;
+  }
+  return earliest;
+}
+
+export function calculateOverallStats(
+  habits: Habit[],
+  entries: DailyEntry[],
+  weekStart: Date,
+  journal: DayJournal[] = []
+): OverallStats {
+  const week = createStatsEngine(habits, createEntryIndex(entries), journal).getRangeStats(weekStart, getWeekEnd(weekStart));
+
+  // Best and worst performing habits (from applicable ones)
+  const sortedStats = week.habitStats
+    .filter((s) => !s.notApplicable)
+    .sort((a, b) => b.completionRate - a.completionRate);
+
+  return {
+    weekStart: formatDate(weekStart),
+    totalHabits: habits.length,
+    habitsOnTrack: week.habitsOnTrack,
+    overallCompletionPercentage: Math.round(week.completionRate),
+    bestPerformingHabit: sortedStats[0]?.habit.id || null,
+    needsAttentionHabit: sortedStats.find((s) => !s.isOnTrack)?.habit.id || null,
+    weeklyPerfectDays: week.perfectDays,
+    allHabitsWeeklyStreak: 0, // Calculated separately with historical data
+  };
+}
+
+// ============ OVERALL STREAK ============
+
+// Earliest day any of the habits has an entry for
+function getFirstEntryDate(habits: Habit[], index: EntryIndex): string | undefined {
+  let first: string | undefined;
+  for (const habit of habits) {
+    for (const date of index.byHabit.get(habit.id)?.keys() ?? []) {
+      if (!first || date < first) first = date;
+    }
+  }
+  return first;
+}
+
+/**
+ * Calculate overall streak based on WEEKLY goal completion
+ * If all habits meet their weekly goals, that week counts as 7 days toward streak
+ */
+export function calculateOverallStreak(
+  habits: Habit[],
+  index: EntryIndex,
+  journal: DayJournal[] = []
+): {
+  currentStreak: number;
+  maxStreak: number;
+  reachesFirstEntry: boolean; // As for calculateHabitStreak
+  isCurrentWeekOnTrack: boolean;
+  weeklyStatus: 'on-track' | 'warning' | 'behind';
+} {
+  if (habits.length === 0) {
+    return { currentStreak: 0, maxStreak: 0, reachesFirstEntry: false, isCurrentWeekOnTrack: true, weeklyStatus: 'on-track' };
+  }
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const todayStr = formatDate(today);
+
+  const firstDateStr = getFirstEntryDate(habits, index);
+
+  if (!firstDateStr) {
+    return { currentStreak: 0, maxStreak: 0, reachesFirstEntry: false, ...getWeeklyStatus(habits, index, today) };
+  }
+
+  const { getDayResult } = createStatsEngine(habits, index, journal);
+
+  // Today is still in progress, so it can extend a streak but not break it
+  const isMiss = (date: Date): boolean => formatDate(date) !== todayStr && getDayResult(date) === 'missed';
+
+  // Calculate current streak (consecutive perfect days ending today, skipping off days)
+  let currentStreak = 0;
+  let day = today;
+  for (; formatDate(day) >= firstDateStr && !isMiss(day); day = subDays(day, 1)) {
+    if (getDayResult(day) === 'perfect') currentStreak++;
+  }
+  const reachesFirstEntry = currentStreak > 0 && formatDate(day) < firstDateStr;
+
+  // Calculate max streak by checking all days
+  let maxStreak = 0;
+  let tempStreak = 0;
+  for (let date = parseISO(firstDateStr); formatDate(date) <= todayStr; date = addDays(date, 1)) {
+    const result = getDayResult(date);
+    if (result === 'perfect') {
+      tempStreak++;
+      maxStreak = Math.max(maxStreak, tempStreak);
+    } else if (result === 'missed' && formatDate(date) !== todayStr) {
+      tempStreak = 0;
+    }
+  }
+
+  return { currentStreak, maxStreak, reachesFirstEntry, ...getWeeklyStatus(habits, index, today) };
+}
+
+/**
+ * Pacing of all habits in their current goal period (for the badge color)
+ */
+function getWeeklyStatus(
+  habits: Habit[],
+  index: EntryIndex,
+  today: Date
+): { isCurrentWeekOnTrack: boolean; weeklyStatus: 'on-track' | 'warning' | 'behind' } {
+  // Each habit is paced over its own goal period
+  const statuses = habits.map((habit) => calculatePeriodStats(habit, getHabitEntries(index, habit.id), today).status);
+  const habitsWarning = statuses.filter((status) => status === 'warning').length;
+  const habitsBehind = statuses.filter((status) => status === 'behind').length;
+
+  let weeklyStatus: 'on-track' | 'warning' | 'behind';
+  if (habitsBehind > 0) {
+    weeklyStatus = 'behind';
+  } else if (habitsWarning > 0) {
+    weeklyStatus = 'warning';
+  } else {
+    weeklyStatus = 'on-track';
+  }
+
+  return { isCurrentWeekOnTrack: weeklyStatus === 'on-track', weeklyStatus };
+}
+
+// ============ STREAK FREEZES ============
+
+// One streak freeze is earned per this many perfect days, up to MAX_BANKED_FREEZES unspent
+export const PERFECT_DAYS_PER_FREEZE = 7;
+export const MAX_BANKED_FREEZES = 3;
+
+interface FreezeWalk {
+  earned: number;
+  available: number; // Left to spend as of today
+  spent: string[]; // Frozen dates a banked freeze paid for
+  unpaid: string[]; // Frozen dates with nothing banked, or still in the future
+}
+
+/**
+ * Walks the days in order, earning a freeze every PERFECT_DAYS_PER_FREEZE
+ * perfect days (freezes earned while the bank is full are lost) and paying
+ * for each frozen date from the balance on that date.
+ */
+function walkFreezes(habits: Habit[], index: EntryIndex, journal: DayJournal[], frozenDates: string[]): FreezeWalk {
+  const todayStr = formatDate(new Date());
+  const frozen = new Set(frozenDates);
+  const unpaid = frozenDates.filter((date) => date > todayStr);
+  const firstDateStr = [getFirstEntryDate(habits, index), ...frozenDates].filter(Boolean).sort()[0];
+  if (habits.length === 0 || !firstDateStr) {
+    return { earned: 0, available: 0, spent: [], unpaid: frozenDates };
+  }
+
+  // Perfect days are judged without any freezes, so what a freeze pays for never depends on freezes
+  const unfrozenJournal = journal.map((j) => (j.frozen ? { ...j, frozen: false } : j));
+  const { getDayResult } = createStatsEngine(habits, index, unfrozenJournal);
+  const spent: string[] = [];
+  let perfectDays = 0;
+  let available = 0;
+  for (let date = parseISO(firstDateStr); formatDate(date) <= todayStr; date = addDays(date, 1)) {
+    const dateStr = formatDate(date);
+    if (frozen.has(dateStr)) {
+      if (available > 0) {
+        available--;
+        spent.push(dateStr);
+      } else {
+        unpaid.push(dateStr);
+      }
+    } else if (getDayResult(date) === 'perfect' && ++perfectDays % PERFECT_DAYS_PER_FREEZE === 0) {
+      available = Math.min(MAX_BANKED_FREEZES, available + 1);
+    }
+  }
+
+  return { earned: Math.floor(perfectDays / PERFECT_DAYS_PER_FREEZE), available, spent, unpaid };
+}
+
+const getFrozenDates = (journal: DayJournal[]): string[] => journal.filter((j) => j.frozen).map((j) => j.date);
+
+/**
+ * Streak freezes earned from perfect days so far, how many have been spent on
+ * journal days, and how many are left to spend. A freeze only counts as used
+ * when there was one banked on its date.
+ */
+export function getFreezeBalance(
+  habits: Habit[],
+  index: EntryIndex,
+  journal: DayJournal[]
+): { earned: number; used: number; available: number } {
+  const { earned, available, spent } = walkFreezes(habits, index, journal, getFrozenDates(journal));
+  return { earned, used: spent.length, available };
+}
+
+/**
+ * Whether a freeze can be spent on `date`: it isn't in the future, a freeze
+ * was banked on that day, and spending it leaves every later freeze paid for.
+ */
+export function canFreezeDay(habits: Habit[], index: EntryIndex, journal: DayJournal[], date: string): boolean {
+  const frozenDates = getFrozenDates(journal);
+  if (frozenDates.includes(date)) return true;
+  const before = walkFreezes(habits, index, journal, frozenDates);
+  const after = walkFreezes(habits, index, journal, [...frozenDates, date]);
+  return after.unpaid.length === before.unpaid.length;
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { DailyEntry, Habit, OutboxOperation, QueuedOperation } from '../types';
+import { createHabit, replayEntry } from './firebase';
+import { getOutboxOperationsIdb, deleteOutboxOperationIdb, deleteOutboxOperationsIdb } from './indexedDb';
+import { flushOutbox, discardOperations, applyPendingEntries, applyPendingHabits } from './syncQueue';
+
+vi.mock('./firebase', () => ({
+  createHabit: vi.fn(),
+  updateHabit: vi.fn(),
+  deleteHabit: vi.fn(),
+  replayEntry: vi.fn(),
+  replayJournal: vi.fn(),
+}));
+
+// An in-memory outbox standing in for the IndexedDB store
+let outbox: QueuedOperation[] = [];
+
+vi.mock('./indexedDb', () => ({
+  addOutboxOperationIdb: vi.fn(),
+  getOutboxOperationsIdb: vi.fn(async () => [...outbox]),
+  deleteOutboxOperationIdb: vi.fn(async (seq: number) => {
+    outbox = outbox.filter((op) => op.seq !== seq);
+  }),
+  deleteOutboxOperationsIdb: vi.fn(async (seqs: number[]) => {
+    outbox = outbox.filter((op) => !seqs.includes(op.seq));
+  }),
+}));
+
+const USER = 'user-1';
+
+function entry(date: string, value = 1, updatedAt = `${date}T08:00:00.000Z`): DailyEntry {
+  return { id: `h1_${date}`, habitId: 'h1', date, value, createdAt: updatedAt, updatedAt };
+}
+
+function habit(id: string, order: number): Habit {
+  return {
+    id,
+    name: id,
+    type: 'binary',
+    weeklyGoal: 7,
+    goalPeriod: { type: 'week' },
+    schedule: { type: 'daily' },
+    unit: 'days',
+    color: '#3b82f6',
+    icon: '✅',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    archived: false,
+    order,
+  };
+}
+
+function queue(...operations: OutboxOperation[]): QueuedOperation[] {
+  return operations.map((operation, i) => ({
+    ...operation,
+    seq: i + 1,
+    userId: USER,
+    queuedAt: '2026-01-05T08:00:00.000Z',
+  }));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.stubGlobal('navigator', { onLine: true });
+  outbox = [];
+});
+
+describe('flushOutbox', () => {
+  it('replays queued writes in order and removes them', async () => {
+    outbox = queue(
+      { type: 'createHabit', habit: habit('h1', 0) },
+      { type: 'upsertEntry', entry: entry('2026-01-05') }
+    );
+    const calls: string[] = [];
+    vi.mocked(createHabit).mockImplementation(async () => { calls.push('createHabit'); });
+    vi.mocked(replayEntry).mockImplementation(async () => { calls.push('upsertEntry'); });
+
+    await flushOutbox(USER);
+
+    expect(calls).toEqual(['createHabit', 'upsertEntry']);
+    expect(outbox).toEqual([]);
+  });
+
+  it('stops at a transient failure and keeps the rest queued', async () => {
+    outbox = queue(
+      { type: 'upsertEntry', entry: entry('2026-01-05') },
+      { type: 'upsertEntry', entry: entry('2026-01-06') }
+    );
+    vi.mocked(replayEntry).mockRejectedValueOnce(Object.assign(new Error('offline'), { code: 'unavailable' }));
+
+    await flushOutbox(USER);
+
+    expect(replayEntry).toHaveBeenCalledTimes(1);
+    expect(outbox.map((op) => op.seq)).toEqual([1, 2]);
+  });
+
+  it('drops a write that fails permanently and carries on', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    outbox = queue(
+      { type: 'upsertEntry', entry: entry('2026-01-05') },
+      { type: 'upsertEntry', entry: entry('2026-01-06') }
+    );
+    vi.mocked(replayEntry)
+      .mockRejectedValueOnce(Object.assign(new Error('denied'), { code: 'permission-denied' }))
+      .mockResolvedValueOnce(undefined);
+
+    await flushOutbox(USER);
+
+    expect(replayEntry).toHaveBeenCalledTimes(2);
+    expect(outbox).toEqual([]);
+  });
+
+  it('does nothing while offline', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    outbox = queue({ type: 'upsertEntry', entry: entry('2026-01-05') });
+
+    await flushOutbox(USER);
+
+    expect(getOutboxOperationsIdb).not.toHaveBeenCalled();
+    expect(outbox).toHaveLength(1);
+  });
+
+  it('makes another pass for writes queued during a flush', async () => {
+    outbox = queue({ type: 'upsertEntry', entry: entry('2026-01-05') });
+    const late = queue(
+      { type: 'upsertEntry', entry: entry('2026-01-05') },
+      { type: 'upsertEntry', entry: entry('2026-01-06') }
+    )[1];
+    vi.mocked(replayEntry).mockImplementationOnce(async () => {
+      outbox.push(late);
+      void flushOutbox(USER);
+    });
+
+    await flushOutbox(USER);
+
+    expect(replayEntry).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(replayEntry).mock.calls[1][1]).toEqual(entry('2026-01-06'));
+    expect(outbox).toEqual([]);
+  });
+});
+
+describe('discardOperations', () => {
+  it('removes only the matching queued writes', async () => {
+    outbox = queue(
+      { type: 'createHabit', habit: habit('h1', 0) },
+      { type: 'upsertEntry', entry: entry('2026-01-05') }
+    );
+
+    await discardOperations(USER, (op) => op.type === 'upsertEntry');
+
+    expect(deleteOutboxOperationsIdb).toHaveBeenCalledWith([2]);
+    expect(deleteOutboxOperationIdb).not.toHaveBeenCalled();
+    expect(outbox.map((op) => op.type)).toEqual(['createHabit']);
+  });
+});
+
+describe('applyPendingEntries', () => {
+  it('overlays queued entries unless the server has a newer edit', () => {
+    const server = [entry('2026-01-05', 2, '2026-01-05T10:00:00.000Z'), entry('2026-01-06', 1)];
+    const pending = queue(
+      { type: 'upsertEntry', entry: entry('2026-01-05', 5, '2026-01-05T09:00:00.000Z') },
+      { type: 'upsertEntry', entry: entry('2026-01-06', 3, '2026-01-06T09:00:00.000Z') },
+      { type: 'upsertEntry', entry: entry('2026-01-07', 1) }
+    );
+
+    const values = Object.fromEntries(applyPendingEntries(server, pending).map((e) => [e.date, e.value]));
+
+    expect(values).toEqual({ '2026-01-05': 2, '2026-01-06': 3, '2026-01-07': 1 });
+  });
+
+  it('drops the entries of a habit pending deletion', () => {
+    const pending = queue({ type: 'deleteHabit', habitId: 'h1' });
+    expect(applyPendingEntries([entry('2026-01-05')], pending)).toEqual([]);
+  });
+});
+
+describe('applyPendingHabits', () => {
+  it('applies queued creates, updates and deletes in order', () => {
+    const pending = queue(
+      { type: 'createHabit', habit: habit('c', 0) },
+      { type: 'updateHabit', habitId: 'a', updates: { name: 'Renamed' } },
+      { type: 'deleteHabit', habitId: 'b' }
+    );
+
+    const result = applyPendingHabits([habit('a', 1), habit('b', 2)], pending);
+
+    expect(result.map((h) => [h.id, h.name])).toEqual([['c', 'c'], ['a', 'Renamed']]);
+  });
+});
@@ -0,0 +1,174 @@
+import type { Habit, DailyEntry, DayJournal, OutboxOperation, QueuedOperation } from '../types';
+import { createHabit, updateHabit, deleteHabit, replayEntry, replayJournal } from './firebase';
+import { resolveEntry, resolveJournal } from './conflicts';
+import {
+  addOutboxOperationIdb,
+  getOutboxOperationsIdb,
+  deleteOutboxOperationIdb,
+  deleteOutboxOperationsIdb,
+} from './indexedDb';
+
+// ============ REPLAY ============
+
+/**
+ * Errors worth retrying once the connection is back.
+ * Anything else (e.g. permission-denied) would fail again on every replay.
+ */
+function isTransientError(error: unknown): boolean {
+  if (!navigator.onLine) return true;
+  const code = (error as { code?: string } | null)?.code;
+  return code === 'unavailable' || code === 'deadline-exceeded' || code === 'resource-exhausted';
+}
+
+async function applyOperation(userId: string, operation: OutboxOperation): Promise<void> {
+  switch (operation.type) {
+    case 'createHabit':
+      return createHabit(userId, operation.habit);
+    case 'updateHabit':
+      return updateHabit(userId, operation.habitId, operation.updates);
+    case 'deleteHabit':
+      return deleteHabit(userId, operation.habitId);
+    case 'upsertEntry':
+      return replayEntry(userId, operation.entry);
+    case 'upsertJournal':
+      return replayJournal(userId, operation.journal);
+  }
+}
+
+// A write that hasn't settled by then counts as a lost connection, so one hung
+// request can't hold up the outbox for good
+const OPERATION_TIMEOUT_MS = 30000;
+
+function withTimeout(promise: Promise<void>): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(Object.assign(new Error('Queued write timed out'), { code: 'deadline-exceeded' })),
+      OPERATION_TIMEOUT_MS
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+const flushing = new Map<string, Promise<void>>();
+const flushRequested = new Set<string>(); // Asked for again while a flush was running
+
+/**
+ * Replay queued writes to Firestore in order, until the outbox is empty.
+ * Stops at the first transient failure so later writes never overtake earlier ones.
+ */
+export function flushOutbox(userId: string): Promise<void> {
+  const running = flushing.get(userId);
+  if (running) {
+    // Operations queued since the running flush read the outbox get another pass
+    flushRequested.add(userId);
+    return running;
+  }
+
+  const flush = (async () => {
+    do {
+      flushRequested.delete(userId);
+      if (!navigator.onLine) return;
+      const operations = await getOutboxOperationsIdb(userId);
+
+      for (const operation of operations) {
+        try {
+          await withTimeout(applyOperation(userId, operation));
+        } catch (error) {
+          if (isTransientError(error)) return;
+          console.error('Dropping queued write that cannot be synced:', operation, error);
+        }
+        await deleteOutboxOperationIdb(operation.seq);
+      }
+    } while (flushRequested.has(userId));
+  })().finally(() => {
+    flushing.delete(userId);
+    flushRequested.delete(userId);
+  });
+
+  flushing.set(userId, flush);
+  return flush;
+}
+
+/**
+ * Drop queued writes that a bulk operation is about to clear, so replaying them
+ * later can't bring the cleared data back. A flush already running finishes first.
+ */
+export async function discardOperations(
+  userId: string,
+  matches: (operation: OutboxOperation) => boolean
+): Promise<void> {
+  await flushing.get(userId)?.catch(() => {});
+  const operations = await getOutboxOperationsIdb(userId);
+  await deleteOutboxOperationsIdb(operations.filter(matches).map((operation) => operation.seq));
+}
+
+export async function enqueueOperation(userId: string, operation: OutboxOperation): Promise<void> {
+  await addOutboxOperationIdb(userId, operation);
+  // Fire and forget: the write is already safe in the outbox
+  flushOutbox(userId).catch((error) => console.error('Failed to sync outbox:', error));
+}
+
+/**
+ * Replay the outbox now and whenever the browser comes back online.
+ */
+export function startOutboxSync(userId: string): () => void {
+  const handleOnline = () => {
+    flushOutbox(userId).catch((error) => console.error('Failed to sync outbox:', error));
+  };
+
+  handleOnline();
+  window.addEventListener('online', handleOnline);
+  return () => window.removeEventListener('online', handleOnline);
+}
+
+// ============ OPTIMISTIC OVERLAY ============
+
+// Apply pending writes on top of server data so queued ticks show up immediately
+
+export function applyPendingHabits(habits: Habit[], operations: QueuedOperation[]): Habit[] {
+  let result = [...habits];
+
+  for (const operation of operations) {
+    if (operation.type === 'createHabit') {
+      result = [...result.filter((h) => h.id !== operation.habit.id), operation.habit];
+    } else if (operation.type === 'updateHabit') {
+      result = result.map((h) => (h.id === operation.habitId ? { ...h, ...operation.updates } : h));
+    } else if (operation.type === 'deleteHabit') {
+      result = result.filter((h) => h.id !== operation.habitId);
+    }
+  }
+
+  return result.sort((a, b) => a.order - b.order);
+}
+
+export function applyPendingEntries(entries: DailyEntry[], operations: QueuedOperation[]): DailyEntry[] {
+  const byId = new Map(entries.map((e) => [e.id, e]));
+
+  for (const operation of operations) {
+    if (operation.type === 'upsertEntry') {
+      // Same policy as the replay, so a newer edit from another device isn't masked
+      const { entry } = resolveEntry(byId.get(operation.entry.id), operation.entry, 'sync');
+      byId.set(entry.id, entry);
+    } else if (operation.type === 'deleteHabit') {
+      // The replay deletes the habit's entries along with it
+      for (const [id, entry] of byId) {
+        if (entry.habitId === operation.habitId) byId.delete(id);
+      }
+    }
+  }
+
+  return Array.from(byId.values());
+}
+
+export function applyPendingJournal(journal: DayJournal[], operations: QueuedOperation[]): DayJournal[] {
+  const byDate = new Map(journal.map((j) => [j.date, j]));
+
+  for (const operation of operations) {
+    if (operation.type === 'upsertJournal') {
+      byDate.set(operation.journal.date, resolveJournal(byDate.get(operation.journal.date), operation.journal).journal);
+    }
+  }
+
+  return Array.from(byDate.values()).sort((a, b) => b.date.localeCompare(a.date));
+}
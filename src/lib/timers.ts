@@ -0,0 +1,60 @@
+const RUNNING_TIMERS_KEY = 'habit-diary-running-timers';
+
+// Start time (ISO timestamp) of each running timer, by habit id
+export type RunningTimers = Record<string, string>;
+
+// ============ RUNNING TIMERS ============
+
+// Kept per device so a running timer survives reloads until it is stopped
+const timerTarget = new EventTarget();
+
+export function getRunningTimers(): RunningTimers {
+  try {
+    const data = localStorage.getItem(RUNNING_TIMERS_KEY);
+    if (data) {
+      return JSON.parse(data);
+    }
+  } catch (error) {
+    console.error('Error reading running timers:', error);
+  }
+  return {};
+}
+
+function setRunningTimers(timers: RunningTimers): void {
+  try {
+    localStorage.setItem(RUNNING_TIMERS_KEY, JSON.stringify(timers));
+  } catch (error) {
+    console.error('Error writing running timers:', error);
+  }
+  timerTarget.dispatchEvent(new Event('change'));
+}
+
+export function startTimer(habitId: string, startedAt: string = new Date().toISOString()): void {
+  const timers = getRunningTimers();
+  if (timers[habitId]) return;
+  setRunningTimers({ ...timers, [habitId]: startedAt });
+}
+
+/**
+ * Stop a habit's timer, returning when it was started (undefined if it wasn't running).
+ */
+export function stopTimer(habitId: string): string | undefined {
+  const { [habitId]: startedAt, ...rest } = getRunningTimers();
+  if (startedAt) setRunningTimers(rest);
+  return startedAt;
+}
+
+export function subscribeToRunningTimers(callback: (timers: RunningTimers) => void): () => void {
+  const refresh = () => callback(getRunningTimers());
+  const handleStorageChange = (e: StorageEvent) => {
+    if (e.key === RUNNING_TIMERS_KEY) refresh();
+  };
+
+  refresh();
+  timerTarget.addEventListener('change', refresh);
+  window.addEventListener('storage', handleStorageChange);
+  return () => {
+    timerTarget.removeEventListener('change', refresh);
+    window.removeEventListener('storage', handleStorageChange);
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseISO } from 'date-fns';
+import type { Habit, DailyEntry } from '../types';
+import { calculateWeeklyStats, exportToMarkdown } from './utils';
+
+const WEEK_START = '2026-01-05'; // A Monday
+
+const coffee: Habit = {
+  id: 'coffee',
+  name: 'Coffee',
+  type: 'limit',
+  weeklyGoal: 7,
+  goalPeriod: { type: 'week' },
+  schedule: { type: 'daily' },
+  unit: 'cups',
+  color: '#92400e',
+  icon: '☕',
+  createdAt: '2025-12-01T00:00:00.000Z',
+  archived: false,
+  order: 0,
+};
+
+// `cups` logged on each of the first `days` days of the week
+function logCups(days: number, cups: number): DailyEntry[] {
+  return Array.from({ length: days }, (_, i) => {
+    const date = `2026-01-${String(5 + i).padStart(2, '0')}`;
+    return {
+      id: `coffee_${date}`,
+      habitId: 'coffee',
+      date,
+      value: cups,
+      createdAt: `${date}T08:00:00.000Z`,
+      updatedAt: `${date}T08:00:00.000Z`,
+    };
+  });
+}
+
+describe('calculateWeeklyStats for limit habits', () => {
+  it('is on track while the total stays under the cap', () => {
+    const stats = calculateWeeklyStats(coffee, logCups(6, 1), parseISO(WEEK_START));
+    expect(stats).toMatchObject({ total: 6, goal: 7, isOnTrack: true, completionPercentage: 100 });
+  });
+
+  it('is on track at exactly the cap', () => {
+    expect(calculateWeeklyStats(coffee, logCups(7, 1), parseISO(WEEK_START)).isOnTrack).toBe(true);
+  });
+
+  it('is off track once the cap is exceeded', () => {
+    const stats = calculateWeeklyStats(coffee, logCups(5, 4), parseISO(WEEK_START));
+    expect(stats).toMatchObject({ total: 20, isOnTrack: false, completionPercentage: 35 });
+  });
+});
+
+describe('exportToMarkdown for limit habits', () => {
+  it('reports a limit that was exceeded as over the limit', () => {
+    const markdown = exportToMarkdown([coffee], logCups(5, 4), WEEK_START, '2026-01-11');
+    expect(markdown).toContain('| ☕ Coffee | 20 / 7 cups | 🔴 Over limit (35%) |');
+  });
+
+  it('reports a limit that was kept as under the limit', () => {
+    const markdown = exportToMarkdown([coffee], logCups(3, 1), WEEK_START, '2026-01-11');
+    expect(markdown).toContain('| ☕ Coffee | 3 / 7 cups | ✅ Under limit (100%) |');
+  });
+});
@@ -11,19 +11,40 @@ import {
   differenceInDays,
   addDays,
   subDays,
+  getDay,
+  startOfMonth,
+  endOfMonth,
+  addMonths,
 } from 'date-fns';
-import type { Habit, DailyEntry, WeeklyStats, OverallStats, StreakData } from '../types';
+import type {
+  Habit,
+  DailyEntry,
+  WeeklyStats,
+  PeriodStats,
+  PacingStatus,
+  TimerSession,
+  EntryEvent,
+  DayJournal,
+  NoteSearchResult,
+  GoalVersion,
+  StreakData,
+  ExportData,
+  EntryRevision,
+  HabitSchedule,
+} from '../types';
+import { SCHEMA_VERSION } from './migrations';
+import { DEFAULT_EDIT_WINDOW, type EditWindow } from './settings';
 
 // ============ DATE UTILITIES ============
 
 /**
  * Check if a date is editable:
  * - Today is always editable
- * - Yesterday is always editable (full day)
+ * - The last `editWindow` days are editable (by default just yesterday)
  * - Future dates are not editable
- * - All other past dates are locked
+ * - All other past dates are locked, unless the window is unlimited (null)
  */
-export function isDateEditable(dateStr: string): boolean {
+export function isDateEditable(dateStr: string, editWindow: EditWindow = DEFAULT_EDIT_WINDOW): boolean {
   const today = formatDate(new Date());
   const targetDate = parseISO(dateStr);
   const targetDateStr = formatDate(targetDate);
@@ -38,14 +59,69 @@ export function isDateEditable(dateStr: string): boolean {
     return true;
   }
   
-  // Yesterday is always editable
-  const yesterday = formatDate(subDays(new Date(), 1));
-  if (targetDateStr === yesterday) {
+  if (editWindow === null) {
     return true;
   }
   
-  // All other past dates are locked
-  return false;
+  // Anything older than the window is locked
+  return targetDateStr >= formatDate(subDays(new Date(), editWindow));
+}
+
+/**
+ * Whether a write to this date comes after the edit window, i.e. the day is
+ * being backfilled or changed after the fact. Without a window (null), writes
+ * after the default window still count as late so backfills stay visible.
+ */
+export function isLateWrite(
+  dateStr: string,
+  editWindow: EditWindow = DEFAULT_EDIT_WINDOW,
+  now: Date = new Date()
+): boolean {
+  return dateStr < formatDate(subDays(now, editWindow ?? DEFAULT_EDIT_WINDOW));
+}
+
+const MAX_ENTRY_HISTORY = 50;
+
+// A change to the note or skip reason, for writes that leave the value alone
+function getAnnotationChange(existing: DailyEntry | undefined, entry: DailyEntry): EntryRevision['change'] {
+  if ((existing?.skipReason ?? '') !== (entry.skipReason ?? '')) {
+    return entry.skipReason ? 'skip' : 'unskip';
+  }
+  if ((existing?.note ?? '') !== (entry.note ?? '')) {
+    return 'note';
+  }
+  return undefined;
+}
+
+/**
+ * Mark a late write on the entry about to be saved: a first value, note or skip
+ * logged late flags the entry as backfilled, and a late change to an existing
+ * entry is added to its history.
+ */
+export function withEditAudit(
+  existing: DailyEntry | undefined,
+  entry: DailyEntry,
+  editWindow: EditWindow = DEFAULT_EDIT_WINDOW,
+  now: Date = new Date()
+): DailyEntry {
+  const before = existing?.value ?? 0;
+  const result: DailyEntry = {
+    ...entry,
+    ...(existing?.loggedLate ? { loggedLate: true } : {}),
+    ...(existing?.history ? { history: existing.history } : {}),
+  };
+  const change = entry.value === before ? getAnnotationChange(existing, entry) : undefined;
+  if (!isLateWrite(entry.date, editWindow, now) || (entry.value === before && !change)) {
+    return result;
+  }
+
+  if (!existing || (before === 0 && !change)) {
+    result.loggedLate = true;
+  } else {
+    const revision: EntryRevision = { changedAt: now.toISOString(), before, after: entry.value, ...(change ? { change } : {}) };
+    result.history = [...(existing?.history ?? []), revision].slice(-MAX_ENTRY_HISTORY);
+  }
+  return result;
 }
 
 export function getWeekStart(date: Date = new Date()): Date {
@@ -112,6 +188,402 @@ export function getRemainingDaysInWeek(weekStart: Date): number {
   return differenceInDays(weekEnd, today) + 1;
 }
 
+// ============ DURATIONS ============
+
+// Duration habits store minutes; shown as h:mm
+export function formatDuration(minutes: number): string {
+  const total = Math.round(minutes);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Parse "h:mm" or a plain number of minutes. Returns null for anything else.
+ */
+export function parseDuration(input: string): number | null {
+  const trimmed = input.trim();
+  const match = /^(\d+):([0-5]\d)$/.exec(trimmed);
+  if (match) return Number(match[1]) * 60 + Number(match[2]);
+  const minutes = Number(trimmed);
+  return trimmed !== '' && Number.isFinite(minutes) && minutes >= 0 ? minutes : null;
+}
+
+/**
+ * Split a timer run at midnight so each day is credited with its own share.
+ */
+export function splitSessionByDay(
+  start: Date,
+  end: Date
+): { date: string; session: TimerSession; minutes: number }[] {
+  const pieces: { date: string; session: TimerSession; minutes: number }[] = [];
+  let pieceStart = start;
+  while (pieceStart < end) {
+    const midnight = addDays(parseISO(formatDate(pieceStart)), 1);
+    const pieceEnd = midnight < end ? midnight : end;
+    pieces.push({
+      date: formatDate(pieceStart),
+      session: { start: pieceStart.toISOString(), end: pieceEnd.toISOString() },
+      minutes: (pieceEnd.getTime() - pieceStart.getTime()) / 60000,
+    });
+    pieceStart = pieceEnd;
+  }
+  return pieces;
+}
+
+// ============ EVENT LOG ============
+
+export function sumEvents(events: EntryEvent[]): number {
+  return Math.round(events.reduce((sum, e) => sum + e.amount, 0) * 1000) / 1000;
+}
+
+/**
+ * Append an event to a day's log and recompute the day's value.
+ * A value logged before the day had events is kept as a seed event with a
+ * fixed id, so retried or concurrent appends never count it twice.
+ */
+export function appendEntryEvent(
+  existing: DailyEntry | undefined,
+  event: EntryEvent
+): { value: number; events: EntryEvent[] } {
+  const events = existing?.events ? [...existing.events] : [];
+  if (existing && !existing.events && existing.value !== 0) {
+    events.push({ id: `${existing.id}_initial`, time: existing.updatedAt ?? existing.createdAt, amount: existing.value });
+  }
+  events.push(event);
+  return { value: sumEvents(events), events };
+}
+
+// ============ SCHEDULES ============
+
+// Monday-first, matching the week layout; values are Date#getDay numbers
+export const WEEKDAY_OPTIONS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' },
+];
+
+export function describeSchedule(habit: Pick<Habit, 'schedule'>): string {
+  const { schedule } = habit;
+  if (schedule.type === 'weekdays') {
+    return WEEKDAY_OPTIONS.filter((o) => schedule.days.includes(o.day)).map((o) => o.label).join(', ');
+  }
+  if (schedule.type === 'timesPerWeek') {
+    return `${schedule.times}× per week`;
+  }
+  return 'Every day';
+}
+
+/**
+ * Number of days per week the habit is due on.
+ */
+export function getScheduledDaysPerWeek(habit: Pick<Habit, 'schedule'>): number {
+  switch (habit.schedule.type) {
+    case 'weekdays':
+      return habit.schedule.days.length;
+    case 'timesPerWeek':
+      return habit.schedule.times;
+    default:
+      return 7;
+  }
+}
+
+// ============ GOAL PERIODS ============
+
+// Unit for "per ..." labels, e.g. "4 books/month"
+export function describeGoalPeriod(habit: Pick<Habit, 'goalPeriod'>): string {
+  const { goalPeriod } = habit;
+  return goalPeriod.type === 'rolling' ? `${goalPeriod.days} days` : goalPeriod.type;
+}
+
+/**
+ * The goal period containing a date. Rolling periods end on the date itself.
+ */
+export function getPeriodRange(habit: Pick<Habit, 'goalPeriod'>, date: Date): { start: Date; end: Date } {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+
+  switch (habit.goalPeriod.type) {
+    case 'day':
+      return { start: day, end: day };
+    case 'month':
+      return { start: startOfMonth(day), end: endOfMonth(day) };
+    case 'rolling':
+      return { start: subDays(day, habit.goalPeriod.days - 1), end: day };
+    default:
+      return { start: getWeekStart(day), end: getWeekEnd(day) };
+  }
+}
+
+// "N times per week" spread over a period of any length, at least once
+function getFlexibleSlots(times: number, periodDays: number): number {
+  return Math.max(1, Math.round((times * periodDays) / 7));
+}
+
+// The period's goal spread over its scheduled days, for one set of goal settings
+function getDailyGoalFor(
+  settings: Pick<Habit, 'schedule' | 'weeklyGoal' | 'goalPeriod'>,
+  date: Date
+): number {
+  const { start, end } = getPeriodRange(settings, date);
+  const days = eachDayOfInterval({ start, end });
+  const { schedule } = settings;
+
+  const slots = schedule.type === 'weekdays'
+    ? days.filter((d) => schedule.days.includes(getDay(d))).length
+    : schedule.type === 'timesPerWeek'
+      ? getFlexibleSlots(schedule.times, days.length)
+      : days.length;
+  return slots > 0 ? settings.weeklyGoal / slots : 0;
+}
+
+/**
+ * Target for a single due day: the period's goal spread over its scheduled days,
+ * using the goal that was in effect on that day.
+ */
+export function getScheduledDailyGoal(
+  habit: Pick<Habit, 'schedule' | 'weeklyGoal' | 'goalPeriod' | 'goalHistory'>,
+  date: Date = new Date()
+): number {
+  return getDailyGoalFor(getHabitOnDate(habit, date), date);
+}
+
+// ============ GOAL HISTORY ============
+
+type GoalSettings = Omit<GoalVersion, 'effectiveFrom'>;
+
+function toGoalVersion(settings: GoalSettings, effectiveFrom: string): GoalVersion {
+  const { type, weeklyGoal, goalPeriod, schedule, unit } = settings;
+  return { effectiveFrom, type, weeklyGoal, goalPeriod, schedule, unit };
+}
+
+/**
+ * The habit as it was set up on a date: type, goal, period, schedule and unit
+ * come from the goal history entry in effect then. Days before the first
+ * recorded version use that version.
+ */
+export function getHabitOnDate<T extends Pick<Habit, 'goalHistory'>>(habit: T, date: Date | string): T {
+  const history = habit.goalHistory;
+  if (!history || history.length === 0) return habit;
+
+  const dateStr = typeof date === 'string' ? date : formatDate(date);
+  let version = history[0];
+  for (const candidate of history) {
+    if (candidate.effectiveFrom <= dateStr) version = candidate;
+  }
+  const { type, weeklyGoal, goalPeriod, schedule, unit } = version;
+  return { ...habit, type, weeklyGoal, goalPeriod, schedule, unit };
+}
+
+/**
+ * The habit's goal history after an edit, or undefined if the edit leaves
+ * the goal settings alone. The change takes effect from `date`, replacing
+ * any earlier change made the same day. Habits from before goal history
+ * existed get their old settings back-dated to their creation.
+ */
+export function getUpdatedGoalHistory(
+  habit: Habit,
+  updates: Partial<GoalSettings>,
+  date: string = formatDate(new Date())
+): GoalVersion[] | undefined {
+  const next: GoalSettings = { ...habit, ...updates };
+  const isChanged = (['type', 'weeklyGoal', 'goalPeriod', 'schedule', 'unit'] as const)
+    .some((field) => JSON.stringify(next[field]) !== JSON.stringify(habit[field]));
+  if (!isChanged) return undefined;
+
+  const history = habit.goalHistory?.length
+    ? habit.goalHistory
+    : [toGoalVersion(habit, formatDate(parseISO(habit.createdAt)))];
+  return [...history.filter((v) => v.effectiveFrom < date), toGoalVersion(next, date)];
+}
+
+// First day an archived habit no longer counts (the day it was archived), or null
+function getArchiveDay(habit: Habit): string | null {
+  return habit.archived && habit.archivedAt ? formatDate(parseISO(habit.archivedAt)) : null;
+}
+
+/**
+ * Whether a habit counts toward stats on a date: it had been created and
+ * wasn't archived yet. Archived habits keep their history up to the day
+ * they were archived.
+ */
+export function isHabitActiveOn(habit: Habit, date: Date): boolean {
+  const createdDay = parseISO(habit.createdAt);
+  createdDay.setHours(0, 0, 0, 0);
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  const archiveDay = getArchiveDay(habit);
+  return day >= createdDay && (archiveDay === null || formatDate(day) < archiveDay);
+}
+
+// Deleted habits stay in the trash this long before they and their entries are removed for good
+export const TRASH_RETENTION_DAYS = 30;
+
+// When a habit in the trash will be deleted permanently, or null if it isn't in the trash
+export function getTrashExpiry(habit: Pick<Habit, 'deletedAt'>): Date | null {
+  return habit.deletedAt ? addDays(parseISO(habit.deletedAt), TRASH_RETENTION_DAYS) : null;
+}
+
+/**
+ * Dates on which the habit met its daily target.
+ * Limit habits met it on every day up to today (or until archived) that didn't go over the limit,
+ * logged or not, starting from their creation (or earliest entry).
+ */
+export function getCompletedDates(habit: Habit, entries: DailyEntry[]): Set<string> {
+  const habitEntries = entries.filter((e) => e.habitId === habit.id);
+  const completed = new Set(habitEntries.filter((e) => isEntryComplete(e, habit)).map((e) => e.date));
+  const wasLimit = [habit, ...(habit.goalHistory ?? [])].some((v) => v.type === 'limit');
+  if (!wasLimit) return completed;
+
+  const exceeded = new Set(habitEntries.filter((e) => !isEntryComplete(e, habit)).map((e) => e.date));
+  // An archived limit is no longer being kept
+  const archiveDay = getArchiveDay(habit);
+  const lastDateStr = archiveDay ? formatDate(subDays(parseISO(archiveDay), 1)) : formatDate(new Date());
+  const firstDateStr = [formatDate(parseISO(habit.createdAt)), ...habitEntries.map((e) => e.date)].sort()[0];
+  const dates = new Set<string>();
+  for (let date = parseISO(firstDateStr); formatDate(date) <= lastDateStr; date = addDays(date, 1)) {
+    const dateStr = formatDate(date);
+    // Days from while the habit was a limit count unless they went over it
+    const isLimitDay = getHabitOnDate(habit, dateStr).type === 'limit';
+    if (isLimitDay ? !exceeded.has(dateStr) : completed.has(dateStr)) dates.add(dateStr);
+  }
+  return dates;
+}
+
+/**
+ * Days that count as neither done nor missed for a habit: days it was skipped
+ * with a reason, plus vacation and streak freeze days from the journal.
+ */
+export function getExcusedDates(habit: Habit, entries: DailyEntry[], journal: DayJournal[] = []): Set<string> {
+  const dates = new Set(journal.filter((j) => j.vacation || j.frozen).map((j) => j.date));
+  for (const entry of entries) {
+    if (entry.habitId === habit.id && entry.skipReason) dates.add(entry.date);
+  }
+  return dates;
+}
+
+/**
+ * Whether leaving the habit undone on a date counts as a miss.
+ * Weekday schedules only look at the day of the week. "N times per week"
+ * habits get 7 - N rest days per week, so a day only becomes due once the
+ * week's rest days have been used up. Month and rolling goals are paced over
+ * the whole period, so no single day is a miss. Excused days (see
+ * getExcusedDates) are never due. Creation dates are left to the caller.
+ */
+export function isHabitDueOn(
+  habit: Habit,
+  date: Date,
+  completedDates: Set<string>,
+  excusedDates: Set<string> = new Set()
+): boolean {
+  if (excusedDates.has(formatDate(date))) return false;
+  const { schedule, goalPeriod } = getHabitOnDate(habit, date);
+  if (goalPeriod.type === 'month' || goalPeriod.type === 'rolling') {
+    return completedDates.has(formatDate(date));
+  }
+  if (schedule.type === 'weekdays') {
+    return schedule.days.includes(getDay(date));
+  }
+  if (schedule.type === 'timesPerWeek') {
+    const dateStr = formatDate(date);
+    if (completedDates.has(dateStr)) return true;
+    const missedSoFar = getWeekDates(getWeekStart(date)).filter((d) => {
+      const dayStr = formatDate(d);
+      return dayStr <= dateStr && !completedDates.has(dayStr) && !excusedDates.has(dayStr);
+    }).length;
+    return missedSoFar > 7 - schedule.times;
+  }
+  return true;
+}
+
+/**
+ * The habit's goal between two dates and how much of it should be done by `asOf`.
+ * Both are pro-rated to the days the habit existed and wasn't excused, and only
+ * count its due days, each day using the goal in effect on it; "N times per week"
+ * habits fall behind once the days left are fewer than the completions still needed.
+ */
+export function getRangeTargets(
+  habit: Habit,
+  start: Date,
+  end: Date,
+  asOf: Date = new Date(),
+  excusedDates: Set<string> = new Set()
+): { goal: number; expected: number; dailyGoal: number; remainingDays: number } {
+  const asOfStr = formatDate(asOf);
+  const dailyGoal = getScheduledDailyGoal(habit, end);
+  const days = eachDayOfInterval({ start, end });
+  const activeDays = days.filter((d) => isHabitActiveOn(habit, d) && !excusedDates.has(formatDate(d)));
+
+  // Habit didn't exist yet in this range, or every day was excused
+  if (activeDays.length === 0) {
+    return { goal: 0, expected: 0, dailyGoal, remainingDays: 0 };
+  }
+
+  const { schedule } = getHabitOnDate(habit, end);
+  if (schedule.type === 'timesPerWeek') {
+    const slots = Math.min(getFlexibleSlots(schedule.times, days.length), activeDays.length);
+    const remainingDays = activeDays.filter((d) => formatDate(d) >= asOfStr).length;
+    const daysAfterToday = activeDays.filter((d) => formatDate(d) > asOfStr).length;
+    return {
+      goal: dailyGoal * slots,
+      expected: dailyGoal * Math.max(0, slots - daysAfterToday),
+      dailyGoal,
+      remainingDays,
+    };
+  }
+
+  // Month lengths differ, so a range spanning months needs each day's own share
+  const goalOn = (d: Date) => {
+    const settings = getHabitOnDate(habit, d);
+    return getDailyGoalFor(settings, settings.goalPeriod.type === 'month' ? d : end);
+  };
+  const dueDays = activeDays.filter((d) => {
+    const daySchedule = getHabitOnDate(habit, d).schedule;
+    return daySchedule.type !== 'weekdays' || daySchedule.days.includes(getDay(d));
+  });
+  return {
+    goal: dueDays.reduce((sum, d) => sum + goalOn(d), 0),
+    expected: dueDays.filter((d) => formatDate(d) <= asOfStr).reduce((sum, d) => sum + goalOn(d), 0),
+    dailyGoal,
+    remainingDays: dueDays.filter((d) => formatDate(d) >= asOfStr).length,
+  };
+}
+
+/**
+ * Targets for the goal period containing `date`.
+ */
+export function getPeriodTargets(habit: Habit, date: Date, asOf: Date = new Date()) {
+  const { start, end } = getPeriodRange(getHabitOnDate(habit, date), date);
+  return getRangeTargets(habit, start, end, asOf);
+}
+
+/**
+ * Binary habits get one day of slack before they're behind, numeric habits one day's worth.
+ * Limit habits are inverted: behind once over the cap, warning while using the
+ * allowance faster than the period passes, complete once the period ends under the cap.
+ */
+export function getPacingStatus(
+  habit: Habit,
+  total: number,
+  targets: { goal: number; expected: number; dailyGoal: number; remainingDays: number }
+): PacingStatus {
+  if (habit.type === 'limit') {
+    if (total > targets.goal) return 'behind';
+    if (targets.remainingDays === 0) return 'complete';
+    return total > targets.expected ? 'warning' : 'on-track';
+  }
+
+  if (total >= targets.goal) return 'complete';
+
+  const difference = total - targets.expected;
+  const slack = habit.type === 'binary' ? 1 : targets.dailyGoal;
+  if (difference >= 0) return 'on-track';
+  if (difference >= -slack) return 'warning';
+  return 'behind';
+}
+
 // ============ STATS CALCULATIONS ============
 
 /**
@@ -128,14 +600,48 @@ export function getEffectiveDailyGoal(
   if (entry.targetAtEntry !== undefined) {
     return entry.targetAtEntry;
   }
-  // Fall back to current habit goal
-  return habit.type === 'binary' ? 1 : habit.weeklyGoal / 7;
+  // Fall back to the goal in effect that day
+  const date = parseISO(entry.date);
+  return getHabitOnDate(habit, date).type === 'binary' ? 1 : getScheduledDailyGoal(habit, date);
+}
+
+export const DEFAULT_COMPLETION_THRESHOLD = 0.8;
+
+// Share of the daily goal that counts a day as done, for the habit as it is now
+export function getCompletionThreshold(habit: Pick<Habit, 'completionThreshold'>): number {
+  return habit.completionThreshold ?? DEFAULT_COMPLETION_THRESHOLD;
+}
+
+/**
+ * Get the completion threshold an entry is judged by: the snapshot taken
+ * when it was saved, otherwise the habit's current threshold.
+ */
+export function getEffectiveThreshold(entry: DailyEntry, habit: Habit): number {
+  return entry.thresholdAtEntry ?? getCompletionThreshold(habit);
+}
+
+/**
+ * Snapshot of the habit's targets to store on an entry for the given day,
+ * so later goal or threshold changes don't rewrite history.
+ */
+export function getEntryTargets(
+  habit: Habit,
+  date: string
+): Pick<DailyEntry, 'targetAtEntry' | 'thresholdAtEntry'> {
+  // The goal in effect on that day, so a backfill after a goal change keeps the old target
+  const habitThen = getHabitOnDate(habit, date);
+  if (habitThen.type === 'binary') return { targetAtEntry: 1 };
+  const targetAtEntry = getScheduledDailyGoal(habitThen, parseISO(date));
+  // A limit is kept or broken outright, so it has no threshold
+  if (habitThen.type === 'limit') return { targetAtEntry };
+  return { targetAtEntry, thresholdAtEntry: getCompletionThreshold(habitThen) };
 }
 
 /**
  * Check if an entry meets its daily goal.
  * For binary habits: value >= 1
- * For numeric habits: value >= 80% of daily goal
+ * For numeric and duration habits: value >= the habit's threshold share of the daily goal
+ * For limit habits: value <= daily limit
  */
 export function isEntryComplete(
   entry: DailyEntry,
@@ -143,12 +649,43 @@ export function isEntryComplete(
 ): boolean {
   const dailyGoal = getEffectiveDailyGoal(entry, habit);
   const value = entry.value || 0;
+  const { type } = getHabitOnDate(habit, entry.date);
   
-  if (habit.type === 'binary') {
+  if (type === 'binary') {
     return value >= 1;
   }
-  // For numeric, allow 80% threshold
-  return value >= dailyGoal * 0.8;
+  if (type === 'limit') {
+    return value <= dailyGoal;
+  }
+  return value >= dailyGoal * getEffectiveThreshold(entry, habit);
+}
+
+/**
+ * How much of its daily goal a day achieved, from 0 to 1.
+ * Days that reach the completion threshold score 1; days short of it earn
+ * partial credit in proportion to the goal (half the goal counts half a day).
+ * Limit habits score 1 while within the limit (including unlogged days)
+ * and shrink the further the limit is exceeded.
+ */
+export function getDayCompletion(habit: Habit, entry: DailyEntry | undefined): number {
+  const { type } = entry ? getHabitOnDate(habit, entry.date) : habit;
+  if (type === 'limit') {
+    if (!entry || isEntryComplete(entry, habit)) return 1;
+    return getEffectiveDailyGoal(entry, habit) / entry.value;
+  }
+  if (!entry) return 0;
+  if (isEntryComplete(entry, habit)) return 1;
+  if (type === 'binary') return 0;
+  const dailyGoal = getEffectiveDailyGoal(entry, habit);
+  return dailyGoal > 0 ? Math.min(entry.value / dailyGoal, 1) : 0;
+}
+
+// Share of the goal reached; for limits, 100% while under the cap
+function getCompletionPercentage(habit: Habit, total: number, goal: number): number {
+  if (habit.type === 'limit') {
+    return total <= goal ? 100 : Math.round((goal / total) * 100);
+  }
+  return goal > 0 ? Math.min(100, Math.round((total / goal) * 100)) : 0;
 }
 
 export function calculateWeeklyStats(
@@ -158,19 +695,6 @@ export function calculateWeeklyStats(
 ): WeeklyStats {
   const weekStartStr = formatDate(weekStart);
   const weekEnd = getWeekEnd(weekStart);
-  const weekDates = getWeekDates(weekStart);
-  
-  // Get habit creation date
-  const habitCreatedAt = parseISO(habit.createdAt);
-  const createdDay = new Date(habitCreatedAt);
-  createdDay.setHours(0, 0, 0, 0);
-  
-  // Only count days from when the habit was created
-  const activeDays = weekDates.filter(day => {
-    const dayStart = new Date(day);
-    dayStart.setHours(0, 0, 0, 0);
-    return dayStart >= createdDay;
-  });
   
   // Get entries for this habit in this week
   const habitEntries = entries.filter(
@@ -182,22 +706,19 @@ export function calculateWeeklyStats(
   // Calculate total
   const total = habitEntries.reduce((sum, entry) => sum + entry.value, 0);
   
-  // Pro-rate the goal based on active days (if habit was created mid-week)
-  const activeDaysCount = activeDays.length;
-  const goal = activeDaysCount > 0 ? (habit.weeklyGoal / 7) * activeDaysCount : habit.weeklyGoal;
+  // Goal is pro-rated to the days the habit existed and spread over its scheduled days;
+  // habits with other goal periods get this week's share of their goal
+  const { goal, expected, remainingDays } = getRangeTargets(habit, weekStart, weekEnd);
   const remaining = Math.max(0, goal - total);
+  const habitThen = getHabitOnDate(habit, weekEnd);
   
-  // Calculate average needed per remaining day (only count active remaining days)
-  const today = new Date();
-  const remainingActiveDays = activeDays.filter(d => !isBefore(d, today) || isToday(d)).length;
-  const avgNeededPerDay = remainingActiveDays > 0 ? remaining / remainingActiveDays : 0;
+  // Calculate average needed per remaining due day
+  const avgNeededPerDay = remainingDays > 0 ? remaining / remainingDays : 0;
   
-  // Determine if on track (based on active days passed)
-  const activePassedDays = activeDays.filter((d) => isBefore(d, today) || isToday(d)).length;
-  const expectedProgress = activePassedDays > 0 ? (goal / activeDaysCount) * activePassedDays : 0;
-  const isOnTrack = total >= expectedProgress || total >= goal;
+  // Determine if on track (based on due days passed); limits only need to stay under the cap
+  const isOnTrack = habitThen.type === 'limit' ? total <= goal : total >= expected || total >= goal;
   
-  const completionPercentage = goal > 0 ? Math.min(100, Math.round((total / goal) * 100)) : 0;
+  const completionPercentage = getCompletionPercentage(habitThen, total, goal);
   
   return {
     weekStart: weekStartStr,
@@ -212,65 +733,42 @@ export function calculateWeeklyStats(
   };
 }
 
-export function calculateOverallStats(
-  habits: Habit[],
+/**
+ * Progress in the habit's own goal period (day, week, month or rolling window) containing `date`,
+ * as it stood at the end of `asOf`.
+ */
+export function calculatePeriodStats(
+  habit: Habit,
   entries: DailyEntry[],
-  weekStart: Date
-): OverallStats {
-  const weekStartStr = formatDate(weekStart);
-  const weekDates = getWeekDates(weekStart);
-  
-  const stats = habits.map((h) => calculateWeeklyStats(h, entries, weekStart));
+  date: Date = new Date(),
+  asOf: Date = new Date()
+): PeriodStats {
+  // The period and how it's judged follow the habit as it was set up on `date`
+  const habitThen = getHabitOnDate(habit, date);
+  const { start, end } = getPeriodRange(habitThen, date);
+  const periodStart = formatDate(start);
+  const periodEnd = formatDate(end);
+  const asOfStr = formatDate(asOf);
   
-  // Filter out habits with 0 goal (didn't exist in this week at all)
-  const applicableStats = stats.filter(s => s.goal > 0);
+  const total = entries
+    .filter((e) => e.habitId === habit.id && e.date >= periodStart && e.date <= periodEnd && e.date <= asOfStr)
+    .reduce((sum, entry) => sum + entry.value, 0);
   
-  const habitsOnTrack = applicableStats.filter((s) => s.isOnTrack).length;
-  const totalCompletion = applicableStats.reduce((sum, s) => sum + s.completionPercentage, 0);
-  const overallCompletionPercentage = applicableStats.length > 0 
-    ? Math.round(totalCompletion / applicableStats.length) 
-    : 0;
-  
-  // Best and worst performing habits (from applicable ones)
-  const sortedStats = [...applicableStats].sort((a, b) => b.completionPercentage - a.completionPercentage);
-  const bestPerformingHabit = sortedStats[0]?.habitId || null;
-  const needsAttentionHabit = sortedStats.filter((s) => !s.isOnTrack)[0]?.habitId || null;
-  
-  // Count perfect days (all habits that existed on that day hit their daily target)
-  const weeklyPerfectDays = weekDates.filter((date) => {
-    const dateStr = formatDate(date);
-    const dayStart = new Date(date);
-    dayStart.setHours(0, 0, 0, 0);
-    
-    if (isBefore(new Date(), date) && !isToday(date)) return false;
-    
-    // Get habits that existed on this day
-    const habitsExistingOnDay = habits.filter(habit => {
-      const createdAt = parseISO(habit.createdAt);
-      const createdDay = new Date(createdAt);
-      createdDay.setHours(0, 0, 0, 0);
-      return dayStart >= createdDay;
-    });
-    
-    // If no habits existed on this day, it's not a perfect day
-    if (habitsExistingOnDay.length === 0) return false;
-    
-    return habitsExistingOnDay.every((habit) => {
-      const entry = entries.find((e) => e.habitId === habit.id && e.date === dateStr);
-      if (!entry) return false;
-      return isEntryComplete(entry, habit);
-    });
-  }).length;
+  const targets = getRangeTargets(habit, start, end, asOf);
+  const remaining = Math.max(0, targets.goal - total);
+  const avgNeededPerDay = targets.remainingDays > 0 ? remaining / targets.remainingDays : 0;
   
   return {
-    weekStart: weekStartStr,
-    totalHabits: habits.length,
-    habitsOnTrack,
-    overallCompletionPercentage,
-    bestPerformingHabit,
-    needsAttentionHabit,
-    weeklyPerfectDays,
-    allHabitsWeeklyStreak: 0, // Calculated separately with historical data
+    habitId: habit.id,
+    periodStart,
+    periodEnd,
+    total,
+    goal: Math.round(targets.goal * 100) / 100,
+    expected: Math.round(targets.expected * 100) / 100,
+    remaining: Math.round(remaining * 100) / 100,
+    avgNeededPerDay: Math.round(avgNeededPerDay * 100) / 100,
+    completionPercentage: getCompletionPercentage(habitThen, total, targets.goal),
+    status: getPacingStatus(habitThen, total, targets),
   };
 }
 
@@ -412,21 +910,96 @@ export function getStatusColor(isOnTrack: boolean, completionPercentage: number)
 
 // ============ EXPORT/IMPORT ============
 
-export function exportToJSON(habits: Habit[], entries: DailyEntry[]): string {
-  const data = {
-    version: 1,
+export function exportToJSON(habits: Habit[], entries: DailyEntry[], journal: DayJournal[] = []): string {
+  const data: ExportData = {
+    version: SCHEMA_VERSION,
     exportedAt: new Date().toISOString(),
     habits,
     entries,
+    journal,
   };
   return JSON.stringify(data, null, 2);
 }
 
+// ============ CSV ============
+
+// Quote a field if it contains a delimiter, quote or line break (RFC 4180)
+export function escapeCSVField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCSVRow(fields: (string | number)[]): string {
+  return fields.map(escapeCSVField).join(',');
+}
+
+/**
+ * Parse CSV text into rows of fields.
+ * Handles quoted fields with embedded commas, quotes ("") and line breaks.
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Spreadsheet apps often prepend a byte order mark
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((r) => r.some((f) => f.trim() !== ''));
+}
+
+// Schedule cell for CSV exports, read back by the CSV importer: "daily",
+// "weekdays 1 3 5" (Date#getDay numbers) or "timesPerWeek 3"
+function formatScheduleCell(schedule: HabitSchedule): string {
+  switch (schedule.type) {
+    case 'daily':
+      return 'daily';
+    case 'weekdays':
+      return `weekdays ${schedule.days.join(' ')}`;
+    case 'timesPerWeek':
+      return `timesPerWeek ${schedule.times}`;
+  }
+}
+
 export function exportToCSV(habits: Habit[], entries: DailyEntry[]): string {
   const lines: string[] = [];
   
-  // Headers
-  lines.push('Date,Habit,Type,Value,Goal,Unit');
+  // Headers; the goal applies per goal period, and period length is only set for rolling periods
+  lines.push(toCSVRow(['Date', 'Habit', 'Type', 'Value', 'Goal', 'Goal period', 'Period length', 'Schedule', 'Unit', 'Note']));
   
   // Create a map of habits for quick lookup
   const habitMap = new Map(habits.map((h) => [h.id, h]));
@@ -438,7 +1011,18 @@ export function exportToCSV(habits: Habit[], entries: DailyEntry[]): string {
     const habit = habitMap.get(entry.habitId);
     if (habit) {
       lines.push(
-        `${entry.date},${habit.name},${habit.type},${entry.value},${habit.weeklyGoal},${habit.unit}`
+        toCSVRow([
+          entry.date,
+          habit.name,
+          habit.type,
+          entry.value,
+          habit.weeklyGoal,
+          habit.goalPeriod.type,
+          habit.goalPeriod.type === 'rolling' ? habit.goalPeriod.days : '',
+          formatScheduleCell(habit.schedule),
+          habit.unit,
+          entry.note ?? '',
+        ])
       );
     }
   }
@@ -446,6 +1030,268 @@ export function exportToCSV(habits: Habit[], entries: DailyEntry[]): string {
   return lines.join('\n');
 }
 
+/**
+ * Wide "pivot" CSV: one row per day in the range, one column per habit,
+ * then the day's journal. Days without an entry are left blank so
+ * spreadsheets can tell them from 0.
+ */
+export function exportToWideCSV(
+  habits: Habit[],
+  entries: DailyEntry[],
+  startDate: string,
+  endDate: string,
+  journal: DayJournal[] = []
+): string {
+  const values = new Map(entries.map((e) => [`${e.habitId}_${e.date}`, e.value]));
+  const journalByDate = new Map(journal.map((j) => [j.date, j]));
+  const lines = [
+    toCSVRow([
+      'Date',
+      ...habits.map((h) => (h.unit ? `${h.name} (${h.unit})` : h.name)),
+      'Mood',
+      'Tags',
+      'Journal',
+    ]),
+  ];
+
+  if (startDate <= endDate) {
+    for (const day of eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) })) {
+      const date = formatDate(day);
+      const dayJournal = journalByDate.get(date);
+      lines.push(toCSVRow([
+        date,
+        ...habits.map((h) => values.get(`${h.id}_${date}`) ?? ''),
+        dayJournal?.mood ?? '',
+        dayJournal?.tags.join(' ') ?? '',
+        dayJournal?.note ?? '',
+      ]));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// ============ NOTES & JOURNAL ============
+
+export const MOOD_OPTIONS = [
+  { value: 1, emoji: '😞', label: 'Awful' },
+  { value: 2, emoji: '🙁', label: 'Bad' },
+  { value: 3, emoji: '😐', label: 'Okay' },
+  { value: 4, emoji: '🙂', label: 'Good' },
+  { value: 5, emoji: '😄', label: 'Great' },
+];
+
+// Tags are typed as free text; "#" is optional and case is ignored
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[\s,]+/)
+    .map((tag) => tag.replace(/^#/, '').toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+/**
+ * Find entry notes and journal days matching a query, newest first.
+ * A query starting with "#" matches tags only.
+ */
+export function searchNotes(
+  query: string,
+  entries: DailyEntry[],
+  journal: DayJournal[]
+): NoteSearchResult[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const results: NoteSearchResult[] = [];
+  if (needle.startsWith('#')) {
+    const tag = needle.slice(1);
+    for (const day of journal) {
+      if (day.tags.includes(tag)) results.push({ date: day.date, habitId: null, text: day.note, journal: day });
+    }
+  } else {
+    for (const day of journal) {
+      if (day.note.toLowerCase().includes(needle) || day.tags.some((t) => t.includes(needle))) {
+        results.push({ date: day.date, habitId: null, text: day.note, journal: day });
+      }
+    }
+    const journalByDate = new Map(journal.map((j) => [j.date, j]));
+    for (const entry of entries) {
+      if (entry.note?.toLowerCase().includes(needle)) {
+        results.push({ date: entry.date, habitId: entry.habitId, text: entry.note, journal: journalByDate.get(entry.date) ?? null });
+      }
+    }
+  }
+
+  return results.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+// ============ ICALENDAR ============
+
+function escapeICSText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Content lines are limited to 75 octets; longer ones continue on a line starting with a space
+function foldICSLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (currentBytes + bytes > 75) {
+      parts.push(current);
+      current = ' ';
+      currentBytes = 1;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+}
+
+/**
+ * iCalendar export with an all-day event for every day a habit was completed.
+ */
+export function exportToICS(habits: Habit[], entries: DailyEntry[]): string {
+  const habitMap = new Map(habits.map((h) => [h.id, h]));
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Habit Diary//Habit Export//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:Habit Diary',
+  ];
+
+  const sortedEntries = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+  for (const entry of sortedEntries) {
+    const habit = habitMap.get(entry.habitId);
+    if (!habit || !isEntryComplete(entry, habit)) continue;
+
+    const day = parseISO(entry.date);
+    const summary = habit.type === 'binary'
+      ? `${habit.icon} ${habit.name}`
+      : habit.type === 'duration'
+        ? `${habit.icon} ${habit.name}: ${formatDuration(entry.value)}`
+        : `${habit.icon} ${habit.name}: ${entry.value} ${habit.unit}`.trim();
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.habitId}-${entry.date}@habit-diary`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${format(day, 'yyyyMMdd')}`,
+      `DTEND;VALUE=DATE:${format(addDays(day, 1), 'yyyyMMdd')}`,
+      `SUMMARY:${escapeICSText(summary)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICSLine).join('\r\n') + '\r\n';
+}
+
+// ============ MARKDOWN JOURNAL ============
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+function formatEntryValue(entry: DailyEntry, habit: Habit): string {
+  if (habit.type === 'binary') return entry.value >= 1 ? '✓' : '✗';
+  if (habit.type === 'duration') return formatDuration(entry.value);
+  return `${entry.value}${habit.unit ? ` ${habit.unit}` : ''}`;
+}
+
+/**
+ * Markdown journal grouped by week: a pacing table from calculateWeeklyStats
+ * followed by the logged values for each day in the range.
+ */
+export function exportToMarkdown(
+  habits: Habit[],
+  entries: DailyEntry[],
+  startDate: string,
+  endDate: string,
+  journal: DayJournal[] = []
+): string {
+  const habitMap = new Map(habits.map((h) => [h.id, h]));
+  const journalByDate = new Map(journal.map((j) => [j.date, j]));
+  const lines = [
+    '# Habit Diary Journal',
+    '',
+    `${format(parseISO(startDate), 'MMM d, yyyy')} – ${format(parseISO(endDate), 'MMM d, yyyy')}`,
+  ];
+
+  for (
+    let weekStart = getWeekStart(parseISO(startDate));
+    formatDate(weekStart) <= endDate;
+    weekStart = addWeeks(weekStart, 1)
+  ) {
+    const weekStartStr = formatDate(weekStart);
+    const weekEndStr = formatDate(getWeekEnd(weekStart));
+    // Pacing covers the whole week even where the range cuts into it
+    const weekEntries = entries
+      .filter((e) => e.date >= weekStartStr && e.date <= weekEndStr)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    // Habits that didn't exist yet have nothing to report
+    const weekHabits = habits.filter((h) => h.createdAt.slice(0, 10) <= weekEndStr);
+    if (weekHabits.length === 0) continue;
+
+    lines.push('', `## Week of ${formatWeekRange(weekStart)}`, '');
+    lines.push('| Habit | Progress | Status |', '| --- | --- | --- |');
+    for (const habit of weekHabits) {
+      const stats = calculateWeeklyStats(habit, weekEntries, weekStart);
+      // A limit is met by staying at or under it, which is what isOnTrack reports for limits
+      const status = habit.type === 'limit'
+        ? stats.isOnTrack ? '✅ Under limit' : '🔴 Over limit'
+        : stats.total >= stats.goal
+          ? '✅ Goal met'
+          : stats.isOnTrack ? '🟢 On track' : '🔴 Behind';
+      lines.push(
+        `| ${escapeMarkdownCell(`${habit.icon} ${habit.name}`)} | ${stats.total} / ${stats.goal} ${escapeMarkdownCell(habit.unit)} | ${status} (${stats.completionPercentage}%) |`
+      );
+    }
+
+    const days = new Map<string, DailyEntry[]>();
+    for (const entry of weekEntries) {
+      if (!habitMap.has(entry.habitId) || entry.date < startDate || entry.date > endDate) continue;
+      days.set(entry.date, [...(days.get(entry.date) ?? []), entry]);
+    }
+    for (const day of journal) {
+      if (day.date >= weekStartStr && day.date <= weekEndStr && day.date >= startDate && day.date <= endDate) {
+        days.set(day.date, days.get(day.date) ?? []);
+      }
+    }
+    if (days.size > 0) lines.push('');
+    for (const date of Array.from(days.keys()).sort()) {
+      const logged = days.get(date)!
+        .map((e) => {
+          const habit = habitMap.get(e.habitId)!;
+          const note = e.note ? ` (${e.note})` : '';
+          return `${habit.icon} ${habit.name} ${formatEntryValue(e, habit)}${note}`;
+        })
+        .join(', ');
+      lines.push(`- **${format(parseISO(date), 'EEE, MMM d')}**: ${logged || 'nothing logged'}`);
+
+      const dayJournal = journalByDate.get(date);
+      if (dayJournal) {
+        const mood = MOOD_OPTIONS.find((m) => m.value === dayJournal.mood);
+        const details = [
+          mood ? `${mood.emoji} ${mood.label}` : '',
+          dayJournal.tags.map((t) => `#${t}`).join(' '),
+          dayJournal.note,
+        ].filter(Boolean);
+        if (details.length > 0) lines.push(`  - ${details.join(' · ')}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
 export function downloadFile(content: string, filename: string, type: string): void {
   const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
@@ -460,260 +1306,168 @@ export function downloadFile(content: string, filename: string, type: string): v
 
 // ============ OVERALL STREAK CALCULATION ============
 
+// Month goals keep streaks in months, weekly limits in weeks, everything else in days
+export function getStreakUnit(habit: Pick<Habit, 'type' | 'goalPeriod'>): 'day' | 'week' | 'month' {
+  if (habit.goalPeriod.type === 'month') return 'month';
+  if (habit.type === 'limit' && habit.goalPeriod.type === 'week') return 'week';
+  return 'day';
+}
+
 /**
- * Calculate streak for a single habit
- * A streak breaks immediately if a day is missed (no entry or value = 0)
+ * Streak for goals paced over a whole period: consecutive periods that met
+ * their goal. Month goals count months, weekly limits weeks; rolling goals
+ * count the days on which the window ending that day met its goal. The
+ * current period can extend the streak but never break it - except for a
+ * limit, which is broken as soon as the period goes over its cap.
  */
-export function calculateHabitStreak(
-  habitId: string,
+function calculatePeriodGoalStreak(
   habit: Habit,
-  entries: DailyEntry[]
-): { currentStreak: number; maxStreak: number } {
-  const habitEntries = entries.filter(e => e.habitId === habitId);
-  
-  if (habitEntries.length === 0) {
-    return { currentStreak: 0, maxStreak: 0 };
+  habitEntries: DailyEntry[],
+  excusedDates: Set<string>
+): HabitStreak {
+  const isLimit = habit.type === 'limit';
+  // Limits are kept from the day they're created, logged or not
+  const firstDateStr = isLimit
+    ? [formatDate(parseISO(habit.createdAt)), ...habitEntries.map(e => e.date)].sort()[0]
+    : habitEntries.filter(e => e.value > 0).map(e => e.date).sort()[0];
+  if (!firstDateStr) {
+    return { currentStreak: 0, maxStreak: 0, reachesFirstEntry: false };
   }
 
   const today = new Date();
   today.setHours(0, 0, 0, 0);
-  
-  // Build a map of dates with successful completions
-  // Uses targetAtEntry for historical accuracy
-  const successDates = new Set<string>();
-  
+  const unit = getStreakUnit(habit);
+  const totalsByDate = new Map<string, number>();
   for (const entry of habitEntries) {
-    if (isEntryComplete(entry, habit)) {
-      successDates.add(entry.date);
-    }
+    totalsByDate.set(entry.date, (totalsByDate.get(entry.date) || 0) + entry.value);
+  }
+
+  // One result per period, oldest first
+  const periods: { met: boolean; isCurrent: boolean }[] = [];
+  const firstDate = parseISO(firstDateStr);
+  const startDate = unit === 'month' ? startOfMonth(firstDate) : unit === 'week' ? getWeekStart(firstDate) : firstDate;
+  const step = (date: Date) => (unit === 'month' ? addMonths(date, 1) : unit === 'week' ? addWeeks(date, 1) : addDays(date, 1));
+  for (let date = startDate; date <= today; date = step(date)) {
+    const { start, end } = getPeriodRange(habit, date);
+    const total = eachDayOfInterval({ start, end })
+      .reduce((sum, d) => sum + (totalsByDate.get(formatDate(d)) || 0), 0);
+    const { goal } = getRangeTargets(habit, start, end, today, excusedDates);
+    // A period that was excused throughout is neutral
+    if (goal === 0) continue;
+    periods.push({
+      met: isLimit ? total <= goal : goal > 0 && total >= goal,
+      isCurrent: end >= today && !isLimit,
+    });
   }
 
-  // Calculate current streak: go backwards from today/yesterday
   let currentStreak = 0;
-  let checkDate = new Date(today);
-  const todayStr = formatDate(today);
-  const yesterdayStr = formatDate(addDays(today, -1));
-  
-  // Start from today or yesterday if they have entries
-  if (!successDates.has(todayStr) && !successDates.has(yesterdayStr)) {
-    // No recent activity, current streak is 0
-    currentStreak = 0;
-  } else {
-    // Start counting from today or yesterday
-    if (!successDates.has(todayStr)) {
-      checkDate = addDays(today, -1);
-    }
-    
-    while (successDates.has(formatDate(checkDate))) {
-      currentStreak++;
-      checkDate = addDays(checkDate, -1);
-    }
+  let i = periods.length - 1;
+  for (; i >= 0; i--) {
+    if (periods[i].met) currentStreak++;
+    else if (!periods[i].isCurrent) break;
   }
 
-  // Calculate max streak: find longest consecutive run
   let maxStreak = 0;
-  const sortedDates = Array.from(successDates).sort();
-  
-  if (sortedDates.length > 0) {
-    let tempStreak = 1;
-    
-    for (let i = 1; i < sortedDates.length; i++) {
-      const prevDate = parseISO(sortedDates[i - 1]);
-      const currDate = parseISO(sortedDates[i]);
-      const diff = differenceInDays(currDate, prevDate);
-      
-      if (diff === 1) {
-        tempStreak++;
-      } else {
-        maxStreak = Math.max(maxStreak, tempStreak);
-        tempStreak = 1;
-      }
+  let tempStreak = 0;
+  for (const period of periods) {
+    if (period.met) {
+      tempStreak++;
+      maxStreak = Math.max(maxStreak, tempStreak);
+    } else if (!period.isCurrent) {
+      tempStreak = 0;
     }
-    maxStreak = Math.max(maxStreak, tempStreak);
   }
 
-  return { currentStreak, maxStreak };
+  return { currentStreak, maxStreak, reachesFirstEntry: currentStreak > 0 && i < 0 };
+}
+
+// A habit's streaks. reachesFirstEntry is set while the current streak runs back to
+// the first entry given, so entries from before it could make the streak longer.
+export interface HabitStreak {
+  currentStreak: number;
+  maxStreak: number;
+  reachesFirstEntry: boolean;
 }
 
 /**
- * Calculate overall streak based on WEEKLY goal completion
- * If all habits meet their weekly goals, that week counts as 7 days toward streak
+ * Calculate streak for a single habit
+ * A streak breaks as soon as a due day is missed; days off the habit's
+ * schedule neither break nor extend it. Today never breaks it, as it isn't over.
+ * Month and rolling goals, and weekly limits, count whole periods instead
+ * (see calculatePeriodGoalStreak).
  */
-export function calculateOverallStreak(
-  habits: Habit[],
-  entries: DailyEntry[]
-): { currentStreak: number; maxStreak: number; isCurrentWeekOnTrack: boolean; weeklyStatus: 'on-track' | 'warning' | 'behind' } {
-  if (habits.length === 0) {
-    return { currentStreak: 0, maxStreak: 0, isCurrentWeekOnTrack: true, weeklyStatus: 'on-track' };
+export function calculateHabitStreak(
+  habitId: string,
+  habit: Habit,
+  entries: DailyEntry[],
+  journal: DayJournal[] = []
+): HabitStreak {
+  const excusedDates = getExcusedDates(habit, entries, journal);
+  if (
+    habit.goalPeriod.type === 'month' ||
+    habit.goalPeriod.type === 'rolling' ||
+    (habit.type === 'limit' && habit.goalPeriod.type === 'week')
+  ) {
+    return calculatePeriodGoalStreak(habit, entries.filter(e => e.habitId === habitId), excusedDates);
+  }
+
+  // Dates with successful completions, using targetAtEntry for historical accuracy
+  const successDates = getCompletedDates(habit, entries.filter(e => e.habitId === habitId));
+  
+  if (successDates.size === 0) {
+    return { currentStreak: 0, maxStreak: 0, reachesFirstEntry: false };
   }
 
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   const todayStr = formatDate(today);
-  const currentWeekStart = getWeekStart(today);
-  
-  // Group entries by date and habitId for daily calculations
-  // Store full entries to access targetAtEntry
-  const entriesByDateAndHabit = new Map<string, Map<string, DailyEntry>>(); // date -> habitId -> entry
+  const firstDateStr = Array.from(successDates).sort()[0];
   
-  for (const entry of entries) {
-    if (!entriesByDateAndHabit.has(entry.date)) {
-      entriesByDateAndHabit.set(entry.date, new Map());
-    }
-    const dayEntries = entriesByDateAndHabit.get(entry.date)!;
-    // Keep the entry with highest value if multiple exist for same day
-    const existing = dayEntries.get(entry.habitId);
-    if (!existing || entry.value > existing.value) {
-      dayEntries.set(entry.habitId, entry);
-    }
-  }
-  
-  // Check if a day is "perfect" (all habits that existed on that day met their daily goal)
-  // Uses targetAtEntry for historical accuracy
-  // Only considers habits that existed on the given date
-  const isPerfectDay = (dateStr: string): boolean => {
-    const dayEntries = entriesByDateAndHabit.get(dateStr);
-    if (!dayEntries) return false;
-    
-    const dayDate = parseISO(dateStr);
-    dayDate.setHours(0, 0, 0, 0);
-    
-    // Get habits that existed on this day
-    const habitsExistingOnDay = habits.filter(habit => {
-      const createdAt = parseISO(habit.createdAt);
-      const createdDay = new Date(createdAt);
-      createdDay.setHours(0, 0, 0, 0);
-      return dayDate >= createdDay;
-    });
-    
-    // If no habits existed on this day, it's not a perfect day
-    if (habitsExistingOnDay.length === 0) return false;
-    
-    for (const habit of habitsExistingOnDay) {
-      const entry = dayEntries.get(habit.id);
-      if (!entry) return false;
-      if (!isEntryComplete(entry, habit)) return false;
-    }
-    return true;
+  const isMiss = (date: Date): boolean => {
+    const dateStr = formatDate(date);
+    // Going over a limit breaks the streak straight away, even today
+    const isOpen = dateStr === todayStr && habit.type !== 'limit';
+    return !successDates.has(dateStr) && !isOpen && isHabitDueOn(habit, date, successDates, excusedDates);
   };
-  
-  // Calculate current streak (consecutive perfect days ending at today or yesterday)
+
+  // Calculate current streak: go backwards from today
   let currentStreak = 0;
-  let checkDate = new Date(today);
-  
-  // First check if today is perfect
-  if (isPerfectDay(todayStr)) {
-    currentStreak = 1;
-    checkDate = subDays(today, 1);
-  } else {
-    // If today isn't perfect, start from yesterday
-    checkDate = subDays(today, 1);
+  let day = today;
+  for (; formatDate(day) >= firstDateStr && !isMiss(day); day = subDays(day, 1)) {
+    if (successDates.has(formatDate(day))) currentStreak++;
   }
-  
-  // Count backwards from the starting point
-  while (true) {
-    const dateStr = formatDate(checkDate);
-    if (isPerfectDay(dateStr)) {
-      currentStreak++;
-      checkDate = subDays(checkDate, 1);
-    } else {
-      break;
-    }
-  }
-  
-  // Calculate max streak by checking all days
+  const reachesFirstEntry = currentStreak > 0 && formatDate(day) < firstDateStr;
+
+  // Calculate max streak: find longest run between misses
   let maxStreak = 0;
   let tempStreak = 0;
-  const allDates = Array.from(entriesByDateAndHabit.keys()).sort();
-  
-  for (let i = 0; i < allDates.length; i++) {
-    if (isPerfectDay(allDates[i])) {
-      if (tempStreak === 0) {
-        tempStreak = 1;
-      } else {
-        // Check if consecutive with previous day
-        const prevDate = allDates[i - 1];
-        const currDate = parseISO(allDates[i]);
-        const prevDateParsed = parseISO(prevDate);
-        const diff = differenceInDays(currDate, prevDateParsed);
-        
-        if (diff === 1) {
-          tempStreak++;
-        } else {
-          maxStreak = Math.max(maxStreak, tempStreak);
-          tempStreak = 1;
-        }
-      }
-    } else {
+  for (let date = parseISO(firstDateStr); formatDate(date) <= todayStr; date = addDays(date, 1)) {
+    if (successDates.has(formatDate(date))) {
+      tempStreak++;
       maxStreak = Math.max(maxStreak, tempStreak);
+    } else if (isMiss(date)) {
       tempStreak = 0;
     }
   }
-  maxStreak = Math.max(maxStreak, tempStreak, currentStreak);
-  
-  // Calculate weekly status for the current week (for the badge color)
-  const weeklyTotals = new Map<string, number>(); // habitId -> total for current week
-  const dayOfWeek = differenceInDays(today, currentWeekStart) + 1; // 1-7
-  
-  for (const entry of entries) {
-    const entryDate = parseISO(entry.date);
-    if (entryDate >= currentWeekStart && entryDate <= today) {
-      weeklyTotals.set(entry.habitId, (weeklyTotals.get(entry.habitId) || 0) + entry.value);
-    }
-  }
-  
-  let habitsOnTrack = 0;
-  let habitsWarning = 0;
-  let habitsBehind = 0;
-  
-  for (const habit of habits) {
-    const total = weeklyTotals.get(habit.id) || 0;
-    const weeklyGoal = habit.weeklyGoal;
-    
-    // Already completed weekly goal
-    if (total >= weeklyGoal) {
-      habitsOnTrack++;
-      continue;
-    }
-    
-    if (habit.type === 'binary') {
-      const expectedByToday = (weeklyGoal / 7) * dayOfWeek;
-      const difference = total - expectedByToday;
-      
-      if (difference >= 0) {
-        habitsOnTrack++;
-      } else if (difference >= -1) {
-        habitsWarning++;
-      } else {
-        habitsBehind++;
-      }
+
+  return { currentStreak, maxStreak, reachesFirstEntry };
+}
+
+/**
+ * Consecutive vacation days in the journal, merged into ranges (oldest first).
+ */
+export function getVacationRanges(journal: DayJournal[]): { start: string; end: string }[] {
+  const days = journal.filter((j) => j.vacation).map((j) => j.date).sort();
+  const ranges: { start: string; end: string }[] = [];
+  for (const day of days) {
+    const last = ranges[ranges.length - 1];
+    if (last && formatDate(addDays(parseISO(last.end), 1)) === day) {
+      last.end = day;
     } else {
-      const dailyGoal = weeklyGoal / 7;
-      const expectedByToday = dailyGoal * dayOfWeek;
-      const difference = total - expectedByToday;
-      
-      if (difference >= 0) {
-        habitsOnTrack++;
-      } else if (difference >= -dailyGoal) {
-        habitsWarning++;
-      } else {
-        habitsBehind++;
-      }
+      ranges.push({ start: day, end: day });
     }
   }
-  
-  let weeklyStatus: 'on-track' | 'warning' | 'behind';
-  if (habitsBehind > 0) {
-    weeklyStatus = 'behind';
-  } else if (habitsWarning > 0) {
-    weeklyStatus = 'warning';
-  } else {
-    weeklyStatus = 'on-track';
-  }
-  
-  const isCurrentWeekOnTrack = weeklyStatus === 'on-track';
-
-  return { currentStreak, maxStreak, isCurrentWeekOnTrack, weeklyStatus };
+  return ranges;
 }
 
 // Get streak color based on streak length
@@ -1,30 +1,111 @@
 // Core data types for the habit tracker
 
-export type HabitType = 'binary' | 'numeric';
+export type HabitType = 'binary' | 'numeric' | 'limit' | 'duration'; // Durations are in minutes
+
+// Which days a habit is due on. Weekdays use Date#getDay numbering (0 = Sunday).
+export type HabitSchedule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; days: number[] }
+  | { type: 'timesPerWeek'; times: number }; // Any days, N of them per week
+
+// The span a habit's goal covers. Rolling periods end on the day being looked at.
+export type GoalPeriod =
+  | { type: 'day' }
+  | { type: 'week' } // Monday to Sunday
+  | { type: 'month' }
+  | { type: 'rolling'; days: number };
+
+// A habit's goal settings in effect from one day until the next change
+export interface GoalVersion {
+  effectiveFrom: string; // ISO format: "2024-12-08"
+  type: HabitType;
+  weeklyGoal: number;
+  goalPeriod: GoalPeriod;
+  schedule: HabitSchedule;
+  unit: string;
+}
 
 export interface Habit {
   id: string;
   name: string;
   type: HabitType;
-  weeklyGoal: number;
+  weeklyGoal: number; // Goal per goalPeriod, or the cap for limit habits (named from when every goal was weekly)
+  goalPeriod: GoalPeriod;
+  schedule: HabitSchedule;
   unit: string; // "days", "liters", "eggs", etc.
+  quickAmount?: number; // Amount logged by the tracker's "+" button
+  completionThreshold?: number; // Share of the daily goal (0-1) that counts a day as done; 0.8 if unset
+  goalHistory?: GoalVersion[]; // Oldest first, the last matching the fields above; unset until the goal first changes
   color: string; // For visual distinction
   icon: string; // Emoji or icon name
   createdAt: string;
+  updatedAt?: string; // Last change to the habit; unset on habits saved before this was tracked
   archived: boolean;
+  archivedAt?: string | null; // When it was archived; null once restored
+  deletedAt?: string | null; // When it was moved to the trash; null once restored
   order: number; // For drag-drop ordering
 }
 
+// One run of a duration habit's timer, as ISO timestamps
+export interface TimerSession {
+  start: string;
+  end: string;
+}
+
+// One logged amount in a day's append-only event log
+export interface EntryEvent {
+  id: string;
+  time: string; // ISO timestamp
+  amount: number; // Negative for corrections
+  note?: string;
+}
+
+// A change to an entry made after its edit window
+export interface EntryRevision {
+  changedAt: string; // ISO timestamp
+  before: number;
+  after: number;
+  change?: 'note' | 'skip' | 'unskip'; // Set when the note or skip changed rather than the value
+}
+
 export interface DailyEntry {
   id: string;
   habitId: string;
   date: string; // ISO format: "2024-12-08"
-  value: number; // 0/1 for binary, actual value for numeric
+  value: number; // 0/1 for binary, minutes for duration, actual value otherwise
   targetAtEntry?: number; // Daily goal snapshot at time of entry (for historical accuracy)
+  thresholdAtEntry?: number; // Completion threshold snapshot, like targetAtEntry
+  sessions?: TimerSession[]; // Timer runs that make up a duration habit's value
+  events?: EntryEvent[]; // When present, value is the sum of their amounts
+  note?: string;
+  loggedLate?: boolean; // First logged after its edit window (backfilled)
+  history?: EntryRevision[]; // Late changes to the value, oldest first
+  skipReason?: string; // Set when the day was skipped on purpose; streaks and stats treat it as neutral
   createdAt: string;
   updatedAt: string;
 }
 
+// How a whole day went, independent of any one habit
+export interface DayJournal {
+  id: string; // Same as date: one record per day
+  date: string;
+  mood: number | null; // 1 (awful) to 5 (great)
+  tags: string[];
+  note: string;
+  vacation?: boolean; // No habit is due on the day
+  frozen?: boolean; // A streak freeze was spent on the day, so no habit is due
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A note or journal day matching a search
+export interface NoteSearchResult {
+  date: string;
+  habitId: string | null; // null for the day's journal
+  text: string;
+  journal: DayJournal | null; // The day's mood and tags, if recorded
+}
+
 export interface WeeklyStats {
   weekStart: string; // Monday ISO date
   habitId: string;
@@ -37,6 +118,22 @@ export interface WeeklyStats {
   streak: number; // Consecutive weeks hitting goal
 }
 
+export type PacingStatus = 'complete' | 'on-track' | 'warning' | 'behind';
+
+// Progress towards a habit's goal in the period containing a given day
+export interface PeriodStats {
+  habitId: string;
+  periodStart: string;
+  periodEnd: string;
+  total: number;
+  goal: number; // Pro-rated if the habit was created mid-period
+  expected: number; // Where the total should be by today
+  remaining: number;
+  avgNeededPerDay: number;
+  completionPercentage: number;
+  status: PacingStatus;
+}
+
 export interface StreakData {
   habitId: string;
   currentDailyStreak: number;
@@ -57,17 +154,57 @@ export interface OverallStats {
   allHabitsWeeklyStreak: number; // Weeks where all habits hit goals
 }
 
+// How a day went across all habits: every habit due met its goal, one didn't, or none was due
+export type DayResult = 'perfect' | 'missed' | 'off';
+
+// A habit's completion over a date range, as defined in lib/stats
+export interface HabitRangeStats {
+  habit: Habit;
+  total: number; // Sum of values logged in the range
+  goal: number; // The range's share of the habit's goal
+  countedDays: number; // Days up to today that count toward completion
+  credit: number; // Fractional: days short of the goal earn partial credit
+  completionRate: number; // credit / countedDays, 0-100
+  countsPace: boolean; // Month and rolling goals are credited for days on pace
+  isOnTrack: boolean;
+  lateDays: number; // Logged days that were backfilled after their edit window
+  activeDays: number; // Days the habit existed and wasn't excused
+  dailyAverage: number;
+  notApplicable: boolean; // Nothing was scheduled in the range
+}
+
+export interface RangeStats {
+  habitStats: HabitRangeStats[];
+  totalDays: number;
+  perfectDays: number;
+  countedDays: number;
+  credit: number;
+  completionRate: number; // Over all applicable habits' counted days, 0-100
+  habitsOnTrack: number;
+}
+
 // UI State types
 export interface WeekNavigation {
   currentWeekStart: Date;
   displayWeekStart: Date;
 }
 
+// Local-only data found on this device after signing in
+export interface LocalDataSnapshot {
+  habits: Habit[];
+  entries: DailyEntry[];
+  journal: DayJournal[];
+}
+
 export interface HabitFormData {
   name: string;
   type: HabitType;
   weeklyGoal: number;
+  goalPeriod: GoalPeriod;
+  schedule: HabitSchedule;
   unit: string;
+  quickAmount: number;
+  completionThreshold: number;
   color: string;
   icon: string;
 }
@@ -92,7 +229,63 @@ export interface ExportData {
   exportedAt: string;
   habits: Habit[];
   entries: DailyEntry[];
+  journal?: DayJournal[]; // Missing from exports made before the journal existed
+}
+
+// A record in an import file that can't be imported as-is
+export interface ImportIssue {
+  record: 'file' | 'habit' | 'entry' | 'journal';
+  index: number; // Position in the file's habits/entries/journal array, -1 for file-level issues
+  id?: string;
+  message: string;
 }
 
+export interface ImportCounts {
+  added: number;
+  overwritten: number;
+  unchanged: number;
+  skipped: number; // Valid, but older than what is already stored
+  invalid: number;
+}
 
+// Dry run of an import: what would change if the valid records were written
+export interface ImportPreview {
+  version: number;
+  habits: Habit[]; // Valid records, upgraded to the current schema
+  entries: DailyEntry[];
+  journal: DayJournal[];
+  issues: ImportIssue[];
+  habitCounts: ImportCounts;
+  entryCounts: ImportCounts;
+}
 
+// Offline sync types
+export type OutboxOperation =
+  | { type: 'createHabit'; habit: Habit }
+  | { type: 'updateHabit'; habitId: string; updates: Partial<Habit> }
+  | { type: 'deleteHabit'; habitId: string }
+  | { type: 'upsertEntry'; entry: DailyEntry }
+  | { type: 'upsertJournal'; journal: DayJournal };
+
+export type QueuedOperation = OutboxOperation & {
+  seq: number; // Auto-increment key, preserves write order
+  userId: string;
+  queuedAt: string;
+};
+
+// Conflict resolution types
+export type ConflictSource = 'edit' | 'sync' | 'import';
+
+// A write that lost to a newer version of the same entry
+export interface EntryConflict {
+  id: string;
+  entryId: string;
+  habitId: string;
+  date: string;
+  keptValue: number;
+  keptUpdatedAt: string;
+  discardedValue: number;
+  discardedUpdatedAt: string;
+  source: ConflictSource;
+  detectedAt: string;
+}